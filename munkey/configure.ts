@@ -1,10 +1,17 @@
 import path from "path";
 import fs from "fs";
 import express from "express";
+import { TLSSocket } from "tls";
 import PouchDB from "pouchdb";
 import usePouchDB from "express-pouchdb";
 
-import { DeviceDiscoveryDecl, PeerIdentityDecl } from "./discovery";
+import {
+    DeviceDiscoveryDecl,
+    PeerIdentityDecl,
+    isPairingConfirmDecl,
+    isPairingRequestDecl,
+    isPairingRevealDecl,
+} from "./discovery";
 import { DatabaseDocument, ServiceContainer } from "./services";
 
 type PouchConstructor<Content, Plug = {}> = {
@@ -51,7 +58,21 @@ function configureRoutes(services: ServiceContainer, options?: ServerOptions): P
     const app = services.web.getApplication();
     const pouchOptions = !rootPath ? {}
         : { logPath: path.resolve(rootPath) + path.sep + "log.txt" };
-    app.use("/link", express.json());
+
+    // Only paired peers may query this device or replicate its vaults.
+    // The peer's unique ID is made available to later handlers as `response.locals.uniqueId`.
+    const requirePeerCertificate: express.RequestHandler = async function(request, response, next) {
+        const socket = request.socket as TLSSocket;
+        const certificate: Buffer = socket.getPeerCertificate?.(true)?.raw ?? null;
+        const uniqueId = await services.identity.authenticatePeer(certificate, socket.remoteAddress ?? "unknown");
+        if (!uniqueId)
+            return response.sendStatus(403);
+
+        response.locals.uniqueId = uniqueId;
+        next();
+    };
+
+    app.use("/link", requirePeerCertificate, express.json());
 
     app.get("/link", async function(
         request,
@@ -70,17 +91,49 @@ function configureRoutes(services: ServiceContainer, options?: ServerOptions): P
             return response.status(400);
 
         let { uniqueId } = request.body;
+        if (uniqueId !== response.locals.uniqueId)
+            return response.sendStatus(403);
         await services.activity.restorePeer(uniqueId);
         response.end();
     });
 
+    app.use("/pair", express.json());
+
+    app.post("/pair", function(request, response) {
+        if (!isPairingRequestDecl(request.body))
+            return response.sendStatus(400);
+
+        const pairingResponse = services.pairing
+            .receivePairingRequest(request.body, request.socket.remoteAddress ?? "unknown");
+        if (!pairingResponse)
+            return response.sendStatus(403);
+        response.json(pairingResponse).end();
+    });
+
+    app.post("/pair/reveal", function(request, response) {
+        if (!isPairingRevealDecl(request.body))
+            return response.sendStatus(400);
+
+        response.sendStatus(services.pairing.receivePairingReveal(request.body) ? 204 : 404);
+    });
+
+    app.post("/pair/confirm", function(request, response) {
+        if (!isPairingConfirmDecl(request.body))
+            return response.sendStatus(400);
+
+        response.sendStatus(services.pairing.receivePairingConfirmation(request.body) ? 204 : 404);
+    });
+
     if (pouch) {
-        app.use("/db", usePouchDB(pouch, pouchOptions));
+        app.use("/db", requirePeerCertificate, usePouchDB(pouch, pouchOptions));
     }
 
     return services
         .admin.initialize()
-        .then(adminService => services.vault.useAdminService(adminService))
+        .then(adminService => Promise.all([
+            services.vault.useAdminService(adminService),
+            services.identity.useAdminService(adminService),
+        ]))
         .then(() => services.web.listen({ portNum, tlsKeyPair: services.identity.getTlsKeyPair() }))
         .then(async () => {
             if (discoveryPortNum && await services.activity.broadcast(
@@ -26,6 +26,30 @@ interface PeerLinkResponse extends PeerIdentityDecl {
     activePeerList: DeviceDiscoveryDecl[];
 }
 
+/* Pairing messages, in the order they are sent. All binary fields are base64-encoded. */
+
+interface PairingRequestDecl {
+    uniqueId: string;
+    commitment: string;
+}
+
+interface PairingResponseDecl {
+    pairingId: string;
+    uniqueId: string;
+    publicKey: string;
+}
+
+interface PairingRevealDecl {
+    pairingId: string;
+    publicKey: string;
+    certificate: string;
+}
+
+interface PairingConfirmDecl {
+    pairingId: string;
+    accepted: boolean;
+}
+
 function isPeerIdentityDecl(decl: Object): decl is PeerIdentityDecl {
     return decl &&
         ("uniqueId" in decl) &&
@@ -50,14 +74,43 @@ function isPeerLinkResponse(decl: Object): decl is PeerLinkResponse {
         ((decl as PeerLinkResponse).activePeerList.every(peer => isDeviceDiscoveryDecl(peer)));
 }
 
+function hasStringFields(decl: Object, fields: string[]): boolean {
+    return decl && fields.every(field => typeof decl[field] === "string");
+}
+
+function isPairingRequestDecl(decl: Object): decl is PairingRequestDecl {
+    return hasStringFields(decl, ["uniqueId", "commitment"]);
+}
+
+function isPairingResponseDecl(decl: Object): decl is PairingResponseDecl {
+    return hasStringFields(decl, ["pairingId", "uniqueId", "publicKey"]);
+}
+
+function isPairingRevealDecl(decl: Object): decl is PairingRevealDecl {
+    return hasStringFields(decl, ["pairingId", "publicKey", "certificate"]);
+}
+
+function isPairingConfirmDecl(decl: Object): decl is PairingConfirmDecl {
+    return hasStringFields(decl, ["pairingId"]) &&
+        typeof (decl as PairingConfirmDecl).accepted === "boolean";
+}
+
 export {
     PeerVaultDecl,
     PeerIdentityDecl,
     DeviceDiscoveryDecl,
     PeerLinkResponse,
+    PairingRequestDecl,
+    PairingResponseDecl,
+    PairingRevealDecl,
+    PairingConfirmDecl,
 
     /* Validation Functions */
     isPeerIdentityDecl,
     isDeviceDiscoveryDecl,
     isPeerLinkResponse,
+    isPairingRequestDecl,
+    isPairingResponseDecl,
+    isPairingRevealDecl,
+    isPairingConfirmDecl,
 };
@@ -0,0 +1,81 @@
+/**
+ * Reads fields from binary vault data in order, checking that each field fits in the remaining data.
+ * Reading past the end of the data, or reading a negative size, throws an error
+ * which names the field being read, so that truncated or hostile input is rejected clearly.
+ */
+class BufferReader {
+
+    private position: number = 0;
+
+    /**
+     * @param buffer Data to read.
+     * @param name Name of the data, used in error messages.
+     */
+    constructor(private readonly buffer: Buffer, private readonly name: string = "Vault data") {
+
+    }
+
+    public get remaining(): number {
+        return this.buffer.length - this.position;
+    }
+
+    public isAtEnd(): boolean {
+        return this.remaining === 0;
+    }
+
+    public readInt32(field: string): number {
+        return this.read(4, field).readInt32LE(0);
+    }
+
+    public readUInt32(field: string): number {
+        return this.read(4, field).readUInt32LE(0);
+    }
+
+    public readUInt16(field: string): number {
+        return this.read(2, field).readUInt16LE(0);
+    }
+
+    public readDouble(field: string): number {
+        return this.read(8, field).readDoubleLE(0);
+    }
+
+    /**
+     * @name readSize
+     * @description Read a 32-bit size of data which is stored later on,
+     * checking that the size is not negative and that enough data remains for it.
+     */
+    public readSize(field: string): number {
+        const size = this.readInt32(`size of ${field}`);
+        if (size < 0 || size > this.remaining) {
+            throw new Error(`${this.name} is invalid: size of ${field} is ${size}, ` +
+                `but only ${this.remaining} bytes remain`);
+        }
+        return size;
+    }
+
+    public readBytes(size: number, field: string): Buffer {
+        if (size < 0) {
+            throw new Error(`${this.name} is invalid: size of ${field} is ${size}`);
+        }
+        return Buffer.from(this.read(size, field));
+    }
+
+    public readRemaining(): Buffer {
+        return this.readBytes(this.remaining, "remaining data");
+    }
+
+    private read(size: number, field: string): Buffer {
+        if (size > this.remaining) {
+            throw new Error(`${this.name} is truncated: expected ${size} bytes for ${field} at offset ${this.position}, ` +
+                `but only ${this.remaining} remain`);
+        }
+
+        const data = this.buffer.slice(this.position, this.position + size);
+        this.position += size;
+        return data;
+    }
+}
+
+export {
+    BufferReader,
+};
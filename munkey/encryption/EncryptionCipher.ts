@@ -1,79 +1,433 @@
-import { createCipheriv, Cipher, createDecipheriv, Decipher, randomFill } from "crypto";
+import {
+    createCipheriv,
+    Cipher,
+    CipherGCM,
+    CipherGCMTypes,
+    createDecipheriv,
+    Decipher,
+    DecipherGCM,
+    randomFill,
+} from "crypto";
+import {
+    deserializeKdfParameters,
+    isSameKdfParameters,
+    KdfParameters,
+    legacyKdfParameters,
+    serializeKdfParameters,
+} from "./KdfParameters";
+import { BufferReader } from "./BufferReader";
 
 
-enum VaultAlgorithm {
+/**
+ * Vault encryption algorithms.
+ * The position of each algorithm in this enum is its ID in the payload header, so new algorithms must be appended.
+ */
+export enum VaultAlgorithm {
     AesCbc192 = "aes-192-cbc",
+    AesGcm256 = "aes-256-gcm",
+    ChaCha20Poly1305 = "chacha20-poly1305",
 }
 
+/**
+ * Key and seed sizes of each algorithm, in bytes.
+ * Authenticated algorithms produce a tag, which must match before any decrypted data is returned.
+ */
+const algorithmParameters: { [algorithm in VaultAlgorithm]: { keyLength: number, seedLength: number, authenticated: boolean } } = {
+    [VaultAlgorithm.AesCbc192]: { keyLength: 24, seedLength: 16, authenticated: false },
+    [VaultAlgorithm.AesGcm256]: { keyLength: 32, seedLength: 12, authenticated: true },
+    [VaultAlgorithm.ChaCha20Poly1305]: { keyLength: 32, seedLength: 12, authenticated: true },
+};
+const authTagLength = 16;
+
+/**
+ * Algorithm used for new vaults, and for vaults upgraded from a legacy algorithm.
+ */
+export const defaultVaultAlgorithm = VaultAlgorithm.AesGcm256;
+
 interface EncryptionCipherContext {
     options: {
         pbkdf2: { [optionKey: string]: string | number }
     };
 }
 
+export enum VaultPayloadType {
+    /** The vault key is derived using {@link legacySalt}. */
+    Legacy = 0,
+    /** The vault key is derived using a random salt, stored in the payload header. */
+    Salted = 1,
+    /** As with {@link VaultPayloadType.Salted}, with the vault's authentication tag stored after the vault. */
+    Authenticated = 2,
+    /** As with {@link VaultPayloadType.Authenticated}, with the key derivation parameters stored after the tag. */
+    Derived = 3,
+    /**
+     * The vault is encrypted with a random master key, which is stored after the tag in one or more key slots.
+     * Each key slot holds the master key encrypted with a key derived from a different password.
+     */
+    KeySlots = 4,
+    /**
+     * As with {@link VaultPayloadType.KeySlots}, but the vault is encrypted with a read key derived from the master key.
+     * Each key slot records whether it holds the master key, or only the read key for a read-only member.
+     */
+    SplitKeySlots = 5,
+    /**
+     * As with {@link VaultPayloadType.SplitKeySlots}, but each slot may have a key pair, whose private key is encrypted
+     * with the slot's password, and hold the vault key sealed to its public key. New keys can be sealed to such slots
+     * without their passwords, so that the vault's keys can be replaced when a slot is revoked.
+     */
+    SealedKeySlots = 6,
+}
+
 export interface VaultPayload {
     payloadType: number;
     algorithm: VaultAlgorithm;
     seed: Buffer;
+    salt?: Buffer;
     vault: Buffer;
+    tag?: Buffer;
+    kdf?: KdfParameters | null;
+    slots?: KeySlot[];
+}
+
+export interface SealedKey {
+    /** Public X25519 key of the slot. */
+    publicKey: Buffer;
+    /** Ephemeral public key which the vault key was sealed with. */
+    ephemeralKey: Buffer;
+    /** Payload containing the vault key, encrypted with the key agreed between the ephemeral key and the slot's key. */
+    key: VaultPayload;
+}
+
+export interface KeySlot {
+    slotId: number;
+    label: string;
+    /**
+     * Payload containing the master key of the vault, encrypted with the slot's password.
+     * For sealed slots, it contains the private key of the slot instead.
+     */
+    key: VaultPayload;
+    /** Whether the slot only holds the read key of the vault, see {@link VaultPayloadType.SplitKeySlots}. */
+    readOnly?: boolean;
+    /** Whether the slot is unlocked by a recovery secret, which is split into shares instead of being a password. */
+    recovery?: boolean;
+    /** Vault key sealed to the slot's public key, see {@link VaultPayloadType.SealedKeySlots}. */
+    sealed?: SealedKey;
 }
 
 export type EncryptionAlgorithm = (passBuf: Buffer, salt: Buffer) => Promise<Buffer>;
 
+/**
+ * Salt used for every vault created before salts were stored in the payload.
+ */
+export const legacySalt = "munkey-salt";
+const saltSize = 16;
+
+
+export function mapPayloadAlgorithm(algorithmNumber: number): VaultAlgorithm | null {
+    return Object.values(VaultAlgorithm)[algorithmNumber] ?? null;
+}
+
+export function getPayloadAlgorithmId(algorithm: VaultAlgorithm): number {
+    return Object.values(VaultAlgorithm).indexOf(algorithm);
+}
 
-function mapPayloadAlgorithm(algorithmNumber: number): VaultAlgorithm {
-    return VaultAlgorithm[
-        Object.values(VaultAlgorithm)[algorithmNumber]
-    ];
+type PayloadSection = "salt" | "tag" | "kdf" | "slots";
+
+/**
+ * Sections which each payload type has besides the seed and the vault.
+ * The size of each section is written to the header in this order.
+ * The salt is stored between the seed and the vault, and the other sections after the vault.
+ */
+function getPayloadSections(payloadType: number): PayloadSection[] {
+    switch (payloadType) {
+        case VaultPayloadType.Salted:
+            return [ "salt" ];
+        case VaultPayloadType.Authenticated:
+            return [ "salt", "tag" ];
+        case VaultPayloadType.Derived:
+            return [ "salt", "tag", "kdf" ];
+        case VaultPayloadType.KeySlots:
+        case VaultPayloadType.SplitKeySlots:
+        case VaultPayloadType.SealedKeySlots:
+            return [ "tag", "slots" ];
+        default:
+            return [];
+    }
+}
+
+export function isKeySlotPayload(payloadType: number): boolean {
+    return payloadType === VaultPayloadType.KeySlots
+        || payloadType === VaultPayloadType.SplitKeySlots
+        || payloadType === VaultPayloadType.SealedKeySlots;
+}
+
+/**
+ * Flags of a key slot, which are stored with each slot of {@link VaultPayloadType.SplitKeySlots} payloads.
+ */
+enum KeySlotFlags {
+    ReadOnly = 1,
+    Recovery = 2,
+    Sealed = 4,
+}
+
+/**
+ * @name serializeKeySlots
+ * @description Write the key slots of a payload of the given type.
+ * Slots of {@link VaultPayloadType.SplitKeySlots} payloads have their flags written after their ID,
+ * and slots of {@link VaultPayloadType.SealedKeySlots} payloads have their sealed key written after their key.
+ */
+export function serializeKeySlots(slots: KeySlot[], payloadType: number = VaultPayloadType.KeySlots): Buffer {
+    const withSealed = payloadType === VaultPayloadType.SealedKeySlots;
+    const withFlags = withSealed || payloadType === VaultPayloadType.SplitKeySlots;
+    const count = Buffer.alloc(4);
+    count.writeInt32LE(slots.length, 0);
+
+    return Buffer.concat([ count, ...slots.map(({ slotId, label, key, readOnly = false, recovery = false, sealed = null }) => {
+        const labelData = Buffer.from(label);
+        const keyData = EncryptionCipher.wrapPayload(key);
+        const sealedData = withSealed && sealed
+            ? [ sealed.publicKey, sealed.ephemeralKey, EncryptionCipher.wrapPayload(sealed.key) ]
+            : [];
+        const header = Buffer.alloc((withFlags ? 16 : 12) + (withSealed ? 12 : 0));
+        let offset = header.writeInt32LE(slotId, 0);
+        if (withFlags) {
+            const flags = (readOnly ? KeySlotFlags.ReadOnly : 0)
+                | (recovery ? KeySlotFlags.Recovery : 0)
+                | (sealedData.length > 0 ? KeySlotFlags.Sealed : 0);
+            offset = header.writeInt32LE(flags, offset);
+        }
+        offset = header.writeInt32LE(labelData.length, offset);
+        offset = header.writeInt32LE(keyData.length, offset);
+        if (withSealed) {
+            [ 0, 1, 2 ].forEach(i => offset = header.writeInt32LE(sealedData[i]?.length ?? 0, offset));
+        }
+        return Buffer.concat([ header, labelData, keyData, ...sealedData ]);
+    }) ]);
+}
+
+export function deserializeKeySlots(serialized: Buffer, payloadType: number = VaultPayloadType.KeySlots): KeySlot[] {
+    const withSealed = payloadType === VaultPayloadType.SealedKeySlots;
+    const withFlags = withSealed || payloadType === VaultPayloadType.SplitKeySlots;
+    const reader = new BufferReader(serialized, "Key slots");
+    const slots: KeySlot[] = [];
+    for (let count = reader.readInt32("key slot count"); count > 0; count--) {
+        const slotId = reader.readInt32("key slot ID");
+        const flags = withFlags ? reader.readInt32("key slot flags") : 0;
+        const labelSize = reader.readSize("key slot label"),
+            keySize = reader.readSize("key slot key");
+        const [ publicKeySize, ephemeralKeySize, sealedKeySize ] = withSealed
+            ? [ reader.readSize("key slot public key"), reader.readSize("key slot ephemeral key"), reader.readSize("key slot sealed key") ]
+            : [ 0, 0, 0 ];
+
+        const slot: KeySlot = {
+            slotId,
+            label: reader.readBytes(labelSize, "key slot label").toString(),
+            key: EncryptionCipher.unwrapPayload(reader.readBytes(keySize, "key slot key")),
+            readOnly: (flags & KeySlotFlags.ReadOnly) !== 0,
+            recovery: (flags & KeySlotFlags.Recovery) !== 0,
+        };
+        const [ publicKey, ephemeralKey, sealedKey ] = [
+            reader.readBytes(publicKeySize, "key slot public key"),
+            reader.readBytes(ephemeralKeySize, "key slot ephemeral key"),
+            reader.readBytes(sealedKeySize, "key slot sealed key"),
+        ];
+        if ((flags & KeySlotFlags.Sealed) !== 0) {
+            slot.sealed = { publicKey, ephemeralKey, key: EncryptionCipher.unwrapPayload(sealedKey) };
+        }
+        slots.push(slot);
+    }
+
+    return slots;
 }
 
 class EncryptionCipher {
 
-    private readonly symmetricKey: Buffer;
-    private readonly algorithm: string;
+    protected readonly symmetricKey: Buffer;
+    protected readonly algorithm: VaultAlgorithm;
+    private readonly salt: Buffer;
+    private readonly kdf: KdfParameters;
 
-    constructor(symmetricKey: Buffer, algorithm: VaultAlgorithm = VaultAlgorithm.AesCbc192) {
+    /**
+     * @param symmetricKey Key used to encrypt and decrypt the vault.
+     * @param algorithm Encryption algorithm of the vault.
+     * @param salt Salt the key was derived with. It is written to every payload encrypted by this cipher.
+     * @param kdf Parameters the key was derived with. They are written to every authenticated payload.
+     */
+    constructor(
+        symmetricKey: Buffer,
+        algorithm: VaultAlgorithm = VaultAlgorithm.AesCbc192,
+        salt: Buffer = Buffer.from(legacySalt),
+        kdf: KdfParameters = legacyKdfParameters)
+    {
         this.symmetricKey = symmetricKey;
         this.algorithm = algorithm;
+        this.salt = salt;
+        this.kdf = kdf;
     }
 
     public static deriveKey(
-        password: string, salt: string,
+        password: string, salt: string | Buffer,
         algorithm: (pw: Buffer, salt: Buffer) => Promise<Buffer>): Promise<Buffer>
     {
         return algorithm(Buffer.from(password), Buffer.from(salt));
     }
 
+    public static getKeyLength(algorithm: VaultAlgorithm): number {
+        return algorithmParameters[algorithm].keyLength;
+    }
+
+    /**
+     * @name unwrapPayload
+     * @description Read a payload written by {@link EncryptionCipher.wrapPayload}.
+     * Throws an error if the payload is truncated or any of its sizes are invalid.
+     */
     public static unwrapPayload(wrappedPayload: Buffer): VaultPayload {
-        let seedSize = wrappedPayload.readInt32LE(8),
-            vaultSize = wrappedPayload.readInt32LE(12);
-        let seedStart: Buffer = wrappedPayload.slice(16),
-            vaultStart: Buffer = seedStart.slice(seedSize);
+        const reader = new BufferReader(wrappedPayload, "Vault payload");
+        const payloadType = reader.readInt32("payload type");
+        const algorithmId = reader.readInt32("algorithm");
+        const seedSize = reader.readSize("seed"),
+            vaultSize = reader.readSize("vault");
+        const sections = getPayloadSections(payloadType);
+        const sectionSizes = new Map(sections.map(section => [ section, reader.readSize(section) ]));
+
+        const readSection = (section: PayloadSection): Buffer | undefined => sectionSizes.has(section)
+            ? reader.readBytes(sectionSizes.get(section), section)
+            : undefined;
+        const seed = reader.readBytes(seedSize, "seed");
+        const salt = readSection("salt");
+        const vault = reader.readBytes(vaultSize, "vault");
+        const tag = readSection("tag");
+        const kdf = readSection("kdf");
+        const slots = readSection("slots");
 
         return {
-            payloadType: wrappedPayload.readInt32LE(0),
-            algorithm: mapPayloadAlgorithm(wrappedPayload.readInt32LE(4)),
-            seed: Buffer.from(seedStart.slice(0, seedSize)),
-            vault: Buffer.from(vaultStart.slice(0, vaultSize)),
+            payloadType,
+            algorithm: mapPayloadAlgorithm(algorithmId),
+            seed,
+            salt,
+            vault,
+            tag,
+            kdf: kdf && deserializeKdfParameters(kdf),
+            slots: slots && deserializeKeySlots(slots, payloadType),
         };
     }
 
     public static wrapPayload(payload: VaultPayload): Buffer {
-        let header = Buffer.alloc(16);
+        const sections = getPayloadSections(payload.payloadType);
+        const content = (section: PayloadSection): Buffer => {
+            switch (section) {
+                case "salt": return payload.salt;
+                case "tag": return payload.tag;
+                case "kdf": return serializeKdfParameters(payload.kdf);
+                case "slots": return serializeKeySlots(payload.slots, payload.payloadType);
+            }
+        };
+        const sectionContent = new Map(sections.map(section => [ section, content(section) ]));
+
+        let header = Buffer.alloc(16 + sections.length * 4);
         header.writeInt32LE(payload.payloadType, 0);
-        header.writeInt32LE(0, 4); // todo
+        header.writeInt32LE(getPayloadAlgorithmId(payload.algorithm), 4);
         header.writeInt32LE(payload.seed.length, 8);
         header.writeInt32LE(payload.vault.length, 12);
+        sections.forEach((section, i) => header.writeInt32LE(sectionContent.get(section).length, 16 + i * 4));
 
-        return Buffer.concat([ header, payload.seed, payload.vault ]);
+        return Buffer.concat([
+            header,
+            payload.seed,
+            sectionContent.get("salt") ?? Buffer.alloc(0),
+            payload.vault,
+            ...sections
+                .filter(section => section !== "salt")
+                .map(section => sectionContent.get(section)),
+        ]);
+    }
+
+    /**
+     * @name getPayloadSalt
+     * @description Get the salt which the key of the given payload was derived with.
+     * Payloads which do not store a salt use {@link legacySalt}.
+     */
+    public static getPayloadSalt(payload: VaultPayload): Buffer {
+        return getPayloadSections(payload.payloadType).includes("salt")
+            ? payload.salt
+            : Buffer.from(legacySalt);
+    }
+
+    /**
+     * @name getPayloadKdf
+     * @description Get the parameters which the key of the given payload was derived with.
+     * Payloads which do not store them use {@link legacyKdfParameters}.
+     * @returns Parameters of the key derivation function, or null if the payload uses an unknown function.
+     * Key slot payloads also give null, as the key of each slot is derived separately.
+     */
+    public static getPayloadKdf(payload: VaultPayload): KdfParameters | null {
+        if (isKeySlotPayload(payload.payloadType)) {
+            return null;
+        }
+        return getPayloadSections(payload.payloadType).includes("kdf")
+            ? payload.kdf ?? null
+            : legacyKdfParameters;
+    }
+
+    public static createSalt(): Promise<Buffer> {
+        return EncryptionCipher.createFill(saltSize);
+    }
+
+    private usesLegacySalt(): boolean {
+        return this.salt.equals(Buffer.from(legacySalt));
+    }
+
+    private isAuthenticated(): boolean {
+        return algorithmParameters[this.algorithm].authenticated;
+    }
+
+    /**
+     * @name isLegacy
+     * @description Whether the key of this cipher was derived using {@link legacySalt},
+     * or this cipher uses an unauthenticated algorithm.
+     * Vaults encrypted by a legacy cipher should be re-encrypted with a random salt
+     * and the {@link defaultVaultAlgorithm}.
+     */
+    public isLegacy(): boolean {
+        return this.usesLegacySalt() || !this.isAuthenticated();
+    }
+
+    public getKdf(): KdfParameters {
+        return this.kdf;
+    }
+
+    /**
+     * @name matchesPayload
+     * @description Whether this cipher uses the same salt, key derivation parameters and algorithm
+     * as the given payload.
+     * If not, this cipher cannot decrypt the payload, even with the correct password.
+     */
+    public matchesPayload(payload: VaultPayload): boolean {
+        const kdf = EncryptionCipher.getPayloadKdf(payload);
+        return this.salt.equals(EncryptionCipher.getPayloadSalt(payload))
+            && kdf !== null && isSameKdfParameters(this.kdf, kdf)
+            && this.algorithm === payload.algorithm;
+    }
+
+    /**
+     * @name forPayload
+     * @description Get the cipher which should encrypt the next version of the given payload,
+     * which must match this cipher (see {@link EncryptionCipher#matchesPayload}).
+     */
+    public forPayload(payload: VaultPayload): EncryptionCipher {
+        return this;
     }
 
     public createCipher(fill: Buffer): Cipher {
-        return createCipheriv(this.algorithm, this.symmetricKey, fill);
+        // The options are the same for all authenticated algorithms, GCM typings are used for all of them.
+        return this.isAuthenticated()
+            ? createCipheriv(this.algorithm as CipherGCMTypes, this.symmetricKey, fill, { authTagLength })
+            : createCipheriv(this.algorithm, this.symmetricKey, fill);
     }
 
     public createDecipher(fill: Buffer): Decipher {
-        return createDecipheriv(this.algorithm, this.symmetricKey, fill);
+        return this.isAuthenticated()
+            ? createDecipheriv(this.algorithm as CipherGCMTypes, this.symmetricKey, fill, { authTagLength })
+            : createDecipheriv(this.algorithm, this.symmetricKey, fill);
     }
 
     public static createFill(size: number): Promise<Buffer> {
@@ -95,14 +449,27 @@ class EncryptionCipher {
     }
 
     public async _encrypt(plainText: Buffer): Promise<VaultPayload> {
-        const seed = await EncryptionCipher.createFill(16);
+        const seed = await EncryptionCipher.createFill(algorithmParameters[this.algorithm].seedLength);
         const cipher = this.createCipher(seed);
+        const vault = Buffer.concat([ cipher.update(plainText), cipher.final() ]);
 
+        if (this.isAuthenticated()) {
+            return {
+                payloadType: VaultPayloadType.Derived,
+                algorithm: this.algorithm,
+                seed,
+                salt: this.salt,
+                vault,
+                tag: (cipher as CipherGCM).getAuthTag(),
+                kdf: this.kdf,
+            };
+        }
         return {
-            payloadType: 0,
-            algorithm: VaultAlgorithm.AesCbc192,
+            payloadType: this.usesLegacySalt() ? VaultPayloadType.Legacy : VaultPayloadType.Salted,
+            algorithm: this.algorithm,
             seed,
-            vault: Buffer.concat([ cipher.update(plainText), cipher.final() ]),
+            salt: this.usesLegacySalt() ? undefined : this.salt,
+            vault,
         };
     }
 
@@ -114,18 +481,61 @@ class EncryptionCipher {
         return Buffer.concat([ decipher.update(cipherText), decipher.final() ]);
     }
 
-    public async _decrypt(payload: VaultPayload): Promise<Buffer> {
+    /**
+     * @name encryptSecret
+     * @description Encrypt a secret which is stored alongside the vault, such as its signing key,
+     * with the same key as the vault. The secret is decrypted with {@link EncryptionCipher#decryptSecret}.
+     */
+    public encryptSecret(secret: Buffer): Promise<VaultPayload> {
+        return this._encrypt(secret);
+    }
+
+    /**
+     * @name decryptSecret
+     * @description Decrypt a secret encrypted with {@link EncryptionCipher#encryptSecret}.
+     * @returns Promise which resolves to the secret, or null if this cipher cannot decrypt it.
+     */
+    public decryptSecret(payload: VaultPayload): Promise<Buffer | null> {
+        return this._decrypt(payload);
+    }
+
+    /**
+     * @name _decrypt
+     * @description Decrypt the vault contained in the given payload.
+     *
+     * @param payload Payload to decrypt, which must match this cipher (see {@link EncryptionCipher#matchesPayload}).
+     * @returns Promise which resolves to the decrypted vault.
+     * For authenticated algorithms, resolves to null if the vault fails its integrity check,
+     * meaning that either the password is wrong or the vault was modified.
+     */
+    public async _decrypt(payload: VaultPayload): Promise<Buffer | null> {
         let decipher = this.createDecipher(payload.seed);
-        return Buffer.concat([
-            decipher.update(payload.vault),
-            decipher.final(),
-        ]);
+        if (!this.isAuthenticated()) {
+            return Buffer.concat([
+                decipher.update(payload.vault),
+                decipher.final(),
+            ]);
+        }
+        if (!payload.tag) {
+            return null;
+        }
+
+        try {
+            (decipher as DecipherGCM).setAuthTag(payload.tag);
+            return Buffer.concat([
+                decipher.update(payload.vault),
+                decipher.final(),
+            ]);
+        }
+        catch {
+            return null;
+        }
     }
 
     /**
      * @name splitKey
-     * A temporary method, used to process in-channel private keys that are attached to the vault payload.
-     * This is only necessary if the private key is included as part of the payload itself.
+     * Split the private key from the decrypted content of a vault written before the key had its own record,
+     * when the key was stored inside the encrypted content.
      * 
      * @param payload Decrypted (but unprocessed) vault payload to split.
      * @returns Tuple containing buffers (privateKey, decryptedVault)
@@ -141,17 +551,6 @@ class EncryptionCipher {
             dataStart.slice(0, dataSize),
         ];
     }
-
-    public static joinKey(payload: Buffer, privateKey: Buffer): Buffer {
-        let size = Buffer.alloc(8);
-        size.writeInt32LE(privateKey.length, 0);
-        size.writeInt32LE(payload.length, 4);
-
-        return Buffer.concat([
-            size.slice(0, 4), privateKey,
-            size.slice(4, 8), payload
-        ]);
-    }
 }
 
 
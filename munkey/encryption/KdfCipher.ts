@@ -0,0 +1,25 @@
+import { EncryptionCipher, VaultAlgorithm } from "./EncryptionCipher";
+import { KdfAlgorithm, KdfParameters } from "./KdfParameters";
+import { createPbkdf2Cipher } from "./Pbkdf2Cipher";
+import { createScryptCipher } from "./ScryptCipher";
+
+
+/**
+ * @name createKdfCipher
+ * @description Derive a cipher using the key derivation function described by the given parameters,
+ * such as the parameters stored in a vault payload.
+ */
+function createKdfCipher(
+    password: string, salt: string | Buffer, parameters: KdfParameters, algorithm?: VaultAlgorithm): Promise<EncryptionCipher>
+{
+    switch (parameters.kdf) {
+        case KdfAlgorithm.Pbkdf2Sha256:
+            return createPbkdf2Cipher(password, salt, { iterations: parameters.iterations, algorithm });
+        case KdfAlgorithm.Scrypt:
+            return createScryptCipher(password, salt, { ...parameters, algorithm });
+    }
+}
+
+export {
+    createKdfCipher,
+};
@@ -0,0 +1,141 @@
+/**
+ * Key derivation functions which a vault key can be derived with.
+ * The value of each function is its ID in the payload.
+ */
+export enum KdfAlgorithm {
+    Pbkdf2Sha256 = 0,
+    Scrypt = 1,
+}
+
+export interface Pbkdf2Parameters {
+    kdf: KdfAlgorithm.Pbkdf2Sha256;
+    iterations: number;
+}
+
+export interface ScryptParameters {
+    kdf: KdfAlgorithm.Scrypt;
+    /** Base 2 logarithm of the CPU/memory cost (N). */
+    cost: number;
+    blockSize: number;
+    parallelization: number;
+}
+
+export type KdfParameters = Pbkdf2Parameters | ScryptParameters;
+
+/**
+ * Parameters used for every vault created before they were stored in the payload.
+ */
+export const legacyKdfParameters: Pbkdf2Parameters = {
+    kdf: KdfAlgorithm.Pbkdf2Sha256,
+    iterations: 64000,
+};
+
+/**
+ * Parameters used for new vaults, and for vaults upgraded from a legacy format.
+ */
+export const defaultKdfParameters: ScryptParameters = {
+    kdf: KdfAlgorithm.Scrypt,
+    cost: 15,
+    blockSize: 8,
+    parallelization: 1,
+};
+
+/**
+ * Parameters used when a vault is switched to PBKDF2 without giving an iteration count.
+ */
+export const defaultPbkdf2Parameters: Pbkdf2Parameters = {
+    kdf: KdfAlgorithm.Pbkdf2Sha256,
+    iterations: 600000,
+};
+
+/** Bounds of the cost which can be configured for each function. */
+export const kdfCostLimits: { [kdf in KdfAlgorithm]: [ number, number ] } = {
+    [KdfAlgorithm.Pbkdf2Sha256]: [ legacyKdfParameters.iterations, 10000000 ],
+    [KdfAlgorithm.Scrypt]: [ 14, 20 ],
+};
+
+/**
+ * Bounds of the scrypt block size and parallelization which can be read from a payload.
+ * Only the defaults are written, and larger values multiply the memory or time a derivation takes.
+ */
+const scryptBlockSizeLimits: [ number, number ] = [ 1, defaultKdfParameters.blockSize ];
+const scryptParallelizationLimits: [ number, number ] = [ 1, defaultKdfParameters.parallelization ];
+
+const kdfParametersSize = 16;
+
+function checkKdfLimit(value: number, [ min, max ]: [ number, number ], name: string) {
+    if (value < min || value > max) {
+        throw new Error(`Key derivation parameters are invalid: ${name} ${value} is not from ${min} to ${max}`);
+    }
+}
+
+
+/**
+ * @name serializeKdfParameters
+ * @description Write the ID and parameters of a key derivation function as four 32-bit integers.
+ */
+export function serializeKdfParameters(parameters: KdfParameters): Buffer {
+    const serialized = Buffer.alloc(kdfParametersSize);
+    serialized.writeInt32LE(parameters.kdf, 0);
+    switch (parameters.kdf) {
+        case KdfAlgorithm.Pbkdf2Sha256:
+            serialized.writeInt32LE(parameters.iterations, 4);
+            break;
+        case KdfAlgorithm.Scrypt:
+            serialized.writeInt32LE(parameters.cost, 4);
+            serialized.writeInt32LE(parameters.blockSize, 8);
+            serialized.writeInt32LE(parameters.parallelization, 12);
+            break;
+    }
+
+    return serialized;
+}
+
+/**
+ * @name deserializeKdfParameters
+ * @description Read the parameters written by {@link serializeKdfParameters}.
+ * Payloads are replicated by peers, so parameters outside of {@link kdfCostLimits} are refused
+ * rather than deriving a key with whatever memory and time they ask for.
+ * Throws an error if the parameters are out of bounds.
+ * @returns Parameters of the key derivation function, or null if the function is unknown.
+ */
+export function deserializeKdfParameters(serialized: Buffer): KdfParameters | null {
+    if (serialized.length < kdfParametersSize) {
+        return null;
+    }
+
+    switch (serialized.readInt32LE(0)) {
+        case KdfAlgorithm.Pbkdf2Sha256: {
+            const iterations = serialized.readInt32LE(4);
+            checkKdfLimit(iterations, kdfCostLimits[KdfAlgorithm.Pbkdf2Sha256], "PBKDF2 iterations");
+            return { kdf: KdfAlgorithm.Pbkdf2Sha256, iterations };
+        }
+        case KdfAlgorithm.Scrypt: {
+            const parameters: ScryptParameters = {
+                kdf: KdfAlgorithm.Scrypt,
+                cost: serialized.readInt32LE(4),
+                blockSize: serialized.readInt32LE(8),
+                parallelization: serialized.readInt32LE(12),
+            };
+            checkKdfLimit(parameters.cost, kdfCostLimits[KdfAlgorithm.Scrypt], "scrypt cost");
+            checkKdfLimit(parameters.blockSize, scryptBlockSizeLimits, "scrypt block size");
+            checkKdfLimit(parameters.parallelization, scryptParallelizationLimits, "scrypt parallelization");
+            return parameters;
+        }
+        default:
+            return null;
+    }
+}
+
+export function isSameKdfParameters(first: KdfParameters, second: KdfParameters): boolean {
+    return serializeKdfParameters(first).equals(serializeKdfParameters(second));
+}
+
+export function describeKdfParameters(parameters: KdfParameters): string {
+    switch (parameters.kdf) {
+        case KdfAlgorithm.Pbkdf2Sha256:
+            return `PBKDF2-SHA256 (${parameters.iterations} iterations)`;
+        case KdfAlgorithm.Scrypt:
+            return `scrypt (N=2^${parameters.cost}, r=${parameters.blockSize}, p=${parameters.parallelization})`;
+    }
+}
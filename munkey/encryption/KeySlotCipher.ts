@@ -0,0 +1,443 @@
+import { createPrivateKey, createPublicKey, diffieHellman, generateKeyPairSync, hkdfSync, KeyObject } from "crypto";
+
+import {
+    defaultVaultAlgorithm,
+    EncryptionCipher,
+    isKeySlotPayload,
+    KeySlot,
+    SealedKey,
+    VaultAlgorithm,
+    VaultPayload,
+    VaultPayloadType,
+} from "./EncryptionCipher";
+import { defaultKdfParameters, KdfParameters } from "./KdfParameters";
+import { createKdfCipher } from "./KdfCipher";
+
+
+/**
+ * Cipher for vaults which are encrypted with a random master key, unlocked by one of several key slots.
+ * Each key slot holds the master key encrypted with a different password, so a vault can be shared
+ * without sharing a password.
+ *
+ * The vault is encrypted with a read key derived from the master key, while secrets which allow writing
+ * to the vault, such as its signing key, are encrypted with the master key itself.
+ * Read-only slots only hold the read key, so their members can decrypt the vault but cannot sign changes to it.
+ *
+ * A vault can also have a recovery slot, which is unlocked by a random recovery secret instead of a password.
+ * The secret is meant to be split into shares with {@link splitSecret}, so that no single share unlocks the vault.
+ *
+ * Each slot also has a key pair, and holds the vault key sealed to its public key rather than encrypted with its
+ * password, so that the master key can be replaced without knowing the password of every slot.
+ * Slots are revoked by replacing the master key, see {@link revokeSlots}.
+ */
+class KeySlotCipher extends EncryptionCipher {
+
+    private readonly masterKey: Buffer | null;
+    private readonly slots: KeySlot[];
+    private readonly slotId: number;
+
+    /**
+     * @param masterKey Master key of the vault, or null for a read-only member.
+     * @param algorithm Encryption algorithm of the vault, which must be authenticated.
+     * @param slots Key slots of the vault.
+     * @param slotId ID of the key slot the master key was unlocked with.
+     * @param readKey Read key of the vault, which is derived from the master key if it is given.
+     */
+    constructor(
+        masterKey: Buffer | null,
+        algorithm: VaultAlgorithm,
+        slots: KeySlot[],
+        slotId: number,
+        readKey: Buffer = deriveReadKey(masterKey, algorithm))
+    {
+        super(readKey, algorithm);
+        this.masterKey = masterKey;
+        this.slots = slots;
+        this.slotId = slotId;
+    }
+
+    /**
+     * @name create
+     * @description Create a new master key, along with the first key slot to unlock it.
+     */
+    public static async create(password: string, label: string, kdf: KdfParameters = defaultKdfParameters): Promise<KeySlotCipher> {
+        const masterKey = await EncryptionCipher.createFill(EncryptionCipher.getKeyLength(defaultVaultAlgorithm));
+        const slot = await createKeySlot(password, masterKey, 0, label, kdf);
+
+        return new KeySlotCipher(masterKey, defaultVaultAlgorithm, [ slot ], slot.slotId);
+    }
+
+    /**
+     * @name open
+     * @description Unlock the master key of a vault with the password of any of its key slots.
+     * @returns Promise which resolves to the cipher of the vault, or null if the password does not match any slot.
+     */
+    public static async open(password: string, payload: VaultPayload): Promise<KeySlotCipher | null> {
+        for (const slot of payload.slots ?? []) {
+            const key = await openKeySlot(password, slot);
+            if (key) {
+                return slot.readOnly
+                    ? new KeySlotCipher(null, payload.algorithm, payload.slots, slot.slotId, key)
+                    : new KeySlotCipher(key, payload.algorithm, payload.slots, slot.slotId);
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * @name createRecoverySecret
+     * @description Create a random secret for the recovery slot of a vault.
+     */
+    public static createRecoverySecret(): Promise<Buffer> {
+        return EncryptionCipher.createFill(recoverySecretLength);
+    }
+
+    /**
+     * @name openRecovery
+     * @description Unlock the master key of a vault with the secret of its recovery slot.
+     * @returns Promise which resolves to the cipher of the vault, or null if the secret does not match the recovery slot.
+     */
+    public static async openRecovery(secret: Buffer, payload: VaultPayload): Promise<KeySlotCipher | null> {
+        for (const slot of (payload.slots ?? []).filter(slot => slot.recovery)) {
+            const masterKey = await openKeySlot(getRecoveryPassword(secret), slot);
+            if (masterKey) {
+                return new KeySlotCipher(masterKey, payload.algorithm, payload.slots, slot.slotId);
+            }
+        }
+
+        return null;
+    }
+
+    public getSlots(): KeySlot[] {
+        return this.slots;
+    }
+
+    public getSlotId(): number {
+        return this.slotId;
+    }
+
+    /**
+     * @name isReadOnly
+     * @description Whether this cipher was unlocked with a read-only slot, so it cannot decrypt the vault's signing key.
+     */
+    public isReadOnly(): boolean {
+        return this.masterKey === null;
+    }
+
+    public getKdf(): KdfParameters {
+        const slot = this.slots.find(slot => slot.slotId === this.slotId);
+        return EncryptionCipher.getPayloadKdf(slot.key);
+    }
+
+    public isLegacy(): boolean {
+        return false;
+    }
+
+    /**
+     * @name isSealed
+     * @description Whether the slot this cipher was unlocked with holds a sealed key, so that it can be given
+     * new keys when other slots are revoked.
+     */
+    public isSealed(): boolean {
+        return !!this.slots.find(slot => slot.slotId === this.slotId)?.sealed;
+    }
+
+    /**
+     * @name matchesPayload
+     * @description Whether the given payload uses key slots, and the slot this cipher was unlocked with
+     * has neither been revoked nor given new keys.
+     */
+    public matchesPayload(payload: VaultPayload): boolean {
+        const slot = this.slots.find(slot => slot.slotId === this.slotId);
+        return isKeySlotPayload(payload.payloadType)
+            && payload.algorithm === this.algorithm
+            && (payload.slots ?? []).some(other => other.slotId === this.slotId && isSameKeySlot(other, slot));
+    }
+
+    /**
+     * @name forPayload
+     * @description Get a cipher which keeps the key slots of the given payload,
+     * so that slots added or revoked by other devices are not overwritten.
+     */
+    public forPayload(payload: VaultPayload): KeySlotCipher {
+        const slot = this.slots.find(slot => slot.slotId === this.slotId);
+        return this.withSlots(payload.slots.map(other => other.slotId === this.slotId ? slot : other));
+    }
+
+    /**
+     * @name addSlot
+     * @description Get a cipher with a new key slot, which unlocks the master key with the given password,
+     * or only the read key if the slot is read-only.
+     */
+    public async addSlot(
+        password: string, label: string, kdf: KdfParameters = defaultKdfParameters, readOnly: boolean = false): Promise<KeySlotCipher>
+    {
+        if (this.isReadOnly()) {
+            throw new Error("Key slots cannot be added by a read-only member");
+        }
+
+        const slot = await createKeySlot(password, readOnly ? this.symmetricKey : this.masterKey, this.getNextSlotId(), label, kdf);
+
+        return this.withSlots([ ...this.slots, { ...slot, readOnly } ]);
+    }
+
+    /**
+     * @name setRecoverySlot
+     * @description Get a cipher with a recovery slot, which unlocks the master key with the given recovery secret.
+     * Any previous recovery slot is removed, so that the shares of its secret no longer unlock the vault.
+     */
+    public async setRecoverySlot(secret: Buffer, kdf: KdfParameters = defaultKdfParameters): Promise<KeySlotCipher> {
+        if (this.isReadOnly()) {
+            throw new Error("The recovery slot cannot be set by a read-only member");
+        }
+        if (this.slots.find(slot => slot.slotId === this.slotId)?.recovery) {
+            throw new Error("The recovery slot cannot be replaced by a member who unlocked the vault with it");
+        }
+
+        const slot = await createKeySlot(getRecoveryPassword(secret), this.masterKey, this.getNextSlotId(), "recovery", kdf);
+
+        return this.withSlots([ ...this.slots.filter(existing => !existing.recovery), { ...slot, recovery: true } ]);
+    }
+
+    /**
+     * @name replaceSlot
+     * @description Get a cipher whose own key slot is unlocked by the given password and key derivation parameters.
+     */
+    public async replaceSlot(password: string, kdf: KdfParameters = this.getKdf()): Promise<KeySlotCipher> {
+        const { label } = this.slots.find(slot => slot.slotId === this.slotId);
+        const { key, sealed } = await createKeySlot(password, this.masterKey ?? this.symmetricKey, this.slotId, label, kdf);
+
+        return this.withSlots(this.slots.map(existing => existing.slotId === this.slotId ? { ...existing, key, sealed } : existing));
+    }
+
+    /**
+     * @name revokeSlots
+     * @description Get a cipher without the given key slots, whose master key and read key are replaced
+     * and sealed to the remaining slots, so that whoever unlocked the vault with a revoked slot
+     * cannot decrypt what is encrypted with the new cipher.
+     * @returns Promise which resolves to the new cipher, or rejects if a slot cannot be revoked
+     * or a remaining slot cannot be given the new keys.
+     */
+    public async revokeSlots(slotIds: number[]): Promise<KeySlotCipher> {
+        if (this.isReadOnly()) {
+            throw new Error("Key slots cannot be revoked by a read-only member");
+        }
+        if (slotIds.includes(this.slotId)) {
+            throw new Error("The key slot which was used to unlock the vault cannot be revoked");
+        }
+
+        // Read-only members cannot write to the vault, so their slots are only sealed when they are added again.
+        const slots = this.slots.filter(slot => !slotIds.includes(slot.slotId));
+        const unsealed = slots.filter(slot => !slot.sealed && !slot.readOnly).map(slot => slot.slotId);
+        const unsealedReadOnly = slots.filter(slot => !slot.sealed && slot.readOnly).map(slot => slot.slotId);
+        if (unsealed.length > 0) {
+            throw new Error(
+                `Key slot(s) ${unsealed.join(", ")} cannot be given new keys until their members ` +
+                "change their passwords or write to the vault");
+        }
+        if (unsealedReadOnly.length > 0) {
+            throw new Error(
+                `Read-only key slot(s) ${unsealedReadOnly.join(", ")} cannot be given new keys; revoke them and add them again`);
+        }
+
+        const masterKey = await EncryptionCipher.createFill(EncryptionCipher.getKeyLength(this.algorithm));
+        const readKey = deriveReadKey(masterKey, this.algorithm);
+        const sealedSlots = await Promise.all(slots.map(async slot => ({
+            ...slot,
+            sealed: await sealKey(slot.readOnly ? readKey : masterKey, slot.sealed.publicKey),
+        })));
+
+        return new KeySlotCipher(masterKey, this.algorithm, sealedSlots, this.slotId, readKey);
+    }
+
+    public async _encrypt(plainText: Buffer): Promise<VaultPayload> {
+        const { algorithm, seed, vault, tag } = await super._encrypt(plainText);
+
+        return {
+            payloadType: this.slots.some(slot => slot.sealed)
+                ? VaultPayloadType.SealedKeySlots
+                : VaultPayloadType.SplitKeySlots,
+            algorithm,
+            seed,
+            vault,
+            tag,
+            slots: this.slots,
+        };
+    }
+
+    /**
+     * @name _decrypt
+     * @description Decrypt the vault contained in the given payload.
+     * Vaults written before the read key was split from the master key are encrypted with the master key.
+     */
+    public async _decrypt(payload: VaultPayload): Promise<Buffer | null> {
+        if (payload.payloadType !== VaultPayloadType.KeySlots) {
+            return super._decrypt(payload);
+        }
+        return this.masterKey ? new EncryptionCipher(this.masterKey, this.algorithm)._decrypt(payload) : null;
+    }
+
+    /**
+     * @name encryptSecret
+     * @description Encrypt a secret with the master key, so that read-only members cannot decrypt it.
+     */
+    public async encryptSecret(secret: Buffer): Promise<VaultPayload> {
+        if (this.isReadOnly()) {
+            throw new Error("Secrets cannot be encrypted by a read-only member");
+        }
+        return new EncryptionCipher(this.masterKey, this.algorithm)._encrypt(secret);
+    }
+
+    /**
+     * @name decryptSecret
+     * @description Decrypt a secret encrypted with the master key.
+     * @returns Promise which resolves to the secret, or null for a read-only member.
+     */
+    public async decryptSecret(payload: VaultPayload): Promise<Buffer | null> {
+        return this.masterKey ? new EncryptionCipher(this.masterKey, this.algorithm)._decrypt(payload) : null;
+    }
+
+    private getNextSlotId(): number {
+        return Math.max(...this.slots.map(slot => slot.slotId)) + 1;
+    }
+
+    private withSlots(slots: KeySlot[]): KeySlotCipher {
+        return new KeySlotCipher(this.masterKey, this.algorithm, slots, this.slotId, this.symmetricKey);
+    }
+}
+
+/** Size of the secret which unlocks the recovery slot of a vault. */
+const recoverySecretLength = 16;
+
+/**
+ * Derive the read key of a vault from its master key.
+ */
+function deriveReadKey(masterKey: Buffer, algorithm: VaultAlgorithm): Buffer {
+    return Buffer.from(hkdfSync(
+        "sha256", masterKey, Buffer.alloc(0), "munkey vault read key", EncryptionCipher.getKeyLength(algorithm)));
+}
+
+/**
+ * Get the password of a recovery slot, which is derived from its secret like the password of any other slot.
+ */
+function getRecoveryPassword(secret: Buffer): string {
+    return secret.toString("hex");
+}
+
+/**
+ * Create a key slot with a new key pair, whose private key is encrypted with the given password,
+ * and which holds the given vault key sealed to its public key.
+ */
+async function createKeySlot(
+    password: string, key: Buffer, slotId: number, label: string, kdf: KdfParameters): Promise<KeySlot>
+{
+    const { publicKey, privateKey } = generateKeyPairSync("x25519");
+    const cipher = await createKdfCipher(password, await EncryptionCipher.createSalt(), kdf);
+
+    return {
+        slotId,
+        label,
+        key: await cipher._encrypt(privateKey.export({ type: "pkcs8", format: "der" })),
+        sealed: await sealKey(key, publicKey.export({ type: "spki", format: "der" })),
+    };
+}
+
+/**
+ * Unlock the vault key held by a key slot with its password.
+ * Slots created before slots were sealed hold the vault key itself, encrypted with the password.
+ */
+async function openKeySlot(password: string, { key, sealed }: KeySlot): Promise<Buffer | null> {
+    const kdf = EncryptionCipher.getPayloadKdf(key);
+    if (!kdf) {
+        return null;
+    }
+
+    const cipher = await createKdfCipher(password, EncryptionCipher.getPayloadSalt(key), kdf, key.algorithm);
+    const opened = await cipher._decrypt(key);
+    return opened && sealed ? unsealKey(opened, sealed) : opened;
+}
+
+/**
+ * Seal a vault key to the public key of a slot, with a key agreed with a new ephemeral key pair.
+ */
+async function sealKey(key: Buffer, publicKey: Buffer): Promise<SealedKey> {
+    const ephemeral = generateKeyPairSync("x25519");
+    const ephemeralKey = ephemeral.publicKey.export({ type: "spki", format: "der" });
+    const sealingKey = deriveSealingKey(ephemeral.privateKey, publicKey, ephemeralKey, publicKey);
+
+    return {
+        publicKey,
+        ephemeralKey,
+        key: await new EncryptionCipher(sealingKey, defaultVaultAlgorithm)._encrypt(key),
+    };
+}
+
+/**
+ * Unseal the vault key of a slot with the slot's private key.
+ * @returns Promise which resolves to the vault key, or null if the private key does not match the slot.
+ */
+async function unsealKey(privateKey: Buffer, { publicKey, ephemeralKey, key }: SealedKey): Promise<Buffer | null> {
+    try {
+        const sealingKey = deriveSealingKey(
+            createPrivateKey({ key: privateKey, format: "der", type: "pkcs8" }), ephemeralKey, ephemeralKey, publicKey);
+        return await new EncryptionCipher(sealingKey, key.algorithm)._decrypt(key);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Derive the key which seals a vault key from the key agreed between the ephemeral key pair and the slot's key pair.
+ * Both public keys are bound to the derived key, so that a sealed key cannot be moved to another slot.
+ */
+function deriveSealingKey(privateKey: KeyObject, peerPublicKey: Buffer, ephemeralKey: Buffer, slotKey: Buffer): Buffer {
+    const sharedSecret = diffieHellman({
+        privateKey,
+        publicKey: createPublicKey({ key: peerPublicKey, format: "der", type: "spki" }),
+    });
+    return Buffer.from(hkdfSync(
+        "sha256", sharedSecret, Buffer.concat([ ephemeralKey, slotKey ]), "munkey key slot",
+        EncryptionCipher.getKeyLength(defaultVaultAlgorithm)));
+}
+
+/**
+ * Whether two versions of a key slot are the same, including the keys they hold.
+ */
+function isSameKeySlot(slot: KeySlot, other: KeySlot): boolean {
+    return slot.label === other.label
+        && !!slot.readOnly === !!other.readOnly
+        && !!slot.recovery === !!other.recovery
+        && EncryptionCipher.wrapPayload(slot.key).equals(EncryptionCipher.wrapPayload(other.key))
+        && !!slot.sealed === !!other.sealed
+        && (!slot.sealed || (
+            slot.sealed.publicKey.equals(other.sealed.publicKey)
+            && slot.sealed.ephemeralKey.equals(other.sealed.ephemeralKey)
+            && EncryptionCipher.wrapPayload(slot.sealed.key).equals(EncryptionCipher.wrapPayload(other.sealed.key))));
+}
+
+/**
+ * @name compareKeySlots
+ * @description Find the key slots which were added, removed or modified between two versions of a vault.
+ * @returns IDs of the slots which were added, removed and modified.
+ */
+function compareKeySlots(
+    previous: KeySlot[], next: KeySlot[]): { added: number[], removed: number[], modified: number[] }
+{
+    const previousSlots = new Map(previous.map(slot => [ slot.slotId, slot ]));
+    const nextIds = new Set(next.map(slot => slot.slotId));
+
+    return {
+        added: next.filter(slot => !previousSlots.has(slot.slotId)).map(slot => slot.slotId),
+        removed: previous.filter(slot => !nextIds.has(slot.slotId)).map(slot => slot.slotId),
+        modified: next
+            .filter(slot => previousSlots.has(slot.slotId))
+            .filter(slot => !isSameKeySlot(slot, previousSlots.get(slot.slotId)))
+            .map(slot => slot.slotId),
+    };
+}
+
+export {
+    KeySlotCipher,
+    compareKeySlots,
+};
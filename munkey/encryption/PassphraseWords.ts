@@ -0,0 +1,115 @@
+/**
+ * Words which passphrases are made of, in the style of a diceware list:
+ * 1296 short, distinct words, so that each word is one roll of four dice (about 10.3 bits).
+ */
+export const passphraseWords: string[] = [
+    "able", "acid", "acorn", "acre", "actor", "adapt", "affix", "afoot", "agent", "agile", "aging", "ahead",
+    "aide", "aisle", "alarm", "album", "algae", "alias", "alibi", "alien", "align", "alive", "alley", "allow",
+    "alloy", "aloft", "alone", "aloud", "alpha", "altar", "amber", "amble", "ample", "amuse", "angel",
+    "angle", "ankle", "apart", "apex", "apple", "apply", "apron", "arbor", "arch", "arena", "argue", "arise",
+    "army", "aroma", "array", "arrow", "ashen", "aside", "atlas", "atom", "attic", "audio", "audit", "auto",
+    "avid", "avoid", "awake", "award", "axis", "bacon", "badge", "bagel", "baggy", "balmy", "banjo", "barge",
+    "barn", "basil", "batch", "bath", "baton", "beach", "beads", "beady", "beam", "bean", "bear", "beard",
+    "beast", "being", "belly", "below", "bench", "berry", "birch", "bird", "bison", "blade", "blank", "blaze",
+    "bleak", "blend", "bless", "blimp", "bliss", "block", "bloom", "blot", "blown", "blue", "blunt", "blur",
+    "blush", "board", "boast", "boil", "bolt", "bonus", "book", "boost", "boots", "boss", "bowl", "boxer",
+    "brain", "brand", "brass", "brave", "bread", "break", "bride", "brief", "brim", "brine", "bring", "brisk",
+    "broil", "brook", "broom", "brown", "brush", "buddy", "budge", "buggy", "build", "bulb", "bunch", "bunny",
+    "burst", "bush", "busy", "cable", "cache", "cadet", "cage", "cake", "camel", "cameo", "camp", "canal",
+    "candy", "canoe", "cape", "card", "cargo", "carol", "carry", "case", "cash", "cask", "cast", "catch",
+    "cause", "cedar", "chain", "chair", "chalk", "chant", "chaos", "charm", "chart", "chase", "cheer", "chef",
+    "chess", "chest", "chew", "chick", "chili", "chill", "chimp", "chip", "chirp", "chord", "chose", "chunk",
+    "cider", "cinch", "civil", "clad", "claim", "clamp", "clap", "clasp", "class", "claw", "clay", "clean",
+    "clerk", "click", "cliff", "climb", "cling", "clip", "clock", "clone", "close", "cloth", "cloud", "clown",
+    "club", "cluck", "clue", "clump", "coast", "coat", "cobra", "cocoa", "code", "coin", "cola", "comet",
+    "comic", "coral", "cord", "cork", "corn", "couch", "cough", "count", "cover", "cozy", "crab", "craft",
+    "cramp", "crank", "crash", "crate", "crawl", "crazy", "creek", "crepe", "crest", "crew", "crib", "crook",
+    "crop", "cross", "crowd", "crown", "crumb", "crust", "cubby", "cube", "cupid", "curb", "curry", "curve",
+    "cushy", "cycle", "daily", "daisy", "dance", "dandy", "dash", "data", "deal", "dealt", "debit", "debut",
+    "decal", "decoy", "deep", "deer", "delay", "delta", "denim", "depot", "depth", "derby", "desk", "dial",
+    "dice", "diet", "dime", "diner", "dingo", "disco", "dish", "disk", "ditch", "ditto", "dizzy", "dock",
+    "dodge", "doing", "doll", "donor", "donut", "door", "dose", "dove", "down", "draft", "drain", "drama",
+    "drank", "drape", "dream", "dress", "drift", "drill", "drink", "drone", "drop", "drum", "duck", "duct",
+    "duke", "dune", "dusk", "dust", "duty", "dwell", "eagle", "early", "earth", "easel", "east", "eater",
+    "ebony", "echo", "edge", "elbow", "elect", "elope", "elude", "email", "ember", "empty", "endow", "enjoy",
+    "enter", "entry", "epic", "equal", "equip", "erase", "essay", "ether", "even", "event", "exact", "exam",
+    "exist", "extra", "fable", "facet", "fade", "fairy", "fancy", "fang", "farm", "fast", "fate", "favor",
+    "feast", "feet", "fence", "ferry", "fever", "fiber", "field", "fifth", "fifty", "final", "finch", "fines",
+    "first", "fish", "five", "fizz", "flag", "flair", "flake", "flame", "flap", "flash", "flask", "flat",
+    "fled", "fling", "flint", "flip", "flirt", "float", "flood", "floor", "flora", "floss", "flour", "fluid",
+    "fluke", "flute", "flyer", "foam", "focus", "foil", "folk", "font", "food", "force", "fork", "form",
+    "fort", "forum", "found", "frail", "frame", "fresh", "friar", "fried", "frog", "front", "frost", "froze",
+    "fruit", "fuel", "fully", "fund", "funny", "fuse", "fuzzy", "gale", "gamma", "gauge", "gaze", "gear",
+    "geese", "genie", "genre", "ghost", "giant", "girth", "given", "giver", "glad", "glass", "gleam", "glee",
+    "glide", "glint", "globe", "gloom", "gloss", "glove", "glow", "glue", "gnome", "goat", "gold", "golf",
+    "good", "goose", "gown", "grab", "grace", "grade", "grain", "grant", "grape", "graph", "grasp", "grass",
+    "great", "green", "greet", "grid", "grill", "grin", "grit", "groan", "groom", "grove", "growl", "guard",
+    "guess", "guest", "guide", "guild", "gulf", "gummy", "guru", "gush", "gust", "haiku", "hair", "half",
+    "halo", "halt", "happy", "hardy", "harp", "haste", "hatch", "haven", "hazel", "hazy", "head", "heap",
+    "heart", "heavy", "hedge", "hefty", "heir", "helix", "helm", "help", "herb", "herd", "hero", "hippo",
+    "hitch", "hive", "hobby", "hold", "home", "honey", "honor", "hood", "hook", "hoop", "horn", "horse",
+    "hose", "host", "hotel", "hour", "house", "hover", "huge", "hull", "humid", "humor", "hunch", "hunk",
+    "hurry", "hutch", "hydra", "hyena", "icing", "icon", "idiom", "igloo", "image", "imply", "inch", "index",
+    "input", "irony", "issue", "itchy", "ivory", "jazz", "jeans", "jelly", "jewel", "jiffy", "joke", "jolly",
+    "jolt", "judge", "juice", "jumbo", "jump", "jury", "just", "kayak", "keen", "kelp", "kept", "kick",
+    "kilt", "kind", "kiosk", "kite", "kiwi", "knack", "knee", "knife", "knit", "knob", "knot", "koala",
+    "lace", "lady", "lake", "lamb", "lamp", "land", "lane", "lapel", "large", "laser", "later", "lava",
+    "lawn", "layer", "lazy", "leafy", "leap", "learn", "lease", "leash", "ledge", "legal", "lemon", "lend",
+    "lens", "level", "lift", "light", "lilac", "lily", "limb", "limit", "linen", "lion", "list", "liver",
+    "load", "loaf", "loan", "lobby", "local", "lodge", "logic", "loop", "lotus", "loud", "lunar", "lure",
+    "lush", "lyric", "macaw", "macro", "magic", "magma", "maid", "mail", "major", "mango", "manor", "maple",
+    "march", "mare", "mask", "match", "mate", "mayor", "maze", "meal", "medal", "media", "melon", "melt",
+    "memo", "menu", "merit", "merry", "mesh", "metal", "midst", "might", "mild", "milk", "mill", "mince",
+    "mind", "minor", "mint", "minus", "mirth", "moat", "mocha", "model", "modem", "moist", "money", "month",
+    "mood", "moose", "moral", "moss", "motel", "motor", "motto", "mound", "mouse", "mouth", "move", "movie",
+    "mower", "mule", "mural", "music", "musk", "mute", "myth", "nail", "name", "nanny", "navy", "near",
+    "neck", "nerve", "nest", "never", "news", "nice", "niece", "night", "ninja", "noble", "noon", "north",
+    "nose", "notch", "note", "novel", "nudge", "nurse", "nutty", "nylon", "oasis", "octet", "odds", "odor",
+    "offer", "often", "olive", "omega", "omen", "onion", "onset", "opera", "oral", "orbit", "order", "organ",
+    "ounce", "outer", "oval", "oven", "oxide", "pack", "pact", "page", "pail", "paint", "palm", "panel",
+    "panic", "pansy", "pants", "paper", "park", "party", "pasta", "paste", "patch", "patio", "pause", "peach",
+    "peak", "pear", "pedal", "peel", "penny", "perch", "perk", "petal", "petty", "phase", "phone", "photo",
+    "piano", "pier", "pike", "pilot", "pinch", "pine", "pint", "pipe", "pitch", "pivot", "pixel", "place",
+    "plaid", "plain", "plan", "plank", "plate", "plaza", "plead", "pleat", "plot", "pluck", "plug", "plum",
+    "plump", "plush", "poem", "point", "poise", "poker", "polar", "polka", "pony", "pooch", "pool", "poppy",
+    "porch", "posh", "pouch", "pound", "power", "prank", "prey", "price", "pride", "prime", "print", "prize",
+    "probe", "prom", "proof", "prose", "proud", "pulp", "pulse", "punch", "pupil", "puppy", "push", "putt",
+    "quack", "quail", "quake", "quart", "query", "quest", "quick", "quiet", "quilt", "quirk", "quota",
+    "quote", "race", "radar", "radio", "raft", "rage", "raid", "rail", "raise", "rake", "rally", "ramp",
+    "ranch", "rank", "rapid", "raven", "razor", "reach", "ready", "realm", "reap", "rebel", "recap", "relax",
+    "relay", "relic", "remix", "renew", "rent", "rerun", "reset", "rhyme", "rice", "ride", "rifle", "rigid",
+    "rind", "ring", "rinse", "rise", "risky", "ritzy", "rival", "river", "roast", "robe", "robin", "robot",
+    "rock", "roll", "roof", "rook", "room", "roost", "root", "rose", "rosy", "rotor", "rough", "round",
+    "rover", "rowdy", "royal", "ruby", "rugby", "ruler", "rumor", "rural", "rush", "rust", "saga", "sage",
+    "sail", "salad", "salon", "salt", "same", "sand", "sash", "satin", "sauce", "savor", "scale", "scarf",
+    "scene", "scent", "scope", "score", "scout", "scrap", "scrub", "seat", "sedan", "seed", "self", "sense",
+    "setup", "seven", "shack", "shade", "shaft", "shale", "shape", "share", "shark", "sharp", "shave",
+    "sheep", "sheet", "shelf", "shell", "shift", "shiny", "ship", "shirt", "shock", "shore", "shout", "shrub",
+    "shrug", "side", "sift", "silk", "silly", "silo", "since", "siren", "sixty", "size", "skate", "skid",
+    "skill", "skirt", "slab", "slam", "slang", "slate", "sled", "sleep", "sleet", "slice", "slide", "slim",
+    "slope", "slot", "slush", "small", "smart", "smile", "smog", "smoke", "snack", "snail", "snap", "snare",
+    "sneak", "sniff", "snore", "snow", "snug", "soak", "soap", "soda", "sofa", "solar", "solid", "solo",
+    "sonic", "sorry", "south", "space", "spade", "spark", "speak", "speed", "spell", "spend", "spice",
+    "spicy", "spike", "spill", "spine", "splat", "spoke", "spoon", "spot", "spout", "spray", "spree", "sprig",
+    "squad", "squid", "stack", "staff", "stage", "stair", "stamp", "stand", "star", "start", "state", "stay",
+    "steam", "steel", "steep", "step", "stew", "stick", "still", "sting", "stir", "stomp", "stone", "stool",
+    "story", "stout", "straw", "stray", "strip", "strut", "stuck", "stuff", "stump", "stunt", "style",
+    "sugar", "sunny", "super", "surf", "swamp", "swan", "swap", "sway", "sweat", "sweep", "sweet", "swell",
+    "swim", "swing", "swirl", "sword", "syrup", "taco", "taffy", "tail", "taker", "tale", "tamer", "tango",
+    "tank", "tape", "tart", "taste", "tasty", "taxi", "teach", "teal", "team", "teeth", "tempo", "tend",
+    "tent", "term", "text", "thaw", "theme", "thick", "thigh", "think", "thorn", "those", "thumb", "thump",
+    "tidal", "tide", "tidy", "tiger", "tile", "timid", "tint", "tiny", "tipsy", "tire", "title", "today",
+    "token", "tonic", "tool", "tooth", "topic", "torch", "total", "totem", "touch", "towel", "tower", "trace",
+    "track", "trade", "train", "trait", "tramp", "tray", "treat", "trek", "trend", "trial", "tribe", "trick",
+    "trim", "trip", "trout", "truce", "truck", "trunk", "truth", "tube", "tulip", "tuna", "tune", "turn",
+    "tusk", "tutor", "tweak", "twice", "twin", "twirl", "twist", "udder", "ultra", "under", "undo", "unfit",
+    "unify", "union", "unit", "untie", "until", "upend", "upper", "upset", "urge", "usage", "usher", "usual",
+    "utter", "valor", "value", "valve", "vapor", "vault", "venue", "verb", "verge", "verse", "vest", "vibe",
+    "video", "view", "vigor", "vine", "vinyl", "viper", "visit", "visor", "vista", "vital", "vocal", "voice",
+    "volt", "vote", "vowel", "wager", "wagon", "waist", "walk", "wall", "wand", "warm", "wasp", "watch",
+    "water", "wavy", "weary", "weave", "wedge", "weed", "week", "whale", "wheat", "wheel", "whip", "whirl",
+    "wick", "widen", "width", "wield", "wild", "wing", "wink", "wiper", "wired", "wise", "wisp", "witty",
+    "woken", "wolf", "wool", "work", "world", "worm", "worth", "woven", "wrap", "wren", "wrist", "write",
+    "yacht", "yard", "yawn", "year", "yeast", "yell", "yelp", "yodel", "yoga", "young", "youth", "yummy",
+    "zero", "zesty", "zinc", "zippy", "zone",
+];
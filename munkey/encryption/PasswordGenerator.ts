@@ -0,0 +1,102 @@
+import { randomInt } from "crypto";
+import { passphraseWords } from "./PassphraseWords";
+
+/**
+ * Options of a generated password; every character is picked at random from the enabled classes.
+ */
+export interface PasswordOptions {
+    length: number;
+    lowercase: boolean;
+    uppercase: boolean;
+    digits: boolean;
+    symbols: boolean;
+    /** Leave out characters which are easily mistaken for one another, such as 1, l and I. */
+    excludeLookalikes: boolean;
+}
+
+/**
+ * Options of a generated passphrase; every word is picked at random from the bundled word list.
+ */
+export interface PassphraseOptions {
+    words: number;
+    separator: string;
+}
+
+export interface GeneratedPassword {
+    value: string;
+    /** Estimated entropy of the password in bits, from the number of passwords which the options could generate. */
+    entropy: number;
+}
+
+export const defaultPasswordOptions: PasswordOptions = {
+    length: 20,
+    lowercase: true,
+    uppercase: true,
+    digits: true,
+    symbols: true,
+    excludeLookalikes: false,
+};
+
+export const defaultPassphraseOptions: PassphraseOptions = {
+    words: 6,
+    separator: "-",
+};
+
+export const passwordLengthLimits = { min: 4, max: 1024 };
+export const passphraseWordLimits = { min: 3, max: 64 };
+
+const characterClasses = {
+    lowercase: "abcdefghijklmnopqrstuvwxyz",
+    uppercase: "ABCDEFGHIJKLMNOPQRSTUVWXYZ",
+    digits: "0123456789",
+    symbols: "!#$%&*+-=?@^_~",
+};
+const lookalikeCharacters = "Il1|O0o";
+
+/**
+ * @name generatePassword
+ * @description Generate a random password which has at least one character of each enabled class.
+ * Throws an error if the options are invalid.
+ */
+export function generatePassword(options: Partial<PasswordOptions> = {}): GeneratedPassword {
+    const { length, excludeLookalikes, ...enabled } = { ...defaultPasswordOptions, ...options };
+    if (!Number.isInteger(length) || length < passwordLengthLimits.min || length > passwordLengthLimits.max) {
+        throw new Error(`Password length must be between ${passwordLengthLimits.min} and ${passwordLengthLimits.max}`);
+    }
+
+    const classes: string[] = [];
+    for (const [ name, characters ] of Object.entries(characterClasses)) {
+        if (enabled[name as keyof typeof characterClasses]) {
+            classes.push(excludeLookalikes
+                ? [ ...characters ].filter(character => !lookalikeCharacters.includes(character)).join("")
+                : characters);
+        }
+    }
+    if (classes.length === 0) {
+        throw new Error("Passwords need at least one class of characters");
+    }
+
+    // Passwords which miss a class are generated again, which keeps every remaining password equally likely
+    const characters = classes.join("");
+    let value: string;
+    do {
+        value = Array.from({ length }, () => characters[randomInt(characters.length)]).join("");
+    } while (!classes.every(characterClass => [ ...value ].some(character => characterClass.includes(character))));
+
+    return { value, entropy: length * Math.log2(characters.length) };
+}
+
+/**
+ * @name generatePassphrase
+ * @description Generate a diceware-style passphrase of words picked at random from the bundled word list.
+ * Throws an error if the options are invalid.
+ */
+export function generatePassphrase(options: Partial<PassphraseOptions> = {}): GeneratedPassword {
+    const { words, separator } = { ...defaultPassphraseOptions, ...options };
+    if (!Number.isInteger(words) || words < passphraseWordLimits.min || words > passphraseWordLimits.max) {
+        throw new Error(`Passphrases must have between ${passphraseWordLimits.min} and ${passphraseWordLimits.max} words`);
+    }
+
+    const value = Array.from({ length: words }, () => passphraseWords[randomInt(passphraseWords.length)]);
+    return { value: value.join(separator), entropy: words * Math.log2(passphraseWords.length) };
+}
@@ -1,5 +1,6 @@
 
-import { EncryptionCipher, EncryptionAlgorithm } from "./EncryptionCipher";
+import { EncryptionCipher, EncryptionAlgorithm, VaultAlgorithm, defaultVaultAlgorithm } from "./EncryptionCipher";
+import { KdfAlgorithm, legacyKdfParameters } from "./KdfParameters";
 import { pbkdf2 } from "crypto";
 
 
@@ -9,15 +10,17 @@ export interface Pbkdf2Options {
     readonly iterations?: number;
     readonly keyLength?: number;
     readonly hashAlgorithm?: Pbkdf2HashAlgorithm;
+    readonly algorithm?: VaultAlgorithm;
 }
 
 
 async function createPbkdf2Cipher(
-    password: string, salt: string, options: Pbkdf2Options = {}): Promise<EncryptionCipher>
+    password: string, salt: string | Buffer, options: Pbkdf2Options = {}): Promise<EncryptionCipher>
 {
     const {
-        iterations = 64000,
-        keyLength = 24,
+        iterations = legacyKdfParameters.iterations,
+        algorithm = defaultVaultAlgorithm,
+        keyLength = EncryptionCipher.getKeyLength(algorithm),
         hashAlgorithm = "sha256",
     } = options ?? {};
 
@@ -31,7 +34,7 @@ async function createPbkdf2Cipher(
     });
     const key: Buffer = await EncryptionCipher.deriveKey(password, salt, keyAlgorithm);
 
-    return new EncryptionCipher(key);
+    return new EncryptionCipher(key, algorithm, Buffer.from(salt), { kdf: KdfAlgorithm.Pbkdf2Sha256, iterations });
 }
 
 export {
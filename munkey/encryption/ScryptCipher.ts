@@ -0,0 +1,53 @@
+import { EncryptionCipher, EncryptionAlgorithm, VaultAlgorithm, defaultVaultAlgorithm } from "./EncryptionCipher";
+import { defaultKdfParameters, KdfAlgorithm } from "./KdfParameters";
+import { scrypt } from "crypto";
+
+
+export interface ScryptOptions {
+    /** Base 2 logarithm of the CPU/memory cost (N). */
+    readonly cost?: number;
+    readonly blockSize?: number;
+    readonly parallelization?: number;
+    readonly algorithm?: VaultAlgorithm;
+}
+
+
+async function createScryptCipher(
+    password: string, salt: string | Buffer, options: ScryptOptions = {}): Promise<EncryptionCipher>
+{
+    const {
+        cost = defaultKdfParameters.cost,
+        blockSize = defaultKdfParameters.blockSize,
+        parallelization = defaultKdfParameters.parallelization,
+        algorithm = defaultVaultAlgorithm,
+    } = options ?? {};
+    const keyLength = EncryptionCipher.getKeyLength(algorithm);
+
+    // scrypt needs 128 * N * r bytes, which is over the default limit for the higher costs.
+    const scryptOptions = {
+        N: 2 ** cost,
+        r: blockSize,
+        p: parallelization,
+        maxmem: 256 * (2 ** cost) * blockSize,
+    };
+    const keyAlgorithm: EncryptionAlgorithm = (passBuf, saltBuf) => new Promise<Buffer>(function(resolve, reject) {
+        scrypt(passBuf, saltBuf, keyLength, scryptOptions, (err, derivedKey) => {
+            if (err) reject(err);
+            else {
+                resolve(derivedKey);
+            }
+        });
+    });
+    const key: Buffer = await EncryptionCipher.deriveKey(password, salt, keyAlgorithm);
+
+    return new EncryptionCipher(key, algorithm, Buffer.from(salt), {
+        kdf: KdfAlgorithm.Scrypt,
+        cost,
+        blockSize,
+        parallelization,
+    });
+}
+
+export {
+    createScryptCipher,
+};
@@ -0,0 +1,163 @@
+import { createHash, randomBytes } from "crypto";
+
+/**
+ * One share of a secret which was split with {@link splitSecret}.
+ */
+export interface SecretShare {
+    /** Number of shares needed to rebuild the secret. */
+    threshold: number;
+    /** Position of the share, from 1 to the number of shares. */
+    index: number;
+    data: Buffer;
+}
+
+/**
+ * Words which the bytes of a share are written as, one word for each possible byte.
+ */
+const shareWords: string[] = [
+    "acorn", "actor", "alarm", "album", "alley", "amber", "angle", "ankle", "apple", "apron", "arena",
+    "armor", "arrow", "atlas", "attic", "award", "badge", "bagel", "baker", "bamboo", "banjo", "barn",
+    "basil", "basket", "beach", "beard", "beaver", "bell", "bench", "berry", "bike", "bird", "blade",
+    "blanket", "bloom", "board", "boat", "bonus", "boot", "bottle", "bowl", "brain", "brick", "bridge",
+    "broom", "brush", "bubble", "bucket", "buffalo", "bundle", "butter", "button", "cabin", "cable", "cactus",
+    "camel", "camera", "candle", "canoe", "canvas", "canyon", "carbon", "carpet", "carrot", "castle", "cave",
+    "cedar", "cello", "chair", "chalk", "cherry", "chess", "chimney", "circle", "clay", "cliff", "clock",
+    "cloud", "clover", "coast", "coconut", "coffee", "comet", "copper", "coral", "cotton", "cradle", "crane",
+    "crayon", "cricket", "crown", "crystal", "cube", "cushion", "daisy", "dancer", "delta", "desert",
+    "diamond", "dolphin", "donkey", "door", "dragon", "drum", "eagle", "easel", "echo", "elbow", "ember",
+    "emerald", "engine", "falcon", "feather", "fence", "ferry", "fiddle", "field", "finger", "flame", "flute",
+    "forest", "fossil", "fountain", "fox", "frog", "galaxy", "garden", "garlic", "gate", "ginger", "giraffe",
+    "glacier", "glove", "goat", "gravel", "guitar", "hammer", "harbor", "harp", "hazel", "helmet", "honey",
+    "horizon", "horse", "igloo", "island", "ivory", "jacket", "jaguar", "jewel", "jungle", "kayak", "kettle",
+    "kitten", "koala", "ladder", "lagoon", "lake", "lantern", "lemon", "lettuce", "lily", "lion", "lizard",
+    "lobster", "locket", "magnet", "mango", "maple", "marble", "meadow", "melon", "mirror", "monkey", "moose",
+    "mountain", "muffin", "mushroom", "napkin", "needle", "nest", "noodle", "oak", "ocean", "olive", "onion",
+    "orange", "orbit", "otter", "owl", "oyster", "paddle", "palace", "panda", "paper", "parrot", "peach",
+    "peanut", "pebble", "pencil", "pepper", "piano", "pillow", "pilot", "pine", "planet", "plum", "pocket",
+    "pony", "potato", "puzzle", "quartz", "quilt", "rabbit", "radar", "radio", "raven", "ribbon", "river",
+    "robot", "rocket", "saddle", "salmon", "scarf", "shadow", "shell", "shovel", "silver", "sketch", "sled",
+    "spider", "spoon", "squirrel", "stamp", "statue", "stove", "sugar", "summit", "sunset", "swan", "table",
+    "tiger", "tomato", "trumpet", "tulip", "tunnel", "turtle", "umbrella", "valley", "velvet", "violin",
+    "walnut", "wagon", "whale", "willow", "window",
+];
+const shareWordValues = new Map(shareWords.map((word, value) => [ word, value ]));
+
+const shareChecksumLength = 2;
+
+/**
+ * Exponent and logarithm tables of GF(2^8) with the AES polynomial, using 3 as the generator.
+ * The exponent table is doubled so that sums of two logarithms can be looked up without a modulo.
+ */
+const [ gfExp, gfLog ] = (() => {
+    const exp = new Uint8Array(510), log = new Uint8Array(256);
+    for (let i = 0, x = 1; i < 255; i++) {
+        exp[i] = exp[i + 255] = x;
+        log[x] = i;
+        x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+    }
+    return [ exp, log ];
+})();
+
+function gfMultiply(a: number, b: number): number {
+    return a && b ? gfExp[gfLog[a] + gfLog[b]] : 0;
+}
+
+function gfDivide(a: number, b: number): number {
+    return a ? gfExp[gfLog[a] + 255 - gfLog[b]] : 0;
+}
+
+/**
+ * @name splitSecret
+ * @description Split a secret into shares with Shamir's secret sharing over GF(2^8),
+ * so that any `threshold` of the shares rebuild the secret, while fewer reveal nothing about it.
+ */
+export function splitSecret(secret: Buffer, threshold: number, count: number): SecretShare[] {
+    if (!Number.isInteger(threshold) || !Number.isInteger(count) || threshold < 1 || threshold > count || count > 255) {
+        throw new Error(`Cannot split a secret into ${count} shares with a threshold of ${threshold}`);
+    }
+
+    const shares = Array.from({ length: count }, (_, i) => ({ threshold, index: i + 1, data: Buffer.alloc(secret.length) }));
+    for (let offset = 0; offset < secret.length; offset++) {
+        // Each byte gets its own random polynomial, whose constant term is the byte of the secret.
+        const coefficients = [ secret[offset], ...randomBytes(threshold - 1) ];
+        for (const share of shares) {
+            share.data[offset] = coefficients.reduceRight((sum, coefficient) => gfMultiply(sum, share.index) ^ coefficient, 0);
+        }
+    }
+
+    return shares;
+}
+
+/**
+ * @name combineShares
+ * @description Rebuild a secret from its shares.
+ * Shares from different secrets cannot be told apart from each other, and rebuild a wrong secret.
+ */
+export function combineShares(shares: SecretShare[]): Buffer {
+    const [ first ] = shares;
+    if (!first || shares.length < first.threshold) {
+        throw new Error(`${first?.threshold ?? "More"} shares are needed, but only ${shares.length} were given`);
+    }
+    const used = shares.slice(0, first.threshold);
+    if (used.some(share => share.threshold !== first.threshold || share.data.length !== first.data.length)) {
+        throw new Error("The shares do not belong to the same secret");
+    }
+    if (new Set(used.map(share => share.index)).size !== used.length) {
+        throw new Error("The same share was given more than once");
+    }
+
+    // Lagrange interpolation of each byte's polynomial at zero.
+    const secret = Buffer.alloc(first.data.length);
+    for (const share of used) {
+        const basis = used
+            .filter(other => other !== share)
+            .reduce((product, other) => gfMultiply(product, gfDivide(other.index, other.index ^ share.index)), 1);
+        for (let offset = 0; offset < secret.length; offset++) {
+            secret[offset] ^= gfMultiply(share.data[offset], basis);
+        }
+    }
+
+    return secret;
+}
+
+/**
+ * @name encodeShare
+ * @description Write a share as a list of words, which include a checksum to catch typing mistakes.
+ */
+export function encodeShare({ threshold, index, data }: SecretShare): string[] {
+    const bytes = Buffer.concat([ Buffer.from([ threshold, index ]), data ]);
+    return [ ...bytes, ...getShareChecksum(bytes) ].map(value => shareWords[value]);
+}
+
+/**
+ * @name decodeShare
+ * @description Read a share which was written as a list of words by {@link encodeShare}.
+ * Throws if a word is unknown or the checksum does not match.
+ */
+export function decodeShare(text: string): SecretShare {
+    const values = text.trim().toLowerCase().split(/\s+/).map(word => {
+        const value = shareWordValues.get(word);
+        if (value === undefined) {
+            throw new Error(`Unknown word in share: ${word}`);
+        }
+        return value;
+    });
+    if (values.length <= 2 + shareChecksumLength) {
+        throw new Error(`Share is too short: it has only ${values.length} words`);
+    }
+
+    const bytes = Buffer.from(values.slice(0, -shareChecksumLength));
+    if (!getShareChecksum(bytes).equals(Buffer.from(values.slice(-shareChecksumLength)))) {
+        throw new Error("Share checksum does not match; check the words for typing mistakes");
+    }
+    const [ threshold, index ] = bytes;
+    if (threshold < 1 || index < 1) {
+        throw new Error("Share is invalid");
+    }
+
+    return { threshold, index, data: bytes.slice(2) };
+}
+
+function getShareChecksum(bytes: Buffer): Buffer {
+    return createHash("sha256").update(bytes).digest().slice(0, shareChecksumLength);
+}
@@ -0,0 +1,141 @@
+import { createHmac } from "crypto";
+
+export type TotpAlgorithm = "sha1" | "sha256" | "sha512";
+
+/**
+ * Parameters of a time-based one-time password (RFC 6238), as they are given by an `otpauth://` URI.
+ */
+export interface TotpParameters {
+    secret: Buffer;
+    algorithm: TotpAlgorithm;
+    /** Number of digits of each code. */
+    digits: number;
+    /** Number of seconds each code is valid for. */
+    period: number;
+}
+
+export interface TotpCode {
+    code: string;
+    /** Number of seconds until the code expires. */
+    remaining: number;
+}
+
+const totpAlgorithms: TotpAlgorithm[] = [ "sha1", "sha256", "sha512" ];
+const base32Alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+const defaultTotpParameters = {
+    algorithm: "sha1" as TotpAlgorithm,
+    digits: 6,
+    period: 30,
+};
+
+/**
+ * @name decodeBase32
+ * @description Decode base32 text (RFC 4648), ignoring case, spaces and padding.
+ * Throws an error if the text has any other character.
+ */
+export function decodeBase32(text: string): Buffer {
+    const characters = text.replace(/[\s=]/g, "").toUpperCase();
+    const bytes: number[] = [];
+    let bits = 0, value = 0;
+    for (const character of characters) {
+        const digit = base32Alphabet.indexOf(character);
+        if (digit < 0) {
+            throw new Error(`Invalid base32 character: ${character}`);
+        }
+        value = ((value << 5) | digit) & 0xffff;
+        bits += 5;
+        if (bits >= 8) {
+            bits -= 8;
+            bytes.push((value >> bits) & 0xff);
+        }
+    }
+    return Buffer.from(bytes);
+}
+
+/**
+ * @name parseTotpSecret
+ * @description Read the parameters of a one-time password from an `otpauth://totp/` URI,
+ * or from a base32 secret which uses the default parameters (SHA1, 6 digits, 30 seconds).
+ * Throws an error if the secret or any of its parameters are invalid.
+ */
+export function parseTotpSecret(value: string): TotpParameters {
+    const text = value.trim();
+    if (!/^otpauth:/i.test(text)) {
+        return { ...defaultTotpParameters, secret: readSecret(text) };
+    }
+
+    const uri = new URL(text);
+    if (uri.host.toLowerCase() !== "totp") {
+        throw new Error(`Unsupported one-time password type: ${uri.host}`);
+    }
+
+    const algorithm = (uri.searchParams.get("algorithm") ?? defaultTotpParameters.algorithm).toLowerCase();
+    if (!totpAlgorithms.includes(algorithm as TotpAlgorithm)) {
+        throw new Error(`Unsupported one-time password algorithm: ${algorithm}`);
+    }
+    const digits = readInteger(uri.searchParams.get("digits"), defaultTotpParameters.digits);
+    if (!(digits >= 6 && digits <= 10)) {
+        throw new Error(`Invalid number of one-time password digits: ${digits}`);
+    }
+    const period = readInteger(uri.searchParams.get("period"), defaultTotpParameters.period);
+    if (!(period >= 1)) {
+        throw new Error(`Invalid one-time password period: ${period}`);
+    }
+
+    return {
+        secret: readSecret(uri.searchParams.get("secret") ?? ""),
+        algorithm: algorithm as TotpAlgorithm,
+        digits,
+        period,
+    };
+}
+
+/**
+ * @name generateTotp
+ * @description Generate the one-time password (RFC 6238) which is valid at the given time.
+ *
+ * @param parameters Secret and parameters of the one-time password.
+ * @param time Time in milliseconds since the epoch; defaults to now.
+ */
+export function generateTotp(parameters: TotpParameters, time: number = Date.now()): TotpCode {
+    const { secret, algorithm, digits, period } = parameters;
+    const seconds = Math.floor(time / 1000);
+    const step = Math.floor(seconds / period);
+    const counter = Buffer.alloc(8);
+    counter.writeUInt32BE(Math.floor(step / 0x100000000), 0);
+    counter.writeUInt32BE(step % 0x100000000, 4);
+
+    const hmac = createHmac(algorithm, secret).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return {
+        code: (binary % 10 ** digits).toString().padStart(digits, "0"),
+        remaining: period - seconds % period,
+    };
+}
+
+/**
+ * @name getTotpCode
+ * @description Generate the current one-time password of an `otpauth://` URI or base32 secret,
+ * as stored in a vault entry.
+ */
+export function getTotpCode(secret: string, time: number = Date.now()): TotpCode {
+    return generateTotp(parseTotpSecret(secret), time);
+}
+
+function readSecret(text: string): Buffer {
+    const secret = decodeBase32(text);
+    if (secret.length === 0) {
+        throw new Error("One-time password secret is empty");
+    }
+    return secret;
+}
+
+function readInteger(value: string | null, fallback: number): number {
+    if (value === null) {
+        return fallback;
+    }
+    return /^\d+$/.test(value) ? parseInt(value) : NaN;
+}
@@ -0,0 +1,142 @@
+import { createHash } from "crypto";
+import { createInterface } from "readline";
+import { Readable } from "stream";
+import { VaultEntry } from "./VaultEntry";
+
+export interface AuditOptions {
+    /** Passwords with less estimated entropy, in bits, are reported as weak. */
+    minEntropy: number;
+    /** Entries which have not changed in more days are reported as old. */
+    maxAgeDays: number;
+}
+
+/**
+ * Findings of an audit of the entries of a vault. Entries without a password are not audited.
+ */
+export interface VaultAuditReport {
+    audited: number;
+    weak: { name: string, entropy: number }[];
+    /** Names of the entries which share a password, for each password which several entries use. */
+    reused: string[][];
+    /** Entries which have not changed recently; entries which were stored without timestamps have an unknown age. */
+    old: { name: string, modified: string | null, days: number | null }[];
+    /** Entries whose password is in the breached password list, if one was checked. */
+    breached: { name: string, count: number }[] | null;
+}
+
+export const defaultAuditOptions: AuditOptions = {
+    minEntropy: 50,
+    maxAgeDays: 365,
+};
+
+const dayMilliseconds = 24 * 60 * 60 * 1000;
+
+/**
+ * @name estimatePasswordEntropy
+ * @description Estimate the entropy of a password in bits, from the classes of characters it uses.
+ * Characters which repeat or continue a sequence of the character before them, such as "aa" or "abc", count for one bit.
+ */
+export function estimatePasswordEntropy(password: string): number {
+    const characters = [ ...password ];
+    const pool = (/[a-z]/.test(password) ? 26 : 0)
+        + (/[A-Z]/.test(password) ? 26 : 0)
+        + (/[0-9]/.test(password) ? 10 : 0)
+        + (/[\x20-\x2f\x3a-\x40\x5b-\x60\x7b-\x7e]/.test(password) ? 33 : 0)
+        + (/[^\x20-\x7e]/.test(password) ? 100 : 0);
+
+    let entropy = 0;
+    for (let i = 0; i < characters.length; i++) {
+        const distance = i > 0 ? characters[i].codePointAt(0) - characters[i - 1].codePointAt(0) : NaN;
+        entropy += Math.abs(distance) <= 1 ? 1 : Math.log2(pool);
+    }
+    return entropy;
+}
+
+/**
+ * @name auditVaultEntries
+ * @description Find weak, reused and old passwords among the entries of a vault.
+ * Breached passwords are found separately with {@link findBreachedPasswords}.
+ *
+ * @param entries Decrypted entries of the vault, by name.
+ * @param options Thresholds of weak and old passwords.
+ * @param now Time the age of entries is counted until; defaults to now.
+ */
+export function auditVaultEntries(
+    entries: Map<string, VaultEntry>, options: Partial<AuditOptions> = {}, now: Date = new Date()): VaultAuditReport
+{
+    const { minEntropy, maxAgeDays } = { ...defaultAuditOptions, ...options };
+    const report: VaultAuditReport = { audited: 0, weak: [], reused: [], old: [], breached: null };
+    const namesByPassword = new Map<string, string[]>();
+
+    for (const [ name, { password, modified } ] of entries) {
+        if (!password) {
+            continue;
+        }
+        report.audited++;
+
+        const entropy = estimatePasswordEntropy(password);
+        if (entropy < minEntropy) {
+            report.weak.push({ name, entropy: Math.floor(entropy) });
+        }
+
+        namesByPassword.set(password, [ ...namesByPassword.get(password) ?? [], name ]);
+
+        const days = modified ? Math.floor((now.getTime() - modified.getTime()) / dayMilliseconds) : null;
+        if (days === null || days > maxAgeDays) {
+            report.old.push({ name, modified: modified?.toISOString() ?? null, days });
+        }
+    }
+
+    namesByPassword.forEach(names => {
+        if (names.length > 1) {
+            report.reused.push(names);
+        }
+    });
+    return report;
+}
+
+/**
+ * @name getBreachedPasswordPrefixes
+ * @description Get the five character prefixes of the SHA-1 hashes of the passwords of entries,
+ * which name the ranges of a breached password list that {@link findBreachedPasswords} needs to read.
+ */
+export function getBreachedPasswordPrefixes(entries: Map<string, VaultEntry>): string[] {
+    return [ ...new Set([ ...hashPasswords(entries).keys() ].map(hash => hash.slice(0, 5))) ];
+}
+
+/**
+ * @name findBreachedPasswords
+ * @description Look up the passwords of entries in a list of breached passwords, without sending anything over the network.
+ * Each line of the list is the uppercase hex SHA-1 hash of a breached password, a colon and the number of times it was seen,
+ * in the format of the Have I Been Pwned range API. Lines of a single range leave out the range's five character prefix.
+ * Lines are read one at a time, so that lists of any size can be checked.
+ *
+ * @param entries Decrypted entries of the vault, by name.
+ * @param list Stream of the breached password list.
+ * @param prefix Prefix of the range which the list holds, or an empty string if its lines have whole hashes.
+ * @returns Promise which resolves to the entries whose password is in the list, with the number of times it was seen.
+ */
+export async function findBreachedPasswords(
+    entries: Map<string, VaultEntry>, list: Readable, prefix: string = ""): Promise<{ name: string, count: number }[]>
+{
+    const namesByHash = hashPasswords(entries);
+    const breached: { name: string, count: number }[] = [];
+    for await (const line of createInterface({ input: list, crlfDelay: Infinity })) {
+        const [ hash, count ] = line.trim().toUpperCase().split(":");
+        for (const name of namesByHash.get(prefix.toUpperCase() + hash) ?? []) {
+            breached.push({ name, count: parseInt(count) || 1 });
+        }
+    }
+    return breached;
+}
+
+function hashPasswords(entries: Map<string, VaultEntry>): Map<string, string[]> {
+    const namesByHash = new Map<string, string[]>();
+    entries.forEach(({ password }, name) => {
+        if (password) {
+            const hash = createHash("sha1").update(password).digest("hex").toUpperCase();
+            namesByHash.set(hash, [ ...namesByHash.get(hash) ?? [], name ]);
+        }
+    });
+    return namesByHash;
+}
@@ -0,0 +1,229 @@
+/**
+ * Entry of a vault, such as the login for one website.
+ */
+export interface VaultEntry {
+    title: string;
+    username: string;
+    password: string;
+    urls: string[];
+    notes: string;
+    tags: string[];
+    // Folder which the entry is listed in, as a path such as "work/mail"; empty for the top folder.
+    folder: string;
+    // Secret of the entry's one-time passwords, as an `otpauth://` URI or a base32 secret.
+    otp: string;
+    // Fields which the schema does not have, by name.
+    fields: Map<string, string>;
+    attachments: EntryAttachment[];
+    // When the entry was created and last changed; null for entries which were stored as a single value.
+    created: Date | null;
+    modified: Date | null;
+}
+
+/**
+ * File attached to an entry. Small files are stored in the entry itself; larger files are stored as
+ * documents of their own, which the entry lists by the hash of their dataset, see {@link createAttachment}.
+ */
+export interface EntryAttachment {
+    name: string;
+    size: number;
+    // Content of a file which is stored in the entry, or null if it is stored on its own.
+    data: Buffer | null;
+    // ID of the document and hash of the dataset of a file which is stored on its own.
+    attachmentId: string | null;
+    hash: Buffer | null;
+}
+
+interface SerializedEntryAttachment {
+    name: string;
+    size: number;
+    data?: string;
+    id?: string;
+    hash?: string;
+}
+
+/**
+ * Entry of a vault, as it is stored in JSON.
+ */
+export interface SerializedVaultEntry {
+    title: string;
+    username: string;
+    password: string;
+    urls: string[];
+    notes: string;
+    tags: string[];
+    folder: string;
+    otp: string;
+    fields: { [name: string]: string };
+    attachments: SerializedEntryAttachment[];
+    created: string | null;
+    modified: string | null;
+}
+
+/**
+ * Fields of the entry schema which can be set by name; any other name is a custom field.
+ * URLs and tags are lists, which are given separated by commas.
+ */
+export const entryFieldNames = [ "title", "username", "password", "urls", "notes", "tags", "folder", "otp" ] as const;
+export type EntryFieldName = typeof entryFieldNames[number];
+
+/**
+ * @name createVaultEntry
+ * @description Create an entry without any values, created now.
+ */
+export function createVaultEntry(title: string): VaultEntry {
+    const now = new Date();
+    return {
+        title,
+        username: "",
+        password: "",
+        urls: [],
+        notes: "",
+        tags: [],
+        folder: "",
+        otp: "",
+        fields: new Map(),
+        attachments: [],
+        created: now,
+        modified: now,
+    };
+}
+
+export function serializeVaultEntry({ fields, attachments, created, modified, ...values }: VaultEntry): SerializedVaultEntry {
+    const serializedFields: { [name: string]: string } = {};
+    fields.forEach((value, name) => serializedFields[name] = value);
+
+    return {
+        ...values,
+        fields: serializedFields,
+        attachments: attachments.map(({ name, size, data, attachmentId, hash }) => data
+            ? { name, size, data: data.toString("base64") }
+            : { name, size, id: attachmentId, hash: hash.toString("base64") }),
+        created: created?.toISOString() ?? null,
+        modified: modified?.toISOString() ?? null,
+    };
+}
+
+/**
+ * @name parseVaultEntry
+ * @description Read a stored entry. Entries which were stored as a single value are read as a password.
+ * Throws an error if the entry is neither a string nor an entry object.
+ *
+ * @param value Entry as it was parsed from JSON.
+ * @param title Title of the entry if it was stored as a single value, which is the name of the entry.
+ */
+export function parseVaultEntry(value: unknown, title: string): VaultEntry {
+    if (typeof value === "string") {
+        return { ...createVaultEntry(title), password: value, created: null, modified: null };
+    }
+    if (typeof value !== "object" || value === null) {
+        throw new Error(`Entry ${title} is invalid: expected a value or an entry`);
+    }
+
+    const entry = value as Partial<SerializedVaultEntry>;
+    return {
+        title: readString(entry.title, title),
+        username: readString(entry.username),
+        password: readString(entry.password),
+        urls: readStrings(entry.urls),
+        notes: readString(entry.notes),
+        tags: readStrings(entry.tags),
+        folder: normalizeFolder(readString(entry.folder)),
+        otp: readString(entry.otp),
+        fields: new Map(Object.entries(entry.fields ?? {}).filter(([ , field ]) => typeof field === "string")),
+        attachments: Array.isArray(entry.attachments) ? entry.attachments.map(readAttachment) : [],
+        created: readDate(entry.created),
+        modified: readDate(entry.modified),
+    };
+}
+
+/**
+ * @name getEntryField
+ * @description Get a field of an entry as text, joining lists with commas.
+ * @returns The value of the field, or undefined if the entry has no such custom field.
+ */
+export function getEntryField(entry: VaultEntry, field: string): string | undefined {
+    switch (field as EntryFieldName) {
+        case "urls":
+        case "tags":
+            return entry[field as "urls" | "tags"].join(",");
+        case "title":
+        case "username":
+        case "password":
+        case "notes":
+        case "folder":
+        case "otp":
+            return entry[field as "title" | "username" | "password" | "notes" | "folder" | "otp"];
+        default:
+            return entry.fields.get(field);
+    }
+}
+
+/**
+ * @name setEntryField
+ * @description Set a field of an entry from text, splitting lists at commas.
+ * @returns The changed entry, modified now.
+ */
+export function setEntryField(entry: VaultEntry, field: string, value: string): VaultEntry {
+    const modified = new Date();
+    const created = entry.created ?? modified;
+    switch (field as EntryFieldName) {
+        case "urls":
+        case "tags":
+            return { ...entry, [field]: value.split(",").map(item => item.trim()).filter(item => item), created, modified };
+        case "title":
+        case "username":
+        case "password":
+        case "notes":
+        case "otp":
+            return { ...entry, [field]: value, created, modified };
+        case "folder":
+            return { ...entry, folder: normalizeFolder(value), created, modified };
+        default:
+            return { ...entry, fields: new Map(entry.fields).set(field, value), created, modified };
+    }
+}
+
+/**
+ * @name normalizeFolder
+ * @description Write a folder path with single slashes between its names, without slashes around it.
+ */
+export function normalizeFolder(folder: string): string {
+    return folder.split("/").map(name => name.trim()).filter(name => name).join("/");
+}
+
+/**
+ * @name isAttachmentName
+ * @description Check that an attachment name is a plain file name, which cannot be read as a path.
+ */
+export function isAttachmentName(name: unknown): name is string {
+    return typeof name === "string" && name.length > 0 && name.length <= 255
+        && !/[\\/\0]/.test(name) && name !== "." && name !== "..";
+}
+
+export function entriesEqual(first: VaultEntry, second: VaultEntry): boolean {
+    return JSON.stringify(serializeVaultEntry(first)) === JSON.stringify(serializeVaultEntry(second));
+}
+
+function readAttachment(value: unknown): EntryAttachment {
+    const { name, size, data, id, hash } = (value ?? {}) as Partial<SerializedEntryAttachment>;
+    if (!isAttachmentName(name) || !Number.isInteger(size) || (typeof data !== "string" && typeof id !== "string")) {
+        throw new Error(`Attachment ${name} is invalid`);
+    }
+    return typeof data === "string"
+        ? { name, size, data: Buffer.from(data, "base64"), attachmentId: null, hash: null }
+        : { name, size, data: null, attachmentId: id, hash: Buffer.from(readString(hash), "base64") };
+}
+
+function readString(value: unknown, fallback: string = ""): string {
+    return typeof value === "string" ? value : fallback;
+}
+
+function readStrings(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter(item => typeof item === "string") : [];
+}
+
+function readDate(value: unknown): Date | null {
+    const date = typeof value === "string" ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) ? date : null;
+}
@@ -0,0 +1,467 @@
+import { randomBytes } from "crypto";
+
+import { defaultVaultAlgorithm, EncryptionCipher, VaultPayload } from "./EncryptionCipher";
+import { createDataset, deserialize, hashDataset, IVaultDataset, KeyTransition, VaultDatasetType } from "./serialize";
+import {
+    entriesEqual,
+    EntryAttachment,
+    parseVaultEntry,
+    SerializedVaultEntry,
+    serializeVaultEntry,
+    VaultEntry,
+} from "./VaultEntry";
+
+/**
+ * Entry of a vault, as listed in the index of the vault.
+ */
+export interface IndexedEntry {
+    // ID of the document which holds the entry.
+    entryId: string;
+    // Hash of the entry's dataset, see {@link hashDataset}.
+    hash: Buffer;
+}
+
+/**
+ * Entry of a vault which was moved to the trash, along with when it was deleted.
+ */
+export interface TrashedEntry extends IndexedEntry {
+    deleted: Date;
+}
+
+/**
+ * Index of a vault whose entries are stored as documents of their own, see {@link VaultDatasetType.EntryIndex}.
+ * The index is the encrypted content of the vault's main dataset. Listing the hash of each entry
+ * means that an entry cannot be replaced by another entry, or by an older version of itself.
+ *
+ * Entries are encrypted with an entry key which is stored in the index, rather than with the vault cipher,
+ * so that they do not have to be encrypted again when the vault's password or key slots change.
+ * When a key slot is revoked, the entry key is replaced, and entries written before keep being read
+ * with the previous entry keys.
+ */
+export interface VaultIndex {
+    entryKey: Buffer;
+    // Entry keys which were replaced, newest first.
+    previousEntryKeys: Buffer[];
+    // Entries of the vault, by name.
+    entries: Map<string, IndexedEntry>;
+    // Deleted entries, by name, which can be restored until they are purged.
+    // The trash is part of the index, so that it replicates along with the deletions.
+    trash: Map<string, TrashedEntry>;
+}
+
+interface SerializedVaultIndex {
+    entryKey: string;
+    // Missing from indexes written before entry keys could be replaced.
+    previousEntryKeys?: string[];
+    entries: { [name: string]: { id: string, hash: string } };
+    // Missing from indexes written before entries could be deleted.
+    trash?: { [name: string]: { id: string, hash: string, deleted: string } };
+}
+
+/**
+ * @name createVaultIndex
+ * @description Create the index of a vault without entries, with a new random entry key.
+ */
+export async function createVaultIndex(): Promise<VaultIndex> {
+    return {
+        entryKey: await createEntryKey(),
+        previousEntryKeys: [],
+        entries: new Map(),
+        trash: new Map(),
+    };
+}
+
+/**
+ * @name replaceEntryKey
+ * @description Get the index of a vault with a new random entry key, so that entries written from then on
+ * cannot be decrypted with the previous entry key.
+ */
+export async function replaceEntryKey(index: VaultIndex): Promise<VaultIndex> {
+    return {
+        ...index,
+        entryKey: await createEntryKey(),
+        previousEntryKeys: [ index.entryKey, ...index.previousEntryKeys ],
+    };
+}
+
+/**
+ * @name mergeEntryKeys
+ * @description Merge the entry keys of versions of a vault which were changed concurrently into the previous entry
+ * keys of the given index, so that entries written with the entry key of any version can still be read.
+ */
+export function mergeEntryKeys(index: VaultIndex, indexes: VaultIndex[]): Buffer[] {
+    const keys = [ ...index.previousEntryKeys ];
+    for (const { entryKey, previousEntryKeys } of indexes) {
+        for (const key of [ entryKey, ...previousEntryKeys ]) {
+            if (!key.equals(index.entryKey) && !keys.some(existing => existing.equals(key))) {
+                keys.push(key);
+            }
+        }
+    }
+    return keys;
+}
+
+export function serializeVaultIndex({ entryKey, previousEntryKeys, entries, trash }: VaultIndex): Buffer {
+    const serialized: SerializedVaultIndex = {
+        entryKey: entryKey.toString("base64"),
+        previousEntryKeys: previousEntryKeys.map(key => key.toString("base64")),
+        entries: {},
+        trash: {},
+    };
+    for (const [ name, { entryId, hash } ] of entries) {
+        serialized.entries[name] = { id: entryId, hash: hash.toString("base64") };
+    }
+    for (const [ name, { entryId, hash, deleted } ] of trash) {
+        serialized.trash[name] = { id: entryId, hash: hash.toString("base64"), deleted: deleted.toISOString() };
+    }
+    return Buffer.from(JSON.stringify(serialized));
+}
+
+export function deserializeVaultIndex(content: Buffer): VaultIndex {
+    const { entryKey, previousEntryKeys = [], entries, trash = {} }: SerializedVaultIndex = JSON.parse(content.toString());
+    if (typeof entryKey !== "string" || typeof entries !== "object" || entries === null) {
+        throw new Error("Vault index is invalid: missing entry key or entries");
+    }
+    else if (!Array.isArray(previousEntryKeys) || previousEntryKeys.some(key => typeof key !== "string")) {
+        throw new Error("Vault index is invalid: malformed previous entry keys");
+    }
+    else if (typeof trash !== "object" || trash === null) {
+        throw new Error("Vault index is invalid: malformed trash");
+    }
+
+    return {
+        entryKey: Buffer.from(entryKey, "base64"),
+        previousEntryKeys: previousEntryKeys.map(key => Buffer.from(key, "base64")),
+        entries: new Map(Object.entries(entries).map(([ name, { id, hash } ]) =>
+            [ name, { entryId: id, hash: Buffer.from(hash, "base64") } ])),
+        trash: new Map(Object.entries(trash).map(([ name, { id, hash, deleted } ]) =>
+            [ name, { entryId: id, hash: Buffer.from(hash, "base64"), deleted: new Date(deleted) } ])),
+    };
+}
+
+/**
+ * @name restoreFromTrash
+ * @description Move an entry of a vault back from the trash to the entries of its index.
+ * Throws an error if the trash has no such entry, or if the vault has another entry with its name.
+ * @returns The new index of the vault.
+ */
+export function restoreFromTrash(index: VaultIndex, name: string): VaultIndex {
+    const trashed = index.trash.get(name);
+    if (!trashed) {
+        throw new Error(`The trash has no entry ${name}`);
+    }
+    else if (index.entries.has(name)) {
+        throw new Error(`Vault already has an entry ${name}`);
+    }
+
+    const { entryId, hash } = trashed;
+    const trash = new Map(index.trash);
+    trash.delete(name);
+    return { ...index, entries: new Map(index.entries).set(name, { entryId, hash }), trash };
+}
+
+/**
+ * @name expireTrash
+ * @description Split the trash of a vault into the entries which are kept, and the entries which were deleted
+ * longer ago than the retention period and are due to be purged.
+ *
+ * @param trash Trash of the vault's index.
+ * @param retentionDays Number of days for which deleted entries can be restored.
+ * @param now Time the retention period is counted until; defaults to now.
+ */
+export function expireTrash(
+    trash: Map<string, TrashedEntry>,
+    retentionDays: number,
+    now: Date = new Date()): [ Map<string, TrashedEntry>, Map<string, TrashedEntry> ]
+{
+    const kept = new Map<string, TrashedEntry>();
+    const expired = new Map<string, TrashedEntry>();
+    const cutoff = now.getTime() - retentionDays * 24 * 60 * 60 * 1000;
+    trash.forEach((entry, name) => (entry.deleted.getTime() < cutoff ? expired : kept).set(name, entry));
+    return [ kept, expired ];
+}
+
+/**
+ * @name mergeTrash
+ * @description Merge the trash of versions of a vault which were changed concurrently,
+ * so that an entry which any of them deleted can still be restored. Of entries which several versions deleted
+ * under the same name, the latest deletion is kept.
+ */
+export function mergeTrash(indexes: VaultIndex[]): Map<string, TrashedEntry> {
+    const trash = new Map<string, TrashedEntry>();
+    for (const index of indexes) {
+        index.trash.forEach((entry, name) => {
+            if (!trash.has(name) || entry.deleted > trash.get(name).deleted) {
+                trash.set(name, entry);
+            }
+        });
+    }
+    return trash;
+}
+
+/**
+ * @name createEntryId
+ * @description Create a random ID for the document of an entry.
+ * Each version of an entry is written to a new document, so that the index is only changed once the entry is written.
+ */
+export function createEntryId(): string {
+    return randomBytes(16).toString("hex");
+}
+
+/**
+ * Version of an entry, as it was read from its document.
+ */
+export interface EntryVersion {
+    entry: VaultEntry;
+    // Unique ID of the device which wrote the version, or null for entries written before it was stored.
+    device: string | null;
+    // Number of the version, and when it was written.
+    version: number;
+    modified: Date | null;
+}
+
+/**
+ * Encrypted content of an entry. The device is encrypted along with the value, so that the history of
+ * an entry does not reveal which devices changed it.
+ */
+interface EntryContent {
+    value: SerializedVaultEntry | string;
+    device: string;
+}
+
+/**
+ * @name createEntry
+ * @description Encrypt and sign an entry.
+ *
+ * @param index Index of the vault, whose entry key encrypts the entry.
+ * @param entry New version of the entry.
+ * @param device Unique ID of the device which writes the entry.
+ * @param privateKey Current private signing key of the vault.
+ * @param keyTransitions Key transitions of the vault, which lead to the signing key.
+ * @param previous Previous version of the entry, if any, which the new version is chained to.
+ */
+export async function createEntry(
+    index: VaultIndex, entry: VaultEntry, device: string, privateKey: Buffer, keyTransitions: KeyTransition[],
+    previous: IVaultDataset | null): Promise<IVaultDataset>
+{
+    const content: EntryContent = { value: serializeVaultEntry(entry), device };
+    const payload = await getEntryCipher(index.entryKey)._encrypt(Buffer.from(JSON.stringify(content)));
+    return createDataset(payload, privateKey, previous, {
+        keyTransitions,
+        datasetType: VaultDatasetType.Entry,
+    });
+}
+
+/**
+ * @name readEntry
+ * @description Check and decrypt an entry of a vault.
+ * Throws an error if the entry is not the one listed in the index, is not signed by the vault, or cannot be decrypted.
+ *
+ * @param index Index of the vault.
+ * @param name Name of the entry in the index.
+ * @param content Serialized dataset of the entry, as it was stored.
+ * @param vaultId ID of the vault.
+ */
+export async function readEntry(index: VaultIndex, name: string, content: Buffer, vaultId: string): Promise<EntryVersion> {
+    const dataset = deserialize(content);
+    if (!hashDataset(dataset).equals(index.entries.get(name)?.hash ?? Buffer.alloc(0))) {
+        throw new Error(`Entry ${name} does not match the vault index`);
+    }
+    return openEntry(index, name, dataset, vaultId);
+}
+
+/**
+ * @name readEntryHistory
+ * @description Check and decrypt the versions of an entry, from the version listed in the index back to its oldest
+ * version which is still stored. Each version must be the one which the version after it replaced.
+ *
+ * @param index Index of the vault.
+ * @param name Name of the entry in the index.
+ * @param versions Serialized datasets of the versions of the entry, newest first.
+ * @param vaultId ID of the vault.
+ */
+export async function readEntryHistory(
+    index: VaultIndex, name: string, versions: Buffer[], vaultId: string): Promise<EntryVersion[]>
+{
+    const [ current, ...previous ] = versions;
+    const history = [ await readEntry(index, name, current, vaultId) ];
+
+    let replacedHash = deserialize(current).previousHash;
+    for (const content of previous) {
+        const dataset = deserialize(content);
+        if (!hashDataset(dataset).equals(replacedHash ?? Buffer.alloc(0))) {
+            throw new Error(`Version ${dataset.version} of entry ${name} is not part of its history`);
+        }
+        history.push(await openEntry(index, name, dataset, vaultId));
+        replacedHash = dataset.previousHash;
+    }
+    return history;
+}
+
+async function openEntry(index: VaultIndex, name: string, dataset: IVaultDataset, vaultId: string): Promise<EntryVersion> {
+    if (dataset.datasetType !== VaultDatasetType.Entry || !dataset.validate(vaultId)) {
+        throw new Error(`Entry ${name} is not signed by the vault`);
+    }
+
+    const decrypted = await decryptEntryPayload(index, dataset.unwrap());
+    if (!decrypted) {
+        throw new Error(`Entry ${name} failed its integrity check`);
+    }
+
+    // Entries written before their device was stored only hold their value.
+    const content: EntryContent | string = JSON.parse(decrypted.toString());
+    const { value, device = null } = typeof content === "string" ? { value: content } : content;
+    return { entry: parseVaultEntry(value, name), device, version: dataset.version, modified: dataset.modified };
+}
+
+/**
+ * Limits on the size of attached files, in bytes. Files up to the inline limit are stored in their entry;
+ * larger files are stored as documents of their own, so that every version of the entry does not copy them.
+ */
+export const attachmentSizeLimits = {
+    inline: 4 * 1024,
+    max: 16 * 1024 * 1024,
+};
+
+/**
+ * @name createAttachment
+ * @description Encrypt and sign a file attached to an entry, to be stored as a document of its own.
+ * The entry lists the hash of the returned dataset, so that the file cannot be replaced.
+ *
+ * @param index Index of the vault, whose entry key encrypts the file.
+ * @param content Content of the file.
+ * @param privateKey Current private signing key of the vault.
+ * @param keyTransitions Key transitions of the vault, which lead to the signing key.
+ */
+export async function createAttachment(
+    index: VaultIndex, content: Buffer, privateKey: Buffer, keyTransitions: KeyTransition[]): Promise<IVaultDataset>
+{
+    if (content.length > attachmentSizeLimits.max) {
+        throw new Error(`Attachments cannot be larger than ${attachmentSizeLimits.max} bytes`);
+    }
+
+    const payload = await getEntryCipher(index.entryKey)._encrypt(content);
+    return createDataset(payload, privateKey, null, {
+        keyTransitions,
+        datasetType: VaultDatasetType.Attachment,
+    });
+}
+
+/**
+ * @name readAttachment
+ * @description Check and decrypt a file attached to an entry.
+ * Throws an error if the file is not the one listed in the entry, is not signed by the vault, or cannot be decrypted.
+ *
+ * @param index Index of the vault.
+ * @param attachment Attachment as it is listed in the entry.
+ * @param content Serialized dataset of the file, if it is stored on its own.
+ * @param vaultId ID of the vault.
+ */
+export async function readAttachment(
+    index: VaultIndex, attachment: EntryAttachment, content: Buffer | null, vaultId: string): Promise<Buffer>
+{
+    if (attachment.data) {
+        return attachment.data;
+    }
+
+    const dataset = content && deserialize(content);
+    if (!dataset || !hashDataset(dataset).equals(attachment.hash ?? Buffer.alloc(0))) {
+        throw new Error(`Attachment ${attachment.name} does not match its entry`);
+    }
+    if (dataset.datasetType !== VaultDatasetType.Attachment || !dataset.validate(vaultId)) {
+        throw new Error(`Attachment ${attachment.name} is not signed by the vault`);
+    }
+
+    const decrypted = await decryptEntryPayload(index, dataset.unwrap());
+    if (!decrypted) {
+        throw new Error(`Attachment ${attachment.name} failed its integrity check`);
+    }
+    return decrypted;
+}
+
+/**
+ * @name createPurge
+ * @description Sign the record that an entry or attached file was purged, which its document holds once it is deleted,
+ * so that peers can tell the purge from a deletion by anyone without the vault's signing key.
+ *
+ * @param index Index of the vault.
+ * @param purged Dataset of the document which is deleted.
+ * @param privateKey Current private signing key of the vault.
+ * @param keyTransitions Key transitions of the vault, which lead to the signing key.
+ */
+export async function createPurge(
+    index: VaultIndex, purged: IVaultDataset, privateKey: Buffer, keyTransitions: KeyTransition[]): Promise<IVaultDataset>
+{
+    const payload = await getEntryCipher(index.entryKey)._encrypt(Buffer.alloc(0));
+    return createDataset(payload, privateKey, purged, {
+        keyTransitions,
+        datasetType: VaultDatasetType.Purge,
+    });
+}
+
+function getEntryCipher(entryKey: Buffer): EncryptionCipher {
+    return new EncryptionCipher(entryKey, defaultVaultAlgorithm);
+}
+
+function createEntryKey(): Promise<Buffer> {
+    return EncryptionCipher.createFill(EncryptionCipher.getKeyLength(defaultVaultAlgorithm));
+}
+
+/**
+ * Decrypt an entry or attachment with the current entry key of the index, or any of the entry keys it replaced.
+ */
+async function decryptEntryPayload({ entryKey, previousEntryKeys }: VaultIndex, payload: VaultPayload): Promise<Buffer | null> {
+    for (const key of [ entryKey, ...previousEntryKeys ]) {
+        const decrypted = await getEntryCipher(key)._decrypt(payload);
+        if (decrypted) {
+            return decrypted;
+        }
+    }
+    return null;
+}
+
+/**
+ * Entries merged from versions of a vault which were changed concurrently.
+ */
+export interface EntryMerge {
+    // Merged entries, by name.
+    entries: Map<string, VaultEntry>;
+    // Names of entries which several versions changed differently; the change of the first of them is kept.
+    conflicts: string[];
+}
+
+/**
+ * @name mergeEntries
+ * @description Merge versions of the entries of a vault entry by entry, against the version they descend from.
+ * An entry which only one version added, changed or removed keeps that change.
+ *
+ * @param base Entries of the version which every version descends from, or no entries if it is unknown.
+ * @param versions Entries of each version, starting with the version whose changes are preferred.
+ */
+export function mergeEntries(base: Map<string, VaultEntry>, versions: Map<string, VaultEntry>[]): EntryMerge {
+    const names = new Set(base.keys());
+    for (const version of versions) {
+        version.forEach((_, name) => names.add(name));
+    }
+
+    const entries = new Map<string, VaultEntry>();
+    const conflicts: string[] = [];
+    for (const name of names) {
+        const original = base.get(name);
+        const changes = versions.map(version => version.get(name)).filter(entry => !sameEntry(entry, original));
+        const value = changes.length > 0 ? changes[0] : original;
+
+        if (changes.some(change => !sameEntry(change, value))) {
+            conflicts.push(name);
+        }
+        if (value !== undefined) {
+            entries.set(name, value);
+        }
+    }
+
+    return { entries, conflicts };
+}
+
+function sameEntry(first: VaultEntry | undefined, second: VaultEntry | undefined): boolean {
+    return first && second ? entriesEqual(first, second) : first === second;
+}
@@ -0,0 +1,126 @@
+import { normalizeFolder, VaultEntry } from "./VaultEntry";
+
+/**
+ * Contents of one folder of a vault: the folders directly inside it, and the names of the entries listed in it.
+ */
+export interface FolderListing {
+    folders: string[];
+    entries: string[];
+}
+
+export interface SearchResult {
+    name: string;
+    /** How well the entry matches, from 0 to 1. */
+    score: number;
+    /** Field of the entry which matched the query best, such as "username". */
+    field: string;
+}
+
+/**
+ * Fields which entries are searched by, with how much a match of each field counts.
+ */
+const searchFields: [ string, number, (name: string, entry: VaultEntry) => string[] ][] = [
+    [ "name", 1, name => [ name ] ],
+    [ "title", 1, (_, { title }) => [ title ] ],
+    [ "username", 0.9, (_, { username }) => [ username ] ],
+    [ "tags", 0.9, (_, { tags }) => tags ],
+    [ "urls", 0.8, (_, { urls }) => urls ],
+];
+
+/**
+ * @name listFolder
+ * @description List the folders and entries directly inside a folder of a vault, sorted by name.
+ * @param folder Path of the folder, such as "work/mail"; the top folder by default.
+ */
+export function listFolder(entries: Map<string, VaultEntry>, folder: string = ""): FolderListing {
+    const path = normalizeFolder(folder);
+    const listing: FolderListing = { folders: [], entries: [] };
+    const folders = new Set<string>();
+
+    entries.forEach((entry, name) => {
+        if (entry.folder === path) {
+            listing.entries.push(name);
+        }
+        else if (path === "" || entry.folder.startsWith(`${path}/`)) {
+            folders.add(entry.folder.slice(path ? path.length + 1 : 0).split("/")[0]);
+        }
+    });
+
+    listing.folders = [ ...folders ].sort();
+    listing.entries.sort();
+    return listing;
+}
+
+/**
+ * @name searchEntries
+ * @description Find the entries which match a query by their name, title, username, tags or URLs, best match first.
+ * Each word of the query must match a field of the entry, either as a part of it or as letters in the same order
+ * with others between them, such as "gml" for "gmail"; case is ignored.
+ */
+export function searchEntries(entries: Map<string, VaultEntry>, query: string): SearchResult[] {
+    const words = query.toLowerCase().split(/\s+/).filter(word => word);
+    if (words.length === 0) {
+        return [];
+    }
+
+    const results: SearchResult[] = [];
+    entries.forEach((entry, name) => {
+        let total = 0, best = { score: 0, field: "" };
+        for (const word of words) {
+            const match = matchEntry(word, name, entry);
+            if (!match) {
+                return;
+            }
+            total += match.score;
+            best = match.score > best.score ? match : best;
+        }
+        results.push({ name, score: total / words.length, field: best.field });
+    });
+
+    return results.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+}
+
+/**
+ * @name fuzzyMatch
+ * @description Score how well a word matches text: 1 for the whole text, less for a prefix or another part of it,
+ * and less again for letters in the same order, the closer together the better.
+ * @returns The score from 0 to 1, or null if the word does not match.
+ */
+export function fuzzyMatch(word: string, text: string): number | null {
+    const query = word.toLowerCase(), value = text.toLowerCase();
+    if (!query || !value) {
+        return null;
+    }
+    else if (value === query) {
+        return 1;
+    }
+    else if (value.startsWith(query)) {
+        return 0.9;
+    }
+    else if (value.includes(query)) {
+        return 0.8;
+    }
+
+    let start = -1, position = -1;
+    for (const character of query) {
+        position = value.indexOf(character, position + 1);
+        if (position < 0) {
+            return null;
+        }
+        start = start < 0 ? position : start;
+    }
+    return 0.6 * query.length / (position - start + 1);
+}
+
+function matchEntry(word: string, name: string, entry: VaultEntry): { score: number, field: string } | null {
+    let best: { score: number, field: string } | null = null;
+    for (const [ field, weight, values ] of searchFields) {
+        for (const value of values(name, entry)) {
+            const score = (fuzzyMatch(word, value) ?? 0) * weight;
+            if (score > (best?.score ?? 0)) {
+                best = { score, field };
+            }
+        }
+    }
+    return best;
+}
@@ -1,2 +1,9 @@
 export * from "./EncryptionCipher";
 export * from "./Pbkdf2Cipher";
+export * from "./ScryptCipher";
+export * from "./KdfParameters";
+export * from "./KdfCipher";
+export * from "./KeySlotCipher";
+export * from "./SecretSharing";
+export * from "./Totp";
+export * from "./PasswordGenerator";
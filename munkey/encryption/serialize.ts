@@ -1,4 +1,5 @@
 import {
+    createHash,
     createPublicKey,
     createVerify,
     createPrivateKey,
@@ -6,29 +7,168 @@ import {
     generateKeyPair,
     KeyObject,
     ECKeyPairOptions,
+    ED25519KeyPairOptions,
+    sign,
+    verify,
 } from "crypto";
-import { EncryptionCipher, VaultPayload } from "./EncryptionCipher";
+import {
+    deserializeKeySlots,
+    EncryptionCipher,
+    getPayloadAlgorithmId,
+    mapPayloadAlgorithm,
+    serializeKeySlots,
+    VaultPayload,
+} from "./EncryptionCipher";
+import { deserializeKdfParameters, serializeKdfParameters } from "./KdfParameters";
+import { BufferReader } from "./BufferReader";
 
+/**
+ * Algorithms which a vault can be signed with, identified in the header of the vault.
+ * The vault ID is the public key of the vault, encoded in base64url.
+ */
 enum VaultSignatureAlgorithm {
+    /** ECDSA with SHA-512 over a brainpoolP512t1 key, whose vault ID is the SPKI of the key. */
     SHA512 = 0,
+    /** Ed25519, whose vault ID is the raw 32-byte public key. */
+    Ed25519 = 1,
 }
 
+/** DER prefix of the SPKI of an Ed25519 key, which is followed by the raw public key. */
+const ed25519SpkiPrefix = Buffer.from("302a300506032b6570032100", "hex");
+const ed25519KeyLength = 32;
+
+/**
+ * What the content of a dataset holds, which decides where it may be stored.
+ */
+enum VaultDatasetType {
+    /** Every entry of the vault, stored as the vault's only dataset. */
+    Vault = 0,
+    /** Index of the entries of the vault, which are stored as datasets of their own. */
+    EntryIndex = 1,
+    /** A single entry of the vault, listed in the vault's entry index. */
+    Entry = 2,
+    /** A file attached to an entry, listed in the entry by its hash. */
+    Attachment = 3,
+    /**
+     * Record that an entry or attached file was purged, which the deleted document holds.
+     * The record follows the purged dataset, so that it only allows deleting the document which held that dataset.
+     */
+    Purge = 4,
+}
+
+/**
+ * Metadata records of a vault, by record type.
+ * Each type is assigned to the feature which uses it, starting from {@link VaultRecordType.Metadata}.
+ * Records of unknown types are kept as they are when the vault is written again.
+ */
+type VaultMetadata = Map<number, Buffer>;
+
 interface IVaultDataset {
     protocolVersion: number;
     signatureAlgorithm: VaultSignatureAlgorithm;
     signature: Buffer;
+    // Data covered by the signature.
     payload: Buffer;
+    // Timestamps of the vault, which are only stored from V1 onwards.
+    created: Date | null;
+    modified: Date | null;
+    // Number of times the vault was written, which is 0 for vaults written before it was stored.
+    version: number;
+    // Hash of the version of the vault which this version replaced, see {@link hashDataset}.
+    previousHash: Buffer | null;
+    // Private signing key, encrypted on its own; null if the key is stored inside the encrypted content.
+    signingKey: VaultPayload | null;
+    // Transitions from the key of the vault ID to the key which signs the vault, oldest first.
+    keyTransitions: KeyTransition[];
+    datasetType: VaultDatasetType;
+    metadata: VaultMetadata;
 
     validate(vaultId: string): boolean;
     serialize(): Buffer;
     unwrap(): VaultPayload;
 }
 
+/**
+ * Statement which hands a vault over from its signing key to a new signing key, signed by the old key.
+ * The first signing key of a vault is its vault ID, so the vault ID stays the same when the key changes.
+ */
+interface KeyTransition {
+    // Algorithm of the key which signed the statement.
+    signerAlgorithm: VaultSignatureAlgorithm;
+    algorithm: VaultSignatureAlgorithm;
+    // New public key, encoded in the same way as a vault ID.
+    publicKey: string;
+    signature: Buffer;
+}
+
+/**
+ * Records given when a vault is written, besides its payload.
+ */
+interface DatasetRecords {
+    // Private signing key, encrypted by the vault cipher.
+    wrappedKey?: VaultPayload | null;
+    // Transition to the signing key, if the key replaces the previous one.
+    transition?: KeyTransition | null;
+    // Every transition to the signing key, for an entry which is signed with the key of its vault.
+    // Replaces the transitions of the previous version.
+    keyTransitions?: KeyTransition[] | null;
+    // Type of the dataset, which is kept from the previous version if it is not given.
+    datasetType?: VaultDatasetType | null;
+}
+
+/**
+ * Magic number which starts every vault from V1 onwards.
+ * V0 vaults start with their version instead, which is 0.
+ */
+const vaultMagic = Buffer.from("MNKY");
+
+/**
+ * Types of the records in the body of a V1 vault.
+ * Each record is written as a 16-bit type, a 32-bit size and its content.
+ */
+enum VaultRecordType {
+    Seed = 1,
+    Salt = 2,
+    Vault = 3,
+    Tag = 4,
+    Kdf = 5,
+    KeySlots = 6,
+    Version = 7,
+    PreviousHash = 8,
+    SigningKey = 9,
+    KeyTransitions = 10,
+    DatasetType = 11,
+    /** Records from this type onwards are metadata, see {@link VaultMetadata}. */
+    Metadata = 0x8000,
+}
+
+/**
+ * Fields of a V1 vault which are stored alongside its payload.
+ */
+interface VaultBodyFields {
+    created: Date;
+    modified: Date;
+    version: number;
+    previousHash: Buffer | null;
+    signingKey: VaultPayload | null;
+    keyTransitions: KeyTransition[];
+    datasetType: VaultDatasetType;
+    metadata: VaultMetadata;
+}
+
 class VaultDatasetV0 implements IVaultDataset {
     public readonly protocolVersion: number = 0;
     public readonly signatureAlgorithm: VaultSignatureAlgorithm;
     public readonly signature: Buffer;
     public readonly payload: Buffer;
+    public readonly created: Date | null = null;
+    public readonly modified: Date | null = null;
+    public readonly version: number = 0;
+    public readonly previousHash: Buffer | null = null;
+    public readonly signingKey: VaultPayload | null = null;
+    public readonly keyTransitions: KeyTransition[] = [];
+    public readonly datasetType: VaultDatasetType = VaultDatasetType.Vault;
+    public readonly metadata: VaultMetadata = new Map();
 
     private constructor(
         signature: Buffer,
@@ -41,19 +181,32 @@ class VaultDatasetV0 implements IVaultDataset {
     }
 
     public static deserialize(content: Buffer): VaultDatasetV0 {
-        const signatureAlgorithmId = content.readInt32LE(0);
-        const signatureSize = content.readInt32LE(4);
-        const payloadSize = content.readInt32LE(8);
-        const signatureAlgorithm = mapSignatureAlgo(signatureAlgorithmId);
+        const reader = new BufferReader(content);
+        const signatureAlgorithm = readSignatureAlgorithm(reader);
+        const signatureSize = reader.readSize("signature");
+        const payloadSize = reader.readSize("payload");
 
-        const signatureStart = content.slice(12);
-        const signature = signatureStart.slice(0, signatureSize);
-        const payload = signatureStart.slice(signatureSize, signatureSize + payloadSize);
+        const signature = reader.readBytes(signatureSize, "signature");
+        const payload = reader.readBytes(payloadSize, "payload");
 
-        return new VaultDatasetV0(Buffer.from(signature), Buffer.from(payload), signatureAlgorithm);
+        return new VaultDatasetV0(signature, payload, signatureAlgorithm);
     }
 
-    public static derivePublicKey(vaultId: string): KeyObject {
+    public static derivePublicKey(
+        vaultId: string, algorithm: VaultSignatureAlgorithm = VaultSignatureAlgorithm.SHA512): KeyObject
+    {
+        if (algorithm === VaultSignatureAlgorithm.Ed25519) {
+            const rawKey = Buffer.from(vaultId, "base64url");
+            if (rawKey.length !== ed25519KeyLength) {
+                throw new Error(`Vault ID is not an Ed25519 public key: ${vaultId}`);
+            }
+            return createPublicKey({
+                key: Buffer.concat([ ed25519SpkiPrefix, rawKey ]),
+                format: "der",
+                type: "spki",
+            });
+        }
+
         vaultId = Buffer.from(vaultId, "base64url").toString("base64");
         let publicKey =
             `-----BEGIN PUBLIC KEY-----\n${vaultId}\n-----END PUBLIC KEY-----\n`;
@@ -64,29 +217,12 @@ class VaultDatasetV0 implements IVaultDataset {
     }
 
     public static sign(payload: Buffer, privateKey: Buffer): VaultDatasetV0 {
-        let key = createPrivateKey({
-            key: privateKey,
-            format: "der",
-            type: "sec1",
-        });
-        let sign = createSign("SHA512");
-        sign.write(payload);
-        sign.end();
-
-        return new VaultDatasetV0(Buffer.from(sign.sign(key)), payload);
+        const [ algorithm, signature ] = createSignature(payload, privateKey);
+        return new VaultDatasetV0(signature, payload, algorithm);
     }
 
     public validate(vaultId: string): boolean {
-        try {
-            const key = VaultDatasetV0.derivePublicKey(vaultId);
-            return createVerify(VaultSignatureAlgorithm[this.signatureAlgorithm])
-                .update(this.payload)
-                .verify(key, this.signature);
-        }
-        catch (err) {
-            console.error(err);
-            return false;
-        }
+        return verifySignature(vaultId, this.signatureAlgorithm, this.payload, this.signature);
     }
 
     public unwrap(): VaultPayload {
@@ -104,23 +240,462 @@ class VaultDatasetV0 implements IVaultDataset {
     }
 }
 
+/**
+ * V1 vault, which starts with {@link vaultMagic} and stores the payload as a list of records:
+ *
+ *   magic (4) | version (4) | signature algorithm (4) | signature size (4) | body size (4) | signature | body
+ *
+ * The body is covered by the signature:
+ *
+ *   created (8) | modified (8) | payload type (4) | algorithm (4) | records...
+ *
+ * Timestamps are milliseconds since the epoch, stored as doubles.
+ * The version is a 32-bit counter, which is missing from vaults written before it was added.
+ */
+class VaultDatasetV1 implements IVaultDataset {
+    public readonly protocolVersion: number = 1;
+    public readonly signatureAlgorithm: VaultSignatureAlgorithm;
+    public readonly signature: Buffer;
+    public readonly payload: Buffer;
+    public readonly created: Date;
+    public readonly modified: Date;
+    public readonly version: number;
+    public readonly previousHash: Buffer | null;
+    public readonly signingKey: VaultPayload | null;
+    public readonly keyTransitions: KeyTransition[];
+    public readonly datasetType: VaultDatasetType;
+    public readonly metadata: VaultMetadata;
+    private readonly contents: VaultPayload;
+
+    private constructor(
+        signature: Buffer,
+        payload: Buffer,
+        algorithm: VaultSignatureAlgorithm = VaultSignatureAlgorithm.SHA512)
+    {
+        this.signature = signature;
+        this.payload = payload;
+        this.signatureAlgorithm = algorithm;
+        ({
+            created: this.created,
+            modified: this.modified,
+            version: this.version,
+            previousHash: this.previousHash,
+            signingKey: this.signingKey,
+            keyTransitions: this.keyTransitions,
+            datasetType: this.datasetType,
+            metadata: this.metadata,
+            contents: this.contents,
+        } = VaultDatasetV1.readBody(payload));
+    }
+
+    /**
+     * @param content Serialized vault, after the magic number and version.
+     */
+    public static deserialize(content: Buffer): VaultDatasetV1 {
+        const reader = new BufferReader(content);
+        const signatureAlgorithm = readSignatureAlgorithm(reader);
+        const signatureSize = reader.readSize("signature");
+        const bodySize = reader.readSize("body");
+
+        const signature = reader.readBytes(signatureSize, "signature");
+        const body = reader.readBytes(bodySize, "body");
+        if (!reader.isAtEnd()) {
+            throw new Error(`Vault data is invalid: ${reader.remaining} unexpected bytes after the body`);
+        }
+
+        return new VaultDatasetV1(signature, body, signatureAlgorithm);
+    }
+
+    /**
+     * @name sign
+     * @description Create a V1 vault containing the given payload.
+     *
+     * @param payload Payload to store in the vault.
+     * @param privateKey Private key of the vault, which signs the body.
+     * @param previous Current version of the vault, whose creation time, key transitions, type and metadata are kept,
+     * and which the new version is chained to.
+     * @param records Records of the signing key and the type of the dataset.
+     */
+    public static sign(
+        payload: VaultPayload,
+        privateKey: Buffer,
+        previous: IVaultDataset | null = null,
+        { wrappedKey = null, transition = null, keyTransitions = null, datasetType = null }: DatasetRecords = {}): VaultDatasetV1
+    {
+        const modified = new Date();
+        const body = VaultDatasetV1.writeBody(payload, {
+            created: previous?.created ?? modified,
+            modified,
+            version: (previous?.version ?? 0) + 1,
+            previousHash: previous && hashDataset(previous),
+            signingKey: wrappedKey,
+            keyTransitions: [ ...keyTransitions ?? previous?.keyTransitions ?? [], ...transition ? [ transition ] : [] ],
+            datasetType: datasetType ?? previous?.datasetType ?? VaultDatasetType.Vault,
+            metadata: previous?.metadata ?? new Map(),
+        });
+
+        const [ algorithm, signature ] = createSignature(body, privateKey);
+        return new VaultDatasetV1(signature, body, algorithm);
+    }
+
+    private static writeBody(
+        payload: VaultPayload,
+        { created, modified, version, previousHash, signingKey, keyTransitions, datasetType, metadata }: VaultBodyFields): Buffer
+    {
+        const versionRecord = Buffer.alloc(4);
+        versionRecord.writeUInt32LE(version, 0);
+        const datasetTypeRecord = Buffer.alloc(4);
+        datasetTypeRecord.writeUInt32LE(datasetType, 0);
+
+        const header = Buffer.alloc(24);
+        header.writeDoubleLE(created.getTime(), 0);
+        header.writeDoubleLE(modified.getTime(), 8);
+        header.writeInt32LE(payload.payloadType, 16);
+        header.writeInt32LE(getPayloadAlgorithmId(payload.algorithm), 20);
+
+        const records: [ number, Buffer | undefined ][] = [
+            [ VaultRecordType.Seed, payload.seed ],
+            [ VaultRecordType.Salt, payload.salt ],
+            [ VaultRecordType.Vault, payload.vault ],
+            [ VaultRecordType.Tag, payload.tag ],
+            [ VaultRecordType.Kdf, payload.kdf ? serializeKdfParameters(payload.kdf) : undefined ],
+            [ VaultRecordType.KeySlots, payload.slots ? serializeKeySlots(payload.slots, payload.payloadType) : undefined ],
+            [ VaultRecordType.Version, versionRecord ],
+            [ VaultRecordType.PreviousHash, previousHash ?? undefined ],
+            [ VaultRecordType.SigningKey, signingKey ? EncryptionCipher.wrapPayload(signingKey) : undefined ],
+            [ VaultRecordType.KeyTransitions, keyTransitions.length > 0 ? serializeKeyTransitions(keyTransitions) : undefined ],
+            [ VaultRecordType.DatasetType, datasetType !== VaultDatasetType.Vault ? datasetTypeRecord : undefined ],
+            ...metadata.entries(),
+        ];
+
+        return Buffer.concat([
+            header,
+            ...records
+                .filter(([ , content ]) => content !== undefined)
+                .map(([ recordType, content ]) => {
+                    const recordHeader = Buffer.alloc(6);
+                    recordHeader.writeUInt16LE(recordType, 0);
+                    recordHeader.writeInt32LE(content.length, 2);
+                    return Buffer.concat([ recordHeader, content ]);
+                }),
+        ]);
+    }
+
+    private static readBody(body: Buffer): VaultBodyFields & { contents: VaultPayload } {
+        const reader = new BufferReader(body, "Vault body");
+        const created = new Date(reader.readDouble("creation time"));
+        const modified = new Date(reader.readDouble("modification time"));
+        const payloadType = reader.readInt32("payload type");
+        const algorithmId = reader.readInt32("algorithm");
+
+        const records = new Map<number, Buffer>();
+        const metadata: VaultMetadata = new Map();
+        while (!reader.isAtEnd()) {
+            const recordType = reader.readUInt16("record type");
+            const content = reader.readBytes(reader.readSize(`record ${recordType}`), `record ${recordType}`);
+            if (records.has(recordType) || metadata.has(recordType)) {
+                throw new Error(`Vault body is invalid: record ${recordType} appears more than once`);
+            }
+            else if (recordType >= VaultRecordType.Metadata) {
+                metadata.set(recordType, content);
+            }
+            else if (!(recordType in VaultRecordType)) {
+                throw new Error(`Vault body is invalid: unknown record ${recordType}`);
+            }
+            else {
+                records.set(recordType, content);
+            }
+        }
+
+        for (const recordType of [ VaultRecordType.Seed, VaultRecordType.Vault ]) {
+            if (!records.has(recordType)) {
+                throw new Error(`Vault body is invalid: missing ${VaultRecordType[recordType]} record`);
+            }
+        }
+
+        const versionRecord = records.get(VaultRecordType.Version);
+        const previousHash = records.get(VaultRecordType.PreviousHash) ?? null;
+        if (versionRecord && versionRecord.length !== 4) {
+            throw new Error(`Vault body is invalid: version record has ${versionRecord.length} bytes`);
+        }
+        if (previousHash && previousHash.length !== hashLength) {
+            throw new Error(`Vault body is invalid: previous hash has ${previousHash.length} bytes`);
+        }
+        const datasetTypeRecord = records.get(VaultRecordType.DatasetType);
+        if (datasetTypeRecord && (datasetTypeRecord.length !== 4 || !(datasetTypeRecord.readUInt32LE(0) in VaultDatasetType))) {
+            throw new Error("Vault body is invalid: unknown dataset type");
+        }
+
+        const signingKey = records.get(VaultRecordType.SigningKey);
+        const keyTransitions = records.get(VaultRecordType.KeyTransitions);
+        const kdf = records.get(VaultRecordType.Kdf);
+        const slots = records.get(VaultRecordType.KeySlots);
+        const contents: VaultPayload = {
+            payloadType,
+            algorithm: mapPayloadAlgorithm(algorithmId),
+            seed: records.get(VaultRecordType.Seed),
+            salt: records.get(VaultRecordType.Salt),
+            vault: records.get(VaultRecordType.Vault),
+            tag: records.get(VaultRecordType.Tag),
+            kdf: kdf && deserializeKdfParameters(kdf),
+            slots: slots && deserializeKeySlots(slots, payloadType),
+        };
+
+        return {
+            created,
+            modified,
+            version: versionRecord ? versionRecord.readUInt32LE(0) : 0,
+            previousHash,
+            signingKey: signingKey ? EncryptionCipher.unwrapPayload(signingKey) : null,
+            keyTransitions: keyTransitions ? deserializeKeyTransitions(keyTransitions) : [],
+            datasetType: datasetTypeRecord ? datasetTypeRecord.readUInt32LE(0) : VaultDatasetType.Vault,
+            metadata,
+            contents,
+        };
+    }
+
+    /**
+     * @name validate
+     * @description Check that the vault is signed by its current signing key,
+     * which is reached from the vault ID through its key transitions.
+     */
+    public validate(vaultId: string): boolean {
+        const signer = resolveSigningKey(vaultId, this.keyTransitions);
+        if (!signer || (this.keyTransitions.length > 0 && signer.algorithm !== this.signatureAlgorithm)) {
+            return false;
+        }
+        return verifySignature(signer.keyId, this.signatureAlgorithm, this.payload, this.signature);
+    }
+
+    public unwrap(): VaultPayload {
+        return this.contents;
+    }
+
+    public serialize(): Buffer {
+        let header = Buffer.alloc(20);
+        vaultMagic.copy(header, 0);
+        header.writeInt32LE(this.protocolVersion, 4);
+        header.writeInt32LE(this.signatureAlgorithm, 8);
+        header.writeInt32LE(this.signature.length, 12);
+        header.writeInt32LE(this.payload.length, 16);
+
+        return Buffer.concat([ header, this.signature, this.payload ]);
+    }
+}
+
+/**
+ * @name deserialize
+ * @description Read a serialized vault of any supported version.
+ * Throws an error describing the problem if the vault is truncated, malformed or of an unknown version.
+ */
 function deserialize(content: Buffer): IVaultDataset {
-    const protocolVersion = content.readInt32LE(0);
+    const reader = new BufferReader(content);
+    if (content.slice(0, vaultMagic.length).equals(vaultMagic)) {
+        reader.readBytes(vaultMagic.length, "magic number");
+        const protocolVersion = reader.readInt32("version");
+        switch (protocolVersion) {
+            case 1:
+                return VaultDatasetV1.deserialize(reader.readRemaining());
+            default:
+                throw new Error(`Vault data has unsupported version ${protocolVersion}`);
+        }
+    }
+
+    const protocolVersion = reader.readInt32("version");
+    if (protocolVersion !== 0) {
+        throw new Error("Vault data is not a vault: it starts with neither the vault magic number nor version 0");
+    }
+    return VaultDatasetV0.deserialize(reader.readRemaining());
+}
+
+const hashLength = 32;
+
+/** Context of the data signed in a key transition, so that it cannot be mistaken for a vault. */
+const keyTransitionContext = Buffer.from("MNKY key transition");
+
+/**
+ * @name hashDataset
+ * @description Hash a serialized vault, so that the next version of the vault can refer to it.
+ */
+function hashDataset(dataset: IVaultDataset): Buffer {
+    return createHash("sha256").update(dataset.serialize()).digest();
+}
+
+/**
+ * @name createDataset
+ * @description Create a signed vault containing the given payload, in the current format.
+ *
+ * @param payload Payload to store in the vault.
+ * @param privateKey Current private signing key of the vault.
+ * @param previous Current version of the vault, if any, whose creation time, key transitions, type and metadata are kept.
+ * The new vault gets the next version number, and the hash of the previous version.
+ * @param records Encrypted signing key to store in the vault, the transition to it if it is new,
+ * and the type of the dataset if it changes.
+ */
+function createDataset(
+    payload: VaultPayload,
+    privateKey: Buffer,
+    previous: IVaultDataset | null = null,
+    records: DatasetRecords = {}): IVaultDataset
+{
+    return VaultDatasetV1.sign(payload, privateKey, previous, records);
+}
+
+/**
+ * @name createKeyTransition
+ * @description Hand a vault over from its current signing key to a new one.
+ *
+ * @param vaultId ID of the vault.
+ * @param dataset Current version of the vault, whose signing key is replaced.
+ * @param privateKey Current private signing key of the vault.
+ * @param publicKey New public key, as returned by {@link createNewIdentity}.
+ * @param algorithm Algorithm of the new key.
+ * @returns Transition to pass to {@link createDataset} along with the new private key.
+ */
+function createKeyTransition(
+    vaultId: string,
+    dataset: IVaultDataset,
+    privateKey: Buffer,
+    publicKey: Buffer,
+    algorithm: VaultSignatureAlgorithm): KeyTransition
+{
+    const transitions = dataset.keyTransitions;
+    const signerKeyId = transitions.length > 0 ? transitions[transitions.length - 1].publicKey : vaultId;
+    const newKeyId = publicKey.toString("base64url");
+    const signerAlgorithm = getKeyAlgorithm(readPrivateKey(privateKey));
+    const [ , signature ] = createSignature(
+        getKeyTransitionData(transitions.length, signerKeyId, signerAlgorithm, algorithm, newKeyId), privateKey);
+
+    return { signerAlgorithm, algorithm, publicKey: newKeyId, signature };
+}
+
+/**
+ * @name continuesKeyTransitions
+ * @description Whether the key transitions of a new version of a vault start with every transition
+ * of an earlier version, so that a replaced key cannot hand the vault over to a different key.
+ */
+function continuesKeyTransitions(previous: IVaultDataset, next: IVaultDataset): boolean {
+    return previous.keyTransitions.every((transition, index) =>
+        next.keyTransitions[index]?.signature.equals(transition.signature));
+}
+
+/**
+ * Data signed by the previous key in a key transition.
+ * The position of the transition is included, so that transitions cannot be reordered.
+ */
+function getKeyTransitionData(
+    index: number,
+    signerKeyId: string,
+    signerAlgorithm: VaultSignatureAlgorithm,
+    algorithm: VaultSignatureAlgorithm,
+    publicKey: string): Buffer
+{
+    const header = Buffer.alloc(12);
+    header.writeUInt32LE(index, 0);
+    header.writeInt32LE(signerAlgorithm, 4);
+    header.writeInt32LE(algorithm, 8);
+
+    return Buffer.concat([
+        keyTransitionContext, header,
+        Buffer.from(signerKeyId, "base64url"), Buffer.from(publicKey, "base64url"),
+    ]);
+}
 
-    return (function(): IVaultDataset {
-        // Currently only one protocol version, so no switch statement is needed.
-        // Modify this if additional serialization protocol versions must be supported.
-        if (protocolVersion !== 0)
+/**
+ * Follow the key transitions of a vault from its vault ID, checking the signature of each one.
+ * @returns The ID and algorithm of the key which signs the vault, or null if a transition is invalid.
+ */
+function resolveSigningKey(
+    vaultId: string, transitions: KeyTransition[]): { keyId: string, algorithm: VaultSignatureAlgorithm | null } | null
+{
+    let signer: { keyId: string, algorithm: VaultSignatureAlgorithm | null } = { keyId: vaultId, algorithm: null };
+    for (const [ index, transition ] of transitions.entries()) {
+        if (signer.algorithm !== null && signer.algorithm !== transition.signerAlgorithm) {
             return null;
-        return VaultDatasetV0.deserialize(content.slice(4));
-    })();
+        }
+
+        const data = getKeyTransitionData(
+            index, signer.keyId, transition.signerAlgorithm, transition.algorithm, transition.publicKey);
+        if (!verifySignature(signer.keyId, transition.signerAlgorithm, data, transition.signature)) {
+            return null;
+        }
+        signer = { keyId: transition.publicKey, algorithm: transition.algorithm };
+    }
+
+    return signer;
+}
+
+function serializeKeyTransitions(transitions: KeyTransition[]): Buffer {
+    const count = Buffer.alloc(4);
+    count.writeInt32LE(transitions.length, 0);
+
+    return Buffer.concat([
+        count,
+        ...transitions.map(({ signerAlgorithm, algorithm, publicKey, signature }) => {
+            const key = Buffer.from(publicKey, "base64url");
+            const header = Buffer.alloc(16);
+            header.writeInt32LE(signerAlgorithm, 0);
+            header.writeInt32LE(algorithm, 4);
+            header.writeInt32LE(key.length, 8);
+            header.writeInt32LE(signature.length, 12);
+            return Buffer.concat([ header, key, signature ]);
+        }),
+    ]);
 }
 
-function createDataset(payload: Buffer, privateKey: Buffer): IVaultDataset {
-    return VaultDatasetV0.sign(payload, privateKey);
+function deserializeKeyTransitions(serialized: Buffer): KeyTransition[] {
+    const reader = new BufferReader(serialized, "Key transitions");
+    const count = reader.readInt32("transition count");
+
+    const transitions: KeyTransition[] = [];
+    for (let i = 0; i < count; i++) {
+        const signerAlgorithm = readSignatureAlgorithm(reader);
+        const algorithm = readSignatureAlgorithm(reader);
+        const keySize = reader.readSize("public key");
+        const signatureSize = reader.readSize("signature");
+        transitions.push({
+            signerAlgorithm,
+            algorithm,
+            publicKey: reader.readBytes(keySize, "public key").toString("base64url"),
+            signature: reader.readBytes(signatureSize, "signature"),
+        });
+    }
+
+    return transitions;
 }
 
-async function createNewIdentity(): Promise<[Buffer, Buffer]> {
+/**
+ * @name createNewIdentity
+ * @description Generate the signing key pair of a new vault.
+ *
+ * @param algorithm Algorithm which the vault will be signed with.
+ * @returns Promise which resolves to the public key, whose base64url encoding is the vault ID,
+ * and the private key in DER format.
+ */
+async function createNewIdentity(
+    algorithm: VaultSignatureAlgorithm = VaultSignatureAlgorithm.SHA512): Promise<[Buffer, Buffer]>
+{
+    if (algorithm === VaultSignatureAlgorithm.Ed25519) {
+        let keyOptions: ED25519KeyPairOptions<"der", "der"> = {
+            publicKeyEncoding: {
+                format: "der",
+                type: "spki",
+            },
+            privateKeyEncoding: {
+                format: "der",
+                type: "pkcs8",
+            },
+        };
+        return new Promise<[ Buffer, Buffer ]>(function (resolve, reject) {
+            generateKeyPair("ed25519", keyOptions, (err, publicKey, privateKey) => {
+                if (err) reject(err);
+                else {
+                    resolve([ publicKey.slice(ed25519SpkiPrefix.length), privateKey ]);
+                }
+            });
+        });
+    }
+
     let keyOptions: ECKeyPairOptions<"der", "der"> = {
         publicKeyEncoding: {
             format: "der",
@@ -146,8 +721,79 @@ function mapSignatureAlgo(algoNum: number): VaultSignatureAlgorithm {
     return VaultSignatureAlgorithm[VaultSignatureAlgorithm[algoNum]];
 }
 
+function readSignatureAlgorithm(reader: BufferReader): VaultSignatureAlgorithm {
+    const signatureAlgorithmId = reader.readInt32("signature algorithm");
+    const signatureAlgorithm = mapSignatureAlgo(signatureAlgorithmId);
+    if (signatureAlgorithm === undefined) {
+        throw new Error(`Vault data has unknown signature algorithm ${signatureAlgorithmId}`);
+    }
+    return signatureAlgorithm;
+}
+
+/**
+ * Read the private key of a vault, which is in PKCS#8 format for Ed25519 and SEC1 format for ECDSA.
+ */
+function readPrivateKey(privateKey: Buffer): KeyObject {
+    try {
+        return createPrivateKey({ key: privateKey, format: "der", type: "pkcs8" });
+    }
+    catch {
+        return createPrivateKey({ key: privateKey, format: "der", type: "sec1" });
+    }
+}
+
+function getKeyAlgorithm(key: KeyObject): VaultSignatureAlgorithm {
+    return key.asymmetricKeyType === "ed25519"
+        ? VaultSignatureAlgorithm.Ed25519
+        : VaultSignatureAlgorithm.SHA512;
+}
+
+/**
+ * Sign data with the private key of a vault, using the algorithm of the key.
+ * @returns The signature algorithm and signature.
+ */
+function createSignature(data: Buffer, privateKey: Buffer): [ VaultSignatureAlgorithm, Buffer ] {
+    const key = readPrivateKey(privateKey);
+    if (getKeyAlgorithm(key) === VaultSignatureAlgorithm.Ed25519) {
+        return [ VaultSignatureAlgorithm.Ed25519, sign(null, data, key) ];
+    }
+
+    let signer = createSign("SHA512");
+    signer.write(data);
+    signer.end();
+
+    return [ VaultSignatureAlgorithm.SHA512, Buffer.from(signer.sign(key)) ];
+}
+
+function verifySignature(vaultId: string, algorithm: VaultSignatureAlgorithm, data: Buffer, signature: Buffer): boolean {
+    try {
+        const key = VaultDatasetV0.derivePublicKey(vaultId, algorithm);
+        switch (algorithm) {
+            case VaultSignatureAlgorithm.Ed25519:
+                return verify(null, data, key, signature);
+            default:
+                return createVerify(VaultSignatureAlgorithm[algorithm])
+                    .update(data)
+                    .verify(key, signature);
+        }
+    }
+    catch (err) {
+        console.error(err);
+        return false;
+    }
+}
+
 export {
+    IVaultDataset,
+    KeyTransition,
+    VaultDatasetType,
+    VaultSignatureAlgorithm,
+    VaultMetadata,
+    VaultRecordType,
     deserialize,
     createDataset,
+    createKeyTransition,
+    continuesKeyTransitions,
+    hashDataset,
     createNewIdentity,
 };
@@ -39,6 +39,8 @@ import {
 import { ShellCommandServer } from "./server";
 import {
     generateNewIdentity,
+    loadIdentity,
+    DeviceIdentity,
     ServiceContainer,
     VaultService,
     IdentityService,
@@ -48,11 +50,14 @@ import {
 
     AdminDatabaseDocument,
     AdminService,
+    PairingService,
     DatabaseDocument,
     DatabaseContext,
+    defaultTrashRetentionDays,
 } from "./services";
 import { LoggingOptions } from "./logging";
 import PipeCommandServer from "./server/pipe";
+import { attachmentSizeLimits } from "./encryption/VaultIndex";
 
 
 interface CommandLineArgs {
@@ -63,6 +68,8 @@ interface CommandLineArgs {
     verbose: boolean;
     shell: boolean;
     rpc: number;
+    regenerate_identity: boolean;
+    trash_days: number;
 }
 
 
@@ -112,6 +119,15 @@ const parseCommandLineArgs = function(argv: string[] = process.argv.slice(2)): C
         type: "int",
         default: "5050",
     });
+    parser.add_argument("--regenerate-identity", {
+        help: "Discard the stored device identity (unique ID and TLS certificate) and generate a new one",
+        action: "store_true",
+    });
+    parser.add_argument("--trash-days", {
+        help: "Number of days for which deleted vaults and entries stay in the trash before they are purged",
+        type: "int",
+        default: defaultTrashRetentionDays,
+    });
 
     return parser.parse_args(argv) as CommandLineArgs;
 }
@@ -124,18 +140,28 @@ async function runShell(services: ServiceContainer): Promise<void> {
 
 function startService(services: ServiceContainer, rpcPort: number): Promise<grpc.Server> {
     const rpcServer: PipeCommandServer = new PipeCommandServer(services);
-    return rpcServer.useGrpc(new grpc.Server(), `127.0.0.1:${rpcPort}`);
+    // Messages may carry attached files up to their size limit, which is larger than gRPC's default limit
+    const server = new grpc.Server({ "grpc.max_receive_message_length": 2 * attachmentSizeLimits.max });
+    return rpcServer.useGrpc(server, `127.0.0.1:${rpcPort}`);
+}
+
+function resolveIdentity({ root_dir, in_memory, regenerate_identity }: CommandLineArgs): Promise<DeviceIdentity> {
+    // In-memory instances get a throwaway identity, same as their databases.
+    // This also allows several in-memory instances to share a root directory without sharing an identity.
+    if (in_memory) {
+        return generateNewIdentity(null);
+    }
+    return regenerate_identity
+        ? generateNewIdentity(root_dir)
+        : loadIdentity(root_dir);
 }
 
 const commandLineArgs = parseCommandLineArgs(process.argv.slice(2));
 
-generateNewIdentity(commandLineArgs.root_dir)
+resolveIdentity(commandLineArgs)
     .then(({ uniqueId, ...keyPair }) => {
-        // IMPORTANT: This line is to allow for self-signed certificates.
-        // Since we use TLS only for establishing an encrypted connection, not for validation,
-        // there is no need to validate the source. So, we set strict TLS to false.
-        process.env["NODE_TLS_REJECT_UNAUTHORIZED"] = "0";
-
+        // Peers use self-signed certificates, so TLS validation is not done globally.
+        // Instead, peer certificates are pinned to their unique IDs by the identity service.
         const {
             root_dir: rootPath,
             port: portNum,
@@ -143,6 +169,7 @@ generateNewIdentity(commandLineArgs.root_dir)
             in_memory: isInMemory,
             shell: useShell,
             rpc: rpcPort,
+            trash_days: trashRetentionDays,
             verbose,
         } = commandLineArgs;
         const loggingOptions: LoggingOptions = {
@@ -168,13 +195,15 @@ generateNewIdentity(commandLineArgs.root_dir)
             load: (name, opts) => new LocalDB(name, opts),
         };
 
+        const identity = new IdentityService(uniqueId, keyPair);
         return Promise.resolve(configureLogging({
                 vault: new VaultService(localDbContext),
-                identity: new IdentityService(uniqueId, keyPair),
-                activity: new ActivityService(bonjour(), uniqueId),
-                connection: new ConnectionService(),
+                identity,
+                activity: new ActivityService(bonjour(), identity),
+                connection: new ConnectionService(identity),
                 web: new WebService(express()),
                 admin: new AdminService(new AdminDB("info")),
+                pairing: new PairingService(identity),
             }, loggingOptions))
             .then(services => configureRoutes(services, {
                 portNum,
@@ -183,6 +212,7 @@ generateNewIdentity(commandLineArgs.root_dir)
                 pouch: LocalDB,
             }))
             .then(async services => {
+                services.vault.startTrashPurge(Math.max(0, trashRetentionDays));
                 const grpcServer = await startService(services, rpcPort);
                 if (useShell) {
                     await runShell(services);
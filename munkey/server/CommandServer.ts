@@ -9,14 +9,35 @@ import { DeviceDiscoveryDecl, PeerIdentityDecl, PeerVaultDecl } from "../discove
 import {
     ConnectionResult,
     ConnectionStatus,
+    PairingResult,
+    PairingSession,
+    PeerCertificateRecord,
+    PeerTrustAlert,
     ServiceContainer,
+    TrashedVault,
+    VaultConflict,
+    VaultDatabase,
     VaultOption,
     VaultResult,
     VaultStatus
 } from "../services";
 import { fail, failItem, Option, Result, Status, success, successItem } from "../error";
-import { deserialize } from "../encryption/serialize";
+import { continuesKeyTransitions, deserialize, IVaultDataset, VaultDatasetType } from "../encryption/serialize";
+import { attachmentSizeLimits } from "../encryption/VaultIndex";
+import {
+    compareKeySlots,
+    GeneratedPassword,
+    generatePassphrase,
+    generatePassword,
+    KeySlot,
+    PassphraseOptions,
+    PasswordOptions,
+} from "../encryption";
 
+// Limit on the number of passwords which one request can generate.
+const maxPasswordSuggestions = 100;
+// Limit on the size of a stored attachment, which leaves room for its encryption and signature.
+const maxAttachmentContentSize = attachmentSizeLimits.max + 64 * 1024;
 
 /**
  * Container for managing and dispatching external commands to the application.
@@ -41,8 +62,11 @@ abstract class CommandServer {
         }
 
         // Use the public key (vault ID, currently) to valildate the payload contents.
-        const dataset = deserialize(initialData);
-        if (!dataset.validate(vaultId)) {
+        const dataset = readDataset(initialData);
+        if (!dataset.success) {
+            return failItem({ message: dataset.message });
+        }
+        if (!dataset.data.validate(vaultId)) {
             return failItem({ message: "Failed to validate payload signature" });
         }
 
@@ -55,6 +79,7 @@ abstract class CommandServer {
             let x = await vaultResult.data.initialize(initialData);
             if (!x)
                 return failItem({ message: "Failed to initialize vault" });
+            await vaultResult.data.setAcceptedContent(dataset.data.version, initialData);
             return await this.services.activity.republish(this.services.identity.getId())
                 .then(() => successItem<string, VaultStatus>(vaultId, { message: "Vault created successfully" }))
                 .catch(() => failItem<string, VaultStatus>({ message: "Failed to republish vault" }));
@@ -70,6 +95,10 @@ abstract class CommandServer {
         }
     }
 
+    /**
+     * Move a vault to the trash, where it can be restored with {@link onUndeleteVault} until its retention period ends.
+     * The deletion replicates to the vault's peers, and the vault is no longer published to them.
+     */
     async onDeleteVault(vaultName: string): Promise<VaultOption<string>> {
         const vault = this.services.vault._getVaultByName(vaultName);
         if (!vault) {
@@ -79,7 +108,26 @@ abstract class CommandServer {
             });
         }
 
-        return vault.delete();
+        const result = await vault.trash();
+        return result.success ? republishVaults(this.services, result) : result;
+    }
+
+    async onUndeleteVault(vaultName: string): Promise<VaultOption<string>> {
+        const vault = this.services.vault._getVaultByName(vaultName);
+        if (!vault) {
+            return failItem<string, VaultStatus>({
+                message: `Could not resolve vault name ${vaultName}`,
+                status: VaultStatus.NOT_FOUND,
+            });
+        }
+
+        const result = await vault.undelete();
+        return result.success ? republishVaults(this.services, result) : result;
+    }
+
+    async onListTrashedVaults(): Promise<Option<TrashedVault[]>> {
+        const trashedVaults = await this.services.vault.getTrashedVaults();
+        return successItem(trashedVaults, { message: `${trashedVaults.length} vault(s) in the trash` });
     }
 
     async onListVaults(): Promise<Option<{ vaults: PeerVaultDecl[], connections: [string, string][] }>> {
@@ -138,16 +186,312 @@ abstract class CommandServer {
             });
         }
 
-        let dataset = deserialize(content);
-        if (!dataset.validate(vault.vaultId)) {
-            return fail({ message: "Vault signature is invalid" });
+        return writeContent(vaultName, vault, content, () => vault.setContent(content));
+    }
+
+    /**
+     * Replace the content of a vault with the same content, encrypted under a new password.
+     * The content is only replaced if the vault still holds the content which was re-encrypted,
+     * so that changes made in the meantime are not lost.
+     *
+     * @param vaultName Name of the vault to rekey.
+     * @param previousContent Content of the vault which was decrypted with the old password.
+     * @param content Re-encrypted and re-signed content of the vault.
+     */
+    async onRekeyVault(vaultName: string, previousContent: Buffer, content: Buffer): Promise<VaultResult> {
+        const vault = this.services.vault.getVaultByName(vaultName);
+        const currentContent = await vault?.getContent() ?? null;
+        if (vault && !currentContent?.equals(previousContent)) {
+            return {
+                status: VaultStatus.CONFLICT,
+                success: false,
+                message: `Vault ${vaultName} was changed while it was being rekeyed`,
+            };
+        }
+
+        return this.onSetContent(vaultName, content);
+    }
+
+    async onListKeySlots(vaultName: string): Promise<VaultOption<KeySlot[]>> {
+        const content = await this.onGetContent(vaultName);
+        if (!content.success) {
+            return failItem<KeySlot[], VaultStatus>({ status: content.status, message: content.message });
+        }
+
+        const slots = readKeySlots(content.data[0]);
+        if (!slots.success) {
+            return failItem<KeySlot[], VaultStatus>({ message: slots.message });
         }
+        return successItem(slots.data, { message: `Vault ${vaultName} has ${slots.data.length} key slot(s)` });
+    }
 
-        const result = await vault.setContent(content);
-        if (!result) {
-            return fail({ message: "Vault content update failed" });
+    /**
+     * Replace the content of a vault with content that has one or more new key slots.
+     * All other key slots must be kept as they were.
+     */
+    async onAddKeySlot(vaultName: string, previousContent: Buffer, content: Buffer): Promise<VaultResult> {
+        const [ previousSlots, slots ] = [ readKeySlots(previousContent), readKeySlots(content) ];
+        if (!previousSlots.success || !slots.success) {
+            return fail({ message: previousSlots.message ?? slots.message });
         }
-        return success({ message: "Vault content update succeeded" });
+
+        const { added, removed, modified } = compareKeySlots(previousSlots.data, slots.data);
+        if (added.length === 0 || removed.length > 0 || modified.length > 0) {
+            return fail({ message: "New content must only add key slots" });
+        }
+
+        return this.onRekeyVault(vaultName, previousContent, content);
+    }
+
+    /**
+     * Replace the content of a vault with content that no longer has the given key slot.
+     * All other key slots must be kept with their labels and roles, though they may hold new keys,
+     * and at least one must remain.
+     */
+    async onRevokeKeySlot(vaultName: string, slotId: number, previousContent: Buffer, content: Buffer): Promise<VaultResult> {
+        const [ previousSlots, slots ] = [ readKeySlots(previousContent), readKeySlots(content) ];
+        if (!previousSlots.success || !slots.success) {
+            return fail({ message: previousSlots.message ?? slots.message });
+        }
+
+        const { added, removed } = compareKeySlots(previousSlots.data, slots.data);
+        const changedRoles = slots.data.filter(({ slotId, label, readOnly, recovery }) => {
+            const previous = previousSlots.data.find(slot => slot.slotId === slotId);
+            return previous && (previous.label !== label || !!previous.readOnly !== !!readOnly || !!previous.recovery !== !!recovery);
+        });
+        if (slots.data.length === 0) {
+            return fail({ message: "Cannot revoke the last key slot of a vault" });
+        }
+        if (added.length > 0 || changedRoles.length > 0 || removed.length !== 1 || removed[0] !== slotId) {
+            return fail({ message: `New content must only revoke key slot ${slotId}` });
+        }
+
+        return this.onRekeyVault(vaultName, previousContent, content);
+    }
+
+    async onListEntries(vaultName: string): Promise<VaultOption<string[]>> {
+        const vault = this.services.vault.getVaultByName(vaultName);
+        if (!vault) {
+            return failItem<string[], VaultStatus>({
+                status: VaultStatus.NOT_FOUND,
+                message: `No vault found with name ${vaultName}`,
+            });
+        }
+
+        const entryIds = await vault.listEntries();
+        return successItem(entryIds, { message: `Vault ${vaultName} has ${entryIds.length} entry document(s)` });
+    }
+
+    async onGetEntry(vaultName: string, entryId: string): Promise<VaultOption<Buffer>> {
+        const vault = this.services.vault.getVaultByName(vaultName);
+        const content = await vault?.getEntry(entryId) ?? null;
+        if (content === null) {
+            return failItem<Buffer, VaultStatus>({
+                status: VaultStatus.NOT_FOUND,
+                message: vault ? `Vault ${vaultName} has no entry ${entryId}` : `No vault found with name ${vaultName}`,
+            });
+        }
+
+        return successItem(content, { message: "Entry retrieved successfully" });
+    }
+
+    /**
+     * Get the stored versions of an entry, starting with the given version and followed by the versions it replaced.
+     * The versions stay encrypted; clients check that each one is the version which the one before it replaced.
+     */
+    async onGetEntryHistory(vaultName: string, entryId: string): Promise<VaultOption<Buffer[]>> {
+        const vault = this.services.vault.getVaultByName(vaultName);
+        const history = await vault?.getEntryHistory(entryId) ?? [];
+        if (history.length === 0) {
+            return failItem<Buffer[], VaultStatus>({
+                status: VaultStatus.NOT_FOUND,
+                message: vault ? `Vault ${vaultName} has no entry ${entryId}` : `No vault found with name ${vaultName}`,
+            });
+        }
+
+        return successItem(history, { message: `Entry ${entryId} has ${history.length} stored version(s)` });
+    }
+
+    /**
+     * Write an entry of a vault whose entries are stored on their own.
+     * The entry is only part of the vault once the vault's index lists it, which is written with {@link onSetContent}.
+     */
+    async onPutEntry(vaultName: string, entryId: string, content: Buffer): Promise<VaultResult> {
+        const vault = this.services.vault.getVaultByName(vaultName);
+        if (!vault) {
+            return failNotFound(`No vault found with name ${vaultName}`);
+        }
+
+        const dataset = readDataset(content);
+        if (!dataset.success) {
+            return fail({ message: dataset.message });
+        }
+        if (dataset.data.datasetType !== VaultDatasetType.Entry) {
+            return fail({ message: "Entry content must be a single entry" });
+        }
+        if (!dataset.data.validate(vault.vaultId)) {
+            return failReadOnly(vaultName);
+        }
+
+        return await vault.putEntry(entryId, content)
+            ? success({ message: "Entry update succeeded" })
+            : fail({ message: "Entry update failed" });
+    }
+
+    async onGetAttachment(vaultName: string, attachmentId: string): Promise<VaultOption<Buffer>> {
+        const vault = this.services.vault.getVaultByName(vaultName);
+        const content = await vault?.getAttachment(attachmentId) ?? null;
+        if (content === null) {
+            return failItem<Buffer, VaultStatus>({
+                status: VaultStatus.NOT_FOUND,
+                message: vault ? `Vault ${vaultName} has no attachment ${attachmentId}` : `No vault found with name ${vaultName}`,
+            });
+        }
+
+        return successItem(content, { message: "Attachment retrieved" });
+    }
+
+    /**
+     * Write a file attached to an entry of a vault, which is too large to be stored in the entry.
+     * The file is only part of the vault once an entry lists it, which is written with {@link onPutEntry}.
+     */
+    async onPutAttachment(vaultName: string, attachmentId: string, content: Buffer): Promise<VaultResult> {
+        const vault = this.services.vault.getVaultByName(vaultName);
+        if (!vault) {
+            return failNotFound(`No vault found with name ${vaultName}`);
+        }
+        if (content.length > maxAttachmentContentSize) {
+            return fail({ message: `Attachments cannot be larger than ${attachmentSizeLimits.max} bytes` });
+        }
+
+        const dataset = readDataset(content);
+        if (!dataset.success) {
+            return fail({ message: dataset.message });
+        }
+        if (dataset.data.datasetType !== VaultDatasetType.Attachment) {
+            return fail({ message: "Attachment content must be a single attached file" });
+        }
+        if (!dataset.data.validate(vault.vaultId)) {
+            return failReadOnly(vaultName);
+        }
+
+        return await vault.putAttachment(attachmentId, content)
+            ? success({ message: "Attachment update succeeded" })
+            : fail({ message: "Attachment update failed" });
+    }
+
+    /**
+     * Delete a file attached to an entry which was purged, given the signed record of its purge.
+     */
+    async onDeleteAttachment(vaultName: string, attachmentId: string, purge: Buffer): Promise<VaultResult> {
+        const vault = this.services.vault.getVaultByName(vaultName);
+        if (!vault) {
+            return failNotFound(`No vault found with name ${vaultName}`);
+        }
+
+        return await vault.deleteAttachment(attachmentId, purge)
+            ? success({ message: "Attachment deleted" })
+            : failNotFound(`Vault ${vaultName} has no attachment ${attachmentId} which the record purges`);
+    }
+
+    async onDeleteEntry(vaultName: string, entryId: string): Promise<VaultResult> {
+        const vault = this.services.vault.getVaultByName(vaultName);
+        if (!vault) {
+            return failNotFound(`No vault found with name ${vaultName}`);
+        }
+
+        return await vault.deleteEntry(entryId)
+            ? success({ message: "Entry deleted" })
+            : failNotFound(`Vault ${vaultName} has no entry ${entryId}`);
+    }
+
+    /**
+     * Permanently delete an entry which was purged from the trash of a vault's index,
+     * along with the documents of its earlier versions, given the signed record of the purge of each version.
+     */
+    async onPurgeEntry(vaultName: string, entryId: string, purges: Buffer[]): Promise<VaultResult> {
+        const vault = this.services.vault.getVaultByName(vaultName);
+        if (!vault) {
+            return failNotFound(`No vault found with name ${vaultName}`);
+        }
+
+        return await vault.purgeEntry(entryId, purges)
+            ? success({ message: "Entry purged" })
+            : failNotFound(`Vault ${vaultName} has no entry ${entryId} whose versions the records purge`);
+    }
+
+    /**
+     * Get the versions of a vault's content which were written concurrently, for a client to merge.
+     * @returns Option which holds the conflicting versions, or null if the vault has none.
+     */
+    async onGetConflicts(vaultName: string): Promise<VaultOption<VaultConflict | null>> {
+        const vault = this.services.vault.getVaultByName(vaultName);
+        if (!vault) {
+            return failItem<VaultConflict | null, VaultStatus>({
+                status: VaultStatus.NOT_FOUND,
+                message: `No vault found with name ${vaultName}`,
+            });
+        }
+
+        const conflict = await vault.getConflicts();
+        return successItem(conflict, {
+            message: conflict
+                ? `Vault ${vaultName} has ${conflict.conflicts.length + 1} conflicting versions`
+                : `Vault ${vaultName} has no conflicting versions`,
+        });
+    }
+
+    /**
+     * Replace the conflicting versions of a vault's content with content which a client merged from them.
+     * The content is only replaced if the vault's conflicting revisions are still the ones which were merged,
+     * so that versions received in the meantime are not lost.
+     *
+     * @param vaultName Name of the vault.
+     * @param revisions Every revision which was merged, including the current revision.
+     * @param content Merged and signed content of the vault.
+     */
+    async onResolveConflicts(vaultName: string, revisions: string[], content: Buffer): Promise<VaultResult> {
+        const vault = this.services.vault.getVaultByName(vaultName);
+        if (!vault) {
+            return failNotFound(`No vault found with name ${vaultName}`);
+        }
+
+        const conflict = await vault.getConflicts();
+        if (!conflict) {
+            return {
+                status: VaultStatus.CONFLICT,
+                success: false,
+                message: `Vault ${vaultName} has no conflicting versions to merge`,
+            };
+        }
+
+        const conflicting = [ conflict.current, ...conflict.conflicts ].map(({ rev }) => rev);
+        if (conflicting.length !== revisions.length || !conflicting.every(rev => revisions.includes(rev))) {
+            return {
+                status: VaultStatus.CONFLICT,
+                success: false,
+                message: `The conflicting versions of ${vaultName} changed while they were being merged`,
+            };
+        }
+
+        return writeContent(vaultName, vault, content,
+            () => vault.resolveConflicts(content, conflict.conflicts.map(({ rev }) => rev)));
+    }
+
+    /**
+     * Generate suggestions for a new password, which clients offer before the user picks one to store.
+     * Fails with the reason if the options are invalid.
+     */
+    async onGeneratePasswords(count: number, options: Partial<PasswordOptions>): Promise<Option<GeneratedPassword[]>> {
+        return generateSuggestions(count, () => generatePassword(options));
+    }
+
+    /**
+     * Generate suggestions for a new diceware-style passphrase.
+     * Fails with the reason if the options are invalid.
+     */
+    async onGeneratePassphrases(count: number, options: Partial<PassphraseOptions>): Promise<Option<GeneratedPassword[]>> {
+        return generateSuggestions(count, () => generatePassphrase(options));
     }
 
     async onVaultLink(
@@ -186,7 +530,9 @@ abstract class CommandServer {
                 await new Promise<void>((resolve, reject) => {
                     const onFirstPull = (success: boolean) => success ? resolve() : reject("Initial replication failed");
                     this.services.connection
-                        .publishDatabaseConnection({ hostname, portNum }, vaultName, vaultId, localVault.vault, onFirstPull)
+                        .publishDatabaseConnection(
+                            { hostname, portNum, uniqueId: activeDevice.uniqueId },
+                            vaultName, vaultId, localVault.vault, onFirstPull)
                         .catch(err => reject(err));
                 }).catch(err => console.error(err));
             }
@@ -242,14 +588,63 @@ abstract class CommandServer {
     }
 
     async onPeerLink(hostname: string, portNum: number): Promise<Result> {
+        const alertCount = this.services.identity.getTrustAlerts().length;
         const response: PeerIdentityDecl|null = await this.services.activity
             .publishDevice({ hostname, portNum });
 
+        if (response === null && this.services.identity.getTrustAlerts().length > alertCount) {
+            return fail({
+                message: `Refused to link with peer ${hostname}:${portNum}: ` +
+                    "its certificate does not match the one it presented before",
+            });
+        }
         return response === null
-            ? { status: Status.FAILURE, success: false, message: `Failed to link with peer ${hostname}:${portNum}` }
+            ? {
+                status: Status.FAILURE,
+                success: false,
+                message: `Failed to link with peer ${hostname}:${portNum}; peers must be paired before linking`,
+            }
             : { status: Status.SUCCESS, success: true, message: `Successfully linked with peer ${hostname}:${portNum}` };
     }
 
+    async onPeerPair(hostname: string, portNum: number): Promise<Option<PairingSession>> {
+        return this.services.pairing.startPairing(hostname, portNum);
+    }
+
+    async onPeerPairConfirm(pairingId: string, accepted: boolean): Promise<PairingResult> {
+        return this.services.pairing.confirmPairing(pairingId, accepted);
+    }
+
+    async onPeerPairings(): Promise<Option<PairingSession[]>> {
+        const pairings = this.services.pairing.getPairings();
+
+        return pairings.length > 0
+            ? successItem(pairings, { message: "Pending pairings enumerated successfully" })
+            : failItem({ message: "No pending pairings" });
+    }
+
+    async onPeerTrustList(): Promise<Option<PeerCertificateRecord[]>> {
+        const records = this.services.identity.getPeerCertificates();
+
+        return records.length > 0
+            ? successItem(records, { message: "Trusted peer list enumerated successfully" })
+            : failItem({ message: "No trusted peers found" });
+    }
+
+    async onPeerForget(uniqueId: string): Promise<Result> {
+        return await this.services.identity.forgetPeer(uniqueId)
+            ? success({ message: `Peer ${uniqueId} is no longer trusted` })
+            : fail({ message: `Peer ${uniqueId} is not trusted` });
+    }
+
+    async onPeerAlerts(): Promise<Option<PeerTrustAlert[]>> {
+        const alerts = this.services.identity.getTrustAlerts();
+
+        return alerts.length > 0
+            ? successItem(alerts, { message: `${alerts.length} certificate mismatch(es) detected` })
+            : failItem({ message: "No certificate mismatches detected" });
+    }
+
     async onPeerList(): Promise<Option<(PeerIdentityDecl & DeviceDiscoveryDecl)[]>> {
         const deviceList = Array.from(this.services.activity.getAllDevices()).map(([peer, device]) => ({
                 uniqueId: device.uniqueId,
@@ -280,4 +675,101 @@ abstract class CommandServer {
 
 }
 
+function generateSuggestions(count: number, generate: () => GeneratedPassword): Option<GeneratedPassword[]> {
+    if (!Number.isInteger(count) || count < 1 || count > maxPasswordSuggestions) {
+        return failItem({ message: `Between 1 and ${maxPasswordSuggestions} suggestions can be generated at once` });
+    }
+
+    try {
+        const suggestions = Array.from({ length: count }, generate);
+        return successItem(suggestions, { message: `Generated ${count} suggestion(s)` });
+    }
+    catch (err) {
+        return failItem({ message: err.message });
+    }
+}
+
+/**
+ * Read a serialized vault, failing with the reason if it is truncated or malformed.
+ */
+function readDataset(content: Buffer): Option<IVaultDataset> {
+    try {
+        return successItem(deserialize(content));
+    }
+    catch (err) {
+        return failItem({ message: err.message });
+    }
+}
+
+/**
+ * Check content written by a local client, then write it with the given function.
+ * The content must be signed by the vault, must not be older than content which was already accepted,
+ * and must keep the signing key transitions which were already accepted.
+ */
+async function writeContent(
+    vaultName: string, vault: VaultDatabase, content: Buffer, write: () => Promise<boolean>): Promise<VaultResult>
+{
+    const dataset = readDataset(content);
+    if (!dataset.success) {
+        return fail({ message: dataset.message });
+    }
+    if (!dataset.data.validate(vault.vaultId)) {
+        return failReadOnly(vaultName);
+    }
+    if (dataset.data.datasetType === VaultDatasetType.Entry || dataset.data.datasetType === VaultDatasetType.Attachment) {
+        return fail({ message: "Vault content must be the whole vault or its index, not a single entry or attachment" });
+    }
+    if (await vault.isRollback(dataset.data.version, "a local client")) {
+        return {
+            status: VaultStatus.CONFLICT,
+            success: false,
+            message: `Vault content is older than the content of ${vaultName} which was already accepted`,
+        };
+    }
+    const accepted = await vault.getAcceptedContent();
+    if (accepted && !continuesKeyTransitions(deserialize(accepted.content), dataset.data)) {
+        return fail({ message: "Vault content does not keep the signing key transitions which were already accepted" });
+    }
+
+    const result = await write();
+    if (!result) {
+        return fail({ message: "Vault content update failed" });
+    }
+    await vault.setAcceptedContent(dataset.data.version, content);
+    return success({ message: "Vault content update succeeded" });
+}
+
+/**
+ * Publish the list of active vaults to peers again after it changed, passing through the result of the change.
+ * The change stands even if a peer cannot be reached, as peers receive the list when they next link.
+ */
+function republishVaults<T>(services: ServiceContainer, result: VaultOption<T>): Promise<VaultOption<T>> {
+    return services.activity.republish(services.identity.getId())
+        .then(() => result)
+        .catch(() => ({ ...result, message: `${result.message}; failed to republish vaults to peers` }));
+}
+
+function failNotFound(message: string): VaultResult {
+    return { status: VaultStatus.NOT_FOUND, success: false, message };
+}
+
+/**
+ * Result for content which is not signed by the vault's signing key.
+ * Read-only members can decrypt a vault, but cannot sign changes to it.
+ */
+function failReadOnly(vaultName: string): VaultResult {
+    return {
+        status: VaultStatus.READ_ONLY,
+        success: false,
+        message: `Vault ${vaultName} is read-only: the content is not signed by the vault's signing key`,
+    };
+}
+
+function readKeySlots(content: Buffer): Option<KeySlot[]> {
+    const dataset = readDataset(content);
+    return dataset.success
+        ? successItem(dataset.data.unwrap().slots ?? [])
+        : failItem({ message: dataset.message });
+}
+
 export default CommandServer;
@@ -1,17 +1,151 @@
+import { createReadStream, promises as fs } from "fs";
+import path from "path";
 import { createInterface, Interface } from "readline";
 import { Readable, Writable } from "stream";
 
 import CommandServer from "./CommandServer";
 import { DeviceDiscoveryDecl } from "../discovery";
-import { ServiceContainer } from "../services";
+import { PairingSession, PeerTrustAlert, ServiceContainer } from "../services";
+import { VaultDatabase } from "../services/vault";
 import { Result } from "../error";
-import { EncryptionCipher, createPbkdf2Cipher } from "../encryption";
-import { deserialize, createDataset, createNewIdentity } from "../encryption/serialize";
+import {
+    EncryptionCipher,
+    VaultAlgorithm,
+    combineShares,
+    createKdfCipher,
+    decodeShare,
+    defaultKdfParameters,
+    defaultPbkdf2Parameters,
+    defaultVaultAlgorithm,
+    describeKdfParameters,
+    encodeShare,
+    getTotpCode,
+    isKeySlotPayload,
+    KdfAlgorithm,
+    kdfCostLimits,
+    KdfParameters,
+    KeySlotCipher,
+    parseTotpSecret,
+    PassphraseOptions,
+    PasswordOptions,
+    SecretShare,
+    splitSecret,
+    VaultPayload,
+} from "../encryption";
+import {
+    deserialize,
+    createDataset,
+    createNewIdentity,
+    createKeyTransition,
+    hashDataset,
+    IVaultDataset,
+    KeyTransition,
+    VaultDatasetType,
+    VaultSignatureAlgorithm,
+} from "../encryption/serialize";
+import {
+    attachmentSizeLimits,
+    createAttachment,
+    createEntry,
+    createEntryId,
+    createPurge,
+    createVaultIndex,
+    deserializeVaultIndex,
+    EntryVersion,
+    expireTrash,
+    mergeEntries,
+    mergeEntryKeys,
+    mergeTrash,
+    readAttachment,
+    readEntry,
+    readEntryHistory,
+    replaceEntryKey,
+    restoreFromTrash,
+    serializeVaultIndex,
+    TrashedEntry,
+    VaultIndex,
+} from "../encryption/VaultIndex";
+import {
+    createVaultEntry,
+    entriesEqual,
+    EntryAttachment,
+    entryFieldNames,
+    getEntryField,
+    isAttachmentName,
+    parseVaultEntry,
+    setEntryField,
+    VaultEntry,
+} from "../encryption/VaultEntry";
+import {
+    AuditOptions,
+    auditVaultEntries,
+    defaultAuditOptions,
+    findBreachedPasswords,
+    getBreachedPasswordPrefixes,
+    VaultAuditReport,
+} from "../encryption/VaultAudit";
+import { listFolder, searchEntries } from "../encryption/VaultSearch";
 
 type CommandReadCallback = ((sessionInterface: Interface) => Promise<any>) | null;
 type CommandEntry = ((args: string[]) => Promise<CommandReadCallback>) | CommandSet;
 type CommandSet = { [command: string]: CommandEntry };
 
+interface ActiveVault {
+    name: string;
+    cipher: EncryptionCipher;
+    // Cipher with a random salt, which replaces a legacy cipher the next time the vault is written.
+    upgradeCipher: EncryptionCipher | null;
+}
+type VaultCiphers = Pick<ActiveVault, "cipher" | "upgradeCipher">;
+
+interface VaultKeyParameters {
+    salt: Buffer;
+    algorithm: VaultAlgorithm;
+    kdf: KdfParameters | null;
+    // Current payload of the vault, if it has any content.
+    payload: VaultPayload | null;
+}
+
+interface DecryptedVault {
+    // Raw content of the vault, as it was read.
+    rawContent: Buffer;
+    dataset: IVaultDataset;
+    // Decrypted entries of the vault, and its private signing key.
+    // The signing key is null for read-only members, who cannot decrypt it.
+    content: Buffer;
+    privateKey: Buffer | null;
+}
+
+/**
+ * One of the conflicting versions of a vault, decrypted along with its entries.
+ */
+interface VaultVersion {
+    dataset: IVaultDataset;
+    privateKey: Buffer;
+    // Index of the version, which is new if the version keeps its entries in its own content.
+    index: VaultIndex;
+    entries: Map<string, VaultEntry>;
+}
+
+/**
+ * Active vault, decrypted to be read or changed.
+ */
+interface OpenedVault {
+    // Current dataset of the vault, or null if it has no content yet.
+    dataset: IVaultDataset | null;
+    // Private signing key, which is null for read-only members or a vault without content.
+    privateKey: Buffer | null;
+    index: VaultIndex;
+    // Entries of a vault which keeps them in its own content, which move to documents of their own when it is written.
+    legacyEntries: Map<string, VaultEntry>;
+}
+
+interface UnlockedVault {
+    password: string;
+    ciphers: VaultCiphers;
+    content: DecryptedVault;
+}
+
 class SilentTerminal {
     constructor(
         private silent: boolean = false,
@@ -42,31 +176,39 @@ class SilentTerminal {
 
 class ShellCommandServer extends CommandServer {
     private term: SilentTerminal;
-    private activeVault: {
-        name: string;
-        cipher: EncryptionCipher;
-    } | null;
+    private activeVault: ActiveVault | null;
+    private reportedAlertCount: number;
+    private reportedPairings: Set<string>;
 
     constructor(services: ServiceContainer) {
         super(services);
         this.term = new SilentTerminal(false);
         this.activeVault = null;
+        this.reportedAlertCount = 0;
+        this.reportedPairings = new Set<string>();
     }
 
-    public vaultNew([vaultName = null]: string[] = []): Promise<CommandReadCallback> {
+    public vaultNew([vaultName = null, signatureName = "ecdsa"]: string[] = []): Promise<CommandReadCallback> {
         if (vaultName === null) {
             console.error("Missing name for vault creation");
             return Promise.resolve(null);
         }
-        return Promise.resolve(stream => this
-            .promptPasswordCreation(stream)
-            .then(async cipher => {
-                let [ publicKey, privateKey ] = await createNewIdentity();
-                let data = Buffer.from(JSON.stringify({}));
-                data = EncryptionCipher.joinKey(data, privateKey);
-                data = EncryptionCipher.wrapPayload(await cipher._encrypt(data));
-
-                let dataset = createDataset(data, privateKey);
+        const signatureAlgorithm = parseSignatureAlgorithm(signatureName);
+        if (signatureAlgorithm === null) {
+            console.error(`Unknown signature algorithm: ${signatureName} (expected ecdsa or ed25519)`);
+            return Promise.resolve(null);
+        }
+        return Promise.resolve(stream => EncryptionCipher.createSalt()
+            .then(salt => this.promptPasswordCreation(stream, {
+                salt,
+                algorithm: defaultVaultAlgorithm,
+                kdf: defaultKdfParameters,
+                payload: null,
+            }))
+            .then(async ({ cipher }) => {
+                let [ publicKey, privateKey ] = await createNewIdentity(signatureAlgorithm);
+                let data = serializeVaultIndex(await createVaultIndex());
+                let dataset = await createVaultDataset(cipher, data, privateKey, null, null, VaultDatasetType.EntryIndex);
                 let vaultResult = await this.onCreateVault(vaultName, publicKey.toString("base64url"), dataset.serialize());
 
                 if (vaultResult.success) {
@@ -76,6 +218,7 @@ class ShellCommandServer extends CommandServer {
                     this.activeVault = {
                         name: vaultName,
                         cipher,
+                        upgradeCipher: null,
                     };
                 }
                 else {
@@ -85,24 +228,40 @@ class ShellCommandServer extends CommandServer {
             }));
     }
 
-    public vaultLogin([vaultName = null]: string[] = []): Promise<CommandReadCallback> {
+    public async vaultLogin([vaultName = null]: string[] = []): Promise<CommandReadCallback> {
         if (vaultName === null) {
             console.error("Missing name for vault login");
-            return Promise.resolve(null);
+            return null;
         }
-        if (!this.services.vault.getVaultByName(vaultName)) {
+        const vault = this.services.vault.getVaultByName(vaultName);
+        if (!vault) {
             console.error(`Vault not found: ${vaultName}`);
-            return Promise.resolve(null);
+            return null;
+        }
+        else if (await vault.getDeletionTime()) {
+            console.error(`Vault ${vaultName} is in the trash; restore it with: vault undelete ${vaultName}`);
+            return null;
         }
 
-        return Promise.resolve(stream => this.promptPasswordCreation(stream)
-            .then(async cipher => {
-                this.activeVault = {
-                    name: vaultName,
-                    cipher,
-                };
+        return stream => this.getVaultKeyParameters(vaultName)
+            .then(parameters => this.promptPasswordCreation(stream, parameters))
+            .then(async ciphers => {
+                if (ciphers) {
+                    this.activeVault = {
+                        name: vaultName,
+                        ...ciphers,
+                    };
+                    if (isReadOnlyCipher(ciphers.cipher)) {
+                        console.info("Logged in with a read-only key slot; the vault can be read but not changed.");
+                    }
+                    if ((await this.onGetConflicts(vaultName)).data) {
+                        console.info("The vault has conflicting versions from devices which changed it at the same time. " +
+                            "Use the command 'vault merge' to merge them.");
+                    }
+                    await this.purgeExpiredEntries();
+                }
                 return null;
-            }));
+            });
     }
 
     public async vaultDelete([vaultName = null]: string[] = []): Promise<CommandReadCallback> {
@@ -113,7 +272,8 @@ class ShellCommandServer extends CommandServer {
 
         const vaultResult = await this.onDeleteVault(vaultName);
         if (vaultResult.success) {
-            console.info(`Successfully deleted vault ${vaultName} (${vaultResult.unpack("[unknown_id]")})`);
+            console.info(`Moved vault ${vaultName} (${vaultResult.unpack("[unknown_id]")}) to the trash; ` +
+                `restore it within ${this.services.vault.getTrashRetentionDays()} days with: vault undelete ${vaultName}`);
             if (vaultName === this.activeVault?.name)
                 this.activeVault = null;
         }
@@ -123,438 +283,2299 @@ class ShellCommandServer extends CommandServer {
         return null;
     }
 
-    public async vaultSet([entryKey = null, entryData = null]: string[] = []): Promise<CommandReadCallback> {
-        if (entryKey === null || entryData === null) {
-            console.error(`Missing ${entryKey ? "data" : "key name"} for entry creation`);
-            return Promise.resolve(null);
-        }
-        else if (!this.activeVault) {
-            console.error("No vault selected");
-            return Promise.resolve(null);
+    public async vaultUndelete([vaultName = null]: string[] = []): Promise<CommandReadCallback> {
+        if (vaultName === null) {
+            console.error("Missing name of the vault to restore");
+            return null;
         }
 
-        const vault = this.services.vault.getVaultByName(this.activeVault?.name);
-        if (!vault) {
-            console.error(`Could not resolve vault ID: ${this.activeVault}`);
-            return Promise.resolve(null);
+        const vaultResult = await this.onUndeleteVault(vaultName);
+        if (vaultResult.success) {
+            console.info(`Restored vault ${vaultName} (${vaultResult.unpack("[unknown_id]")}) from the trash`);
         }
+        else {
+            console.error("Failed to restore vault: ", vaultResult.message);
+        }
+        return null;
+    }
 
-        let privateKey: Buffer = null;
-        let content: { [key: string]: any } | null = await vault.getContent()
-            .then(async rawContent => {
-                if (!rawContent)
-                    return {};
-
-                let content = deserialize(rawContent);
-                if (!content.validate(vault.vaultId)) {
-                    console.error("Vault signature is invalid!");
-                    return null;
-                }
-
-                let decryptedContent = await this.activeVault?.cipher._decrypt(content.unwrap());
-                if (!decryptedContent) {
-                    console.error("Bad password! Use the command 'vault login' to try a different password.");
-                    return null;
-                }
-
-                try {
-                    [ privateKey, decryptedContent ] = EncryptionCipher.splitKey(decryptedContent);
-                    return JSON.parse(decryptedContent.toString());
-                }
-                catch {
-                    console.error("Database contents are corrupt!");
-                    return null;
-                }
-            })
-            .catch(err => {
-                console.error(err);
-                return null;
-            });
+    public async vaultRm([entryKey = null]: string[] = []): Promise<CommandReadCallback> {
+        if (entryKey === null) {
+            console.error("Missing key name for entry deletion");
+            return null;
+        }
 
-        if (!content || !privateKey) {
-            console.error("Failed to retrieve vault content.");
-            return Promise.resolve(null);
+        const opened = await this.openWritableVault();
+        if (!opened) {
+            return null;
+        }
+        else if (!opened.index.entries.has(entryKey)) {
+            console.error(opened.legacyEntries.has(entryKey)
+                ? `Entry ${entryKey} cannot be deleted yet, as the vault keeps every entry in a single document; set an entry to move them`
+                : `Vault has no entry ${entryKey}`);
+            return null;
         }
 
         try {
-            content = { ...content, [entryKey]: entryData };
-            let data = Buffer.from(JSON.stringify(content));
-            let payload = await this.activeVault?.cipher._encrypt(EncryptionCipher.joinKey(data, privateKey));
-            let dataset = createDataset(EncryptionCipher.wrapPayload(payload), privateKey);
-
-            await vault.setContent(dataset.serialize());
-            console.info(`[${entryKey}] = ${entryData}`);
+            if (await this.writeActiveVaultEntries(opened, opened.index, new Map([ [ entryKey, null ] ]))) {
+                console.info(`Moved entry ${entryKey} to the trash; restore it within ` +
+                    `${this.services.vault.getTrashRetentionDays()} days with: vault restore ${entryKey}`);
+            }
         }
         catch (err) {
             console.error("Failed to set vault content: ", err);
         }
+        return null;
+    }
 
-        return Promise.resolve(null);
+    public async vaultTrash(): Promise<CommandReadCallback> {
+        const trashedVaults = (await this.onListTrashedVaults()).unpack([]);
+        const opened = this.activeVault && await this.openActiveVault(this.services.vault.getVaultByName(this.activeVault.name));
+        const trashedEntries = opened?.index.trash ?? new Map<string, TrashedEntry>();
+        const retention = this.services.vault.getTrashRetentionDays();
+
+        if (trashedVaults.length === 0 && trashedEntries.size === 0) {
+            console.info("The trash is empty");
+        }
+        if (trashedVaults.length > 0) {
+            console.info(":: :: Vaults in the Trash :: ::");
+        }
+        for (const { nickname, vaultId, deleted, expires } of trashedVaults) {
+            console.info(`   "${nickname}" = Vault[${vaultId}], deleted ${deleted.toISOString()}, purged after ${expires.toISOString()}`);
+        }
+        if (trashedEntries.size > 0) {
+            console.info(`:: :: Entries of ${this.activeVault.name} in the Trash :: ::`);
+        }
+        trashedEntries.forEach(({ deleted }, name) => {
+            const expires = new Date(deleted.getTime() + retention * 24 * 60 * 60 * 1000);
+            console.info(`   ${name}, deleted ${deleted.toISOString()}, purged after ${expires.toISOString()}`);
+        });
+        return null;
     }
 
-    public vaultGet([entryKey = null]: string[]): Promise<CommandReadCallback> {
+    public async vaultSet([entryKey = null, ...args]: string[] = []): Promise<CommandReadCallback> {
+        const [ field, words ] = args.length > 0 && args[0].startsWith("--")
+            ? [ args[0].slice(2), args.slice(1) ]
+            : [ "password", args ];
+        const entryData = words.length > 0 ? words.join(" ") : null;
         if (entryKey === null) {
-            console.error("Missing key name for entry retrieval");
+            console.error("Missing key name for entry creation");
             return Promise.resolve(null);
         }
-        else if (!this.activeVault) {
-            console.error("No vault selected");
+        else if (entryData === null) {
+            console.error(`Missing data for field ${field}`);
             return Promise.resolve(null);
         }
-
-        const vault = this.services.vault.getVaultByName(this.activeVault?.name);
-        if (!vault) {
-            console.error("Current vault could not be resolved");
+        else if (!field || field === "created" || field === "modified" || field === "attachments") {
+            console.error(`Field ${field} cannot be set`);
+            return Promise.resolve(null);
+        }
+        else if (field === "otp" && !isTotpSecret(entryData)) {
             return Promise.resolve(null);
         }
 
-        return vault.getContent()
-            .then(rawContent => {
-                if (!rawContent) {
-                    console.error("No vault data found!");
-                    return null;
-                }
+        const entry = await this.updateVaultEntry(entryKey, async current =>
+            setEntryField(current ?? createVaultEntry(entryKey), field, entryData));
+        if (entry) {
+            console.info(`[${entryKey}] ${field} = ${entryData}`);
+        }
+        return null;
+    }
 
-                const content = deserialize(rawContent);
-                if (!content.validate(vault.vaultId)) {
-                    console.error("Vault signature is invalid!");
-                    return null;
-                }
+    public async vaultAttach(
+        [entryKey = null, file = null, name = file && path.basename(file)]: string[] = []): Promise<CommandReadCallback>
+    {
+        if (entryKey === null || file === null) {
+            console.error(`Missing ${entryKey ? "file" : "key name"} to attach`);
+            return null;
+        }
+        else if (!isAttachmentName(name)) {
+            console.error(`Invalid attachment name: ${name}`);
+            return null;
+        }
 
-                return this.activeVault?.cipher
-                    ._decrypt(content.unwrap());
+        const content = await fs.stat(file)
+            .then(stats => {
+                if (!stats.isFile()) {
+                    throw new Error(`${file} is not a file`);
+                }
+                else if (stats.size > attachmentSizeLimits.max) {
+                    throw new Error(`${file} is larger than the limit of ${attachmentSizeLimits.max} bytes for attachments`);
+                }
+                return fs.readFile(file);
             })
-            .then(content => {
-                if (content) {
-                    let privateKey: Buffer;
-                    [ privateKey, content ] = EncryptionCipher.splitKey(content);
-                    content = JSON.parse(content.toString());
-                    if (content[entryKey]) {
-                        console.info(`[${entryKey}] = ${content[entryKey]}`);
-                    } else {
-                        console.info(`Vault has no entry ${entryKey}`);
-                    }
+            .catch(err => {
+                console.error("Failed to read the file to attach: ", err.message);
+                return null;
+            });
+        if (!content) {
+            return null;
+        }
+
+        const vaultName = this.activeVault?.name;
+        const entry = await this.updateVaultEntry(entryKey, async (current, { index, privateKey, dataset }) => {
+            if (!current) {
+                console.error(`Vault has no entry ${entryKey}`);
+                return undefined;
+            }
+
+            let attachment: EntryAttachment = { name, size: content.length, data: content, attachmentId: null, hash: null };
+            if (content.length > attachmentSizeLimits.inline) {
+                const stored = await createAttachment(index, content, privateKey, dataset?.keyTransitions ?? []);
+                const attachmentId = createEntryId();
+                const result = await this.onPutAttachment(vaultName, attachmentId, stored.serialize());
+                if (!result.success) {
+                    console.error("Failed to write the attachment: ", result.message);
+                    return undefined;
                 }
+                attachment = { name, size: content.length, data: null, attachmentId, hash: hashDataset(stored) };
+            }
 
-                return null;
-            })
-            .catch(err => console.error(err));
+            const attachments = current.attachments.filter(other => other.name !== name);
+            return { ...current, attachments: [ ...attachments, attachment ], modified: new Date() };
+        });
+        if (entry) {
+            console.info(`Attached ${name} (${content.length} bytes) to entry ${entryKey}`);
+        }
+        return null;
     }
 
-    public vaultLink([linkTarget = null, ...rest]: string[]): Promise<CommandReadCallback> {
-        if (linkTarget === null) {
-            console.error("Missing link target for vault link");
-            return Promise.resolve(null);
+    public async vaultExtract([entryKey = null, name = null, output = name]: string[] = []): Promise<CommandReadCallback> {
+        if (entryKey === null || name === null) {
+            console.error(`Missing ${entryKey ? "attachment name" : "key name"} to extract`);
+            return null;
+        }
+        else if (!this.activeVault) {
+            console.error("No vault selected");
+            return null;
         }
 
-        const [vaultName, connection]: string[] = linkTarget.split("@");
-        if (vaultName.trim().length === 0) {
-            console.error("Missing vault name from link target");
-            return Promise.resolve(null);
+        const vault = this.services.vault.getVaultByName(this.activeVault.name);
+        const opened = vault && await this.openActiveVault(vault);
+        if (!opened) {
+            return null;
         }
 
-        let hostname: string, portNum: number;
         try {
-            [hostname, portNum] = this.resolveHost(connection);
-        }
-        catch (err) {
-            // There's still hope; try to resolve the vault name from the APL
-            let vaultsFound: DeviceDiscoveryDecl[] = [];
-            for (let [vaultId, device] of this.services.activity.resolveVaultName(vaultName)) {
-                console.info(`  * RemoteVault[${vaultId}]@${device.hostname}:${device.portNum}`);
-                vaultsFound.push(device);
+            const entry = await readVaultEntry(vault, [ opened.index, opened.legacyEntries ], entryKey);
+            const attachment = entry?.attachments.find(other => other.name === name);
+            if (!attachment) {
+                console.error(entry ? `Entry ${entryKey} has no attachment ${name}` : `Vault has no entry ${entryKey}`);
+                return null;
             }
 
-            // TODO: when >1 device resolved, prompt the user to pick a vault from the list
-            // For now, we just pick the last one from the list.
-            ({ hostname, portNum } = vaultsFound.pop() ?? {});
-            if (!hostname || !portNum) {
-                console.error(`Failed to resolve ${vaultName} to a remote vault`);
-                return Promise.resolve(null);
+            const stored = attachment.attachmentId && await vault.getAttachment(attachment.attachmentId);
+            if (attachment.attachmentId && !stored) {
+                console.error(`Attachment ${name} has not been received from the vault's peers yet`);
+                return null;
             }
+            const content = await readAttachment(opened.index, attachment, stored || null, vault.vaultId);
+            // The file is only readable by its owner, and an existing file is never overwritten
+            await fs.writeFile(output, content, { flag: "wx", mode: 0o600 });
+            console.info(`Extracted ${name} (${content.length} bytes) to ${output}`);
+        }
+        catch (err) {
+            console.error("Failed to extract the attachment: ", err.message);
         }
+        return null;
+    }
 
-        const [subCommand = null, subArg]: (string | null)[] = rest;
-        if (subCommand?.toLowerCase() === "as" && !subArg) {
-            console.error("Missing local nickname for vault link");
-            return Promise.resolve(null);
+    public async vaultDetach([entryKey = null, name = null]: string[] = []): Promise<CommandReadCallback> {
+        if (entryKey === null || name === null) {
+            console.error(`Missing ${entryKey ? "attachment name" : "key name"} to detach`);
+            return null;
         }
 
-        return Promise.resolve(async (terminal: Interface): Promise<void> => {
-            let linkResult = await this.onVaultLink(hostname, portNum, vaultName, subArg);
-            let cipher: EncryptionCipher = null;
-            if (!linkResult.success) {
-                console.error(`Failed to link vault: ${linkResult.message ?? "An unknown error occurred"}`);
-            }
-            else if ((cipher = await this.promptPasswordCreation(terminal)) == null) {
-                console.error("Vault linking was successful, but the login attempt failed.");
-                console.error(`To try logging in again, use the command: vault login ${vaultName}`);
-            }
-            else {
-                this.activeVault = { name: vaultName, cipher };
-                console.info(`Vault link successful: ${vaultName}@${hostname}:${portNum}`);
+        const entry = await this.updateVaultEntry(entryKey, async current => {
+            if (!current?.attachments.some(other => other.name === name)) {
+                console.error(current ? `Entry ${entryKey} has no attachment ${name}` : `Vault has no entry ${entryKey}`);
+                return undefined;
             }
+            const attachments = current.attachments.filter(other => other.name !== name);
+            return { ...current, attachments, modified: new Date() };
         });
+        if (entry) {
+            console.info(`Detached ${name} from entry ${entryKey}`);
+        }
+        return null;
     }
 
-    public async vaultList(): Promise<null> {
-        const vaultList = await this.onListVaults();
-
-        if (!vaultList.success) {
-            console.error(vaultList.message);
+    public vaultKdf([kdfName = null, costArg = null]: string[] = []): Promise<CommandReadCallback> {
+        if (!this.activeVault) {
+            console.error("No vault selected");
+            return Promise.resolve(null);
+        }
+        if (kdfName === null) {
+            console.info(`Vault key derivation: ${describeKdfParameters(this.activeVault.cipher.getKdf())}`);
+            return Promise.resolve(null);
         }
-        else {
-            promptList(vaultList.data.vaults, "Active Vaults");
-            for (let vault of vaultList.data.vaults) {
-                console.info(
-                    ` ${vault.nickname === this.activeVault?.name ? "*" : " "} \"${vault.nickname}\" = Vault[${vault.vaultId}]`);
-            }
 
-            promptList(vaultList.data.connections, "Remote Vaults");
-            for (let [name, url] of vaultList.data.connections) {
-                console.info(`   ${url} = RemoteVault[${name}]`);
-            }
+        const kdf = parseKdfParameters(kdfName, costArg);
+        if (!kdf) {
+            console.error(`Unknown key derivation function: ${kdfName}; use one of: pbkdf2, scrypt`);
+            return Promise.resolve(null);
+        }
+        const [ minCost, maxCost ] = kdfCostLimits[kdf.kdf];
+        const cost = kdf.kdf === KdfAlgorithm.Scrypt ? kdf.cost : kdf.iterations;
+        if (!Number.isInteger(cost) || cost < minCost || cost > maxCost) {
+            console.error(`Cost for ${kdfName} must be a whole number from ${minCost} to ${maxCost}`);
+            return Promise.resolve(null);
         }
 
-        function promptList(list: any[], message: string) {
-            if (list.length > 0) {
-                console.info(`:: :: ${message} :: ::`);
+        const vaultName = this.activeVault.name;
+        return Promise.resolve(async (terminal: Interface): Promise<null> => {
+            const unlocked = await this.unlockVault(terminal, vaultName);
+            if (!unlocked) {
+                return null;
             }
-        }
 
-        return Promise.resolve(null);
+            const { password, ciphers: { cipher }, content } = unlocked;
+            const newCipher = cipher instanceof KeySlotCipher
+                ? await cipher.replaceSlot(password, kdf)
+                : await createKdfCipher(password, await EncryptionCipher.createSalt(), kdf);
+            if (await this.reencryptVault(vaultName, content, newCipher)) {
+                this.activeVault = { name: vaultName, cipher: newCipher, upgradeCipher: null };
+                console.info(`Vault key derivation changed to ${describeKdfParameters(kdf)}`);
+            }
+            return null;
+        });
     }
 
-    public peerLink([connection = null]: string[] = []): Promise<CommandReadCallback> {
-        if (connection === null) {
-            console.error("Missing connection string for peer link");
+    public vaultRotate([signatureName = null]: string[] = []): Promise<CommandReadCallback> {
+        if (!this.activeVault) {
+            console.error("No vault selected");
             return Promise.resolve(null);
         }
-
-        let hostname: string, portNum: number;
-        try {
-            [hostname, portNum] = this.resolveHost(connection);
-        }
-        catch (err) {
-            console.error("Failed to parse host string");
+        const signatureAlgorithm = signatureName !== null ? parseSignatureAlgorithm(signatureName) : null;
+        if (signatureName !== null && signatureAlgorithm === null) {
+            console.error(`Unknown signature algorithm: ${signatureName} (expected ecdsa or ed25519)`);
             return Promise.resolve(null);
         }
 
-        console.info(`Connecting to ${hostname}, port ${portNum}`);
-        return this.onPeerLink(hostname, portNum).then(result => {
-            if (result.success) {
-                console.info(result.message);
+        const vaultName = this.activeVault.name;
+        return Promise.resolve(async (terminal: Interface): Promise<null> => {
+            const unlocked = await this.unlockVault(terminal, vaultName);
+            if (!unlocked) {
+                return null;
             }
-            else {
-                console.error(result.message);
+
+            // The new key is handed the vault by the current key, so the vault ID stays the same.
+            const { ciphers: { cipher, upgradeCipher }, content } = unlocked;
+            const vaultId = this.services.vault.getVaultByName(vaultName).vaultId;
+            const algorithm = signatureAlgorithm ?? content.dataset.signatureAlgorithm;
+            const [ publicKey, privateKey ] = await createNewIdentity(algorithm);
+            const transition = createKeyTransition(vaultId, content.dataset, content.privateKey, publicKey, algorithm);
+            const newCipher = upgradeCipher ?? cipher;
+            try {
+                const dataset = await createVaultDataset(newCipher, content.content, privateKey, content.dataset, transition);
+                const result = await this.onRekeyVault(vaultName, content.rawContent, dataset.serialize());
+                if (!result.success) {
+                    console.error("Failed to set vault content: ", result.message);
+                    return null;
+                }
+            }
+            catch (err) {
+                console.error("Failed to set vault content: ", err);
+                return null;
             }
+
+            this.activeVault = { name: vaultName, cipher: newCipher, upgradeCipher: null };
+            console.info("Vault signing key replaced; the vault ID is unchanged");
             return null;
         });
     }
 
-    public async peerList(): Promise<void> {
-        const peerList = await this.onPeerList();
-
-        if (!peerList.success) {
-            console.error(`Failed to resolve peer list: ${peerList.message}`);
-            return;
+    public vaultPasswd(): Promise<CommandReadCallback> {
+        if (!this.activeVault) {
+            console.error("No vault selected");
+            return Promise.resolve(null);
         }
 
-        for (let { hostname, portNum, uniqueId, vaults } of peerList.unpack([])) {
-            console.info(` Peer[${uniqueId}]@${hostname}:${portNum}`);
-            for (let vault of vaults) {
-                console.info(`\t* "${vault.nickname}": Vault[${vault.vaultId}]`);
+        const vaultName = this.activeVault.name;
+        return Promise.resolve(async (terminal: Interface): Promise<null> => {
+            const unlocked = await this.unlockVault(terminal, vaultName, "Enter the current password: ");
+            const newPassword = unlocked ? await this.promptNewPassword(terminal) : null;
+            if (newPassword === null) {
+                return null;
             }
-        }
+
+            // The vault keeps its key derivation parameters, unless they are being upgraded.
+            // With key slots, only the password of the slot which was unlocked is changed.
+            const { ciphers: { cipher, upgradeCipher }, content } = unlocked;
+            const newCipher = cipher instanceof KeySlotCipher
+                ? await cipher.replaceSlot(newPassword)
+                : await createKdfCipher(newPassword, await EncryptionCipher.createSalt(), (upgradeCipher ?? cipher).getKdf());
+            if (await this.reencryptVault(vaultName, content, newCipher)) {
+                this.activeVault = { name: vaultName, cipher: newCipher, upgradeCipher: null };
+                console.info("Vault password changed");
+            }
+            return null;
+        });
+    }
+
+    public vaultSlotAdd([label = null, role = null]: string[] = []): Promise<CommandReadCallback> {
+        if (label === null) {
+            console.error("Missing label for the new key slot");
+            return Promise.resolve(null);
+        }
+        else if (role !== null && role !== "read-only") {
+            console.error(`Unknown key slot role: ${role} (expected read-only)`);
+            return Promise.resolve(null);
+        }
+        else if (!this.activeVault) {
+            console.error("No vault selected");
+            return Promise.resolve(null);
+        }
+
+        const vaultName = this.activeVault.name;
+        return Promise.resolve(async (terminal: Interface): Promise<null> => {
+            const unlocked = await this.unlockVault(terminal, vaultName, "Enter the current password: ");
+            const newPassword = unlocked ? await this.promptNewPassword(terminal) : null;
+            if (newPassword === null) {
+                return null;
+            }
+
+            const slotCipher = await getSlotCipher(unlocked);
+            const newCipher = await slotCipher.addSlot(newPassword, label, defaultKdfParameters, role === "read-only");
+            const submit = (previousContent: Buffer, newContent: Buffer) =>
+                this.onAddKeySlot(vaultName, previousContent, newContent);
+
+            if (await this.reencryptVault(vaultName, unlocked.content, newCipher, submit)) {
+                this.activeVault = { name: vaultName, cipher: newCipher, upgradeCipher: null };
+                console.info(`Key slot ${Math.max(...newCipher.getSlots().map(slot => slot.slotId))} added: ${label}`);
+            }
+            return null;
+        });
+    }
+
+    public async vaultSlotList(): Promise<null> {
+        if (!this.activeVault) {
+            console.error("No vault selected");
+            return null;
+        }
+
+        const slots = await this.onListKeySlots(this.activeVault.name);
+        if (!slots.success) {
+            console.error(slots.message);
+        }
+        else if (slots.data.length === 0) {
+            console.info("The vault has no key slots; it is unlocked by a single password.");
+        }
+        else {
+            const { cipher } = this.activeVault;
+            const activeSlotId = cipher instanceof KeySlotCipher ? cipher.getSlotId() : null;
+            for (const { slotId, label, key, readOnly, recovery } of slots.data) {
+                const kdf = EncryptionCipher.getPayloadKdf(key);
+                const role = readOnly ? " (read-only)" : recovery ? " (recovery)" : "";
+                console.info(` ${slotId === activeSlotId ? "*" : " "} [${slotId}] "${label}"${role} = ` +
+                    (kdf ? describeKdfParameters(kdf) : "unknown key derivation"));
+            }
+        }
+
+        return null;
+    }
+
+    public vaultSlotRevoke([slotArg = null]: string[] = []): Promise<CommandReadCallback> {
+        const slotId = parseInt(slotArg);
+        if (slotArg === null || isNaN(slotId)) {
+            console.error("Missing key slot ID to revoke");
+            return Promise.resolve(null);
+        }
+        else if (!this.activeVault) {
+            console.error("No vault selected");
+            return Promise.resolve(null);
+        }
+
+        const vaultName = this.activeVault.name;
+        return Promise.resolve(async (terminal: Interface): Promise<null> => {
+            const unlocked = await this.unlockVault(terminal, vaultName);
+            if (!unlocked) {
+                return null;
+            }
+
+            const { password, ciphers: { cipher }, content } = unlocked;
+            if (!(cipher instanceof KeySlotCipher) || !cipher.getSlots().some(slot => slot.slotId === slotId)) {
+                console.error(`Vault has no key slot ${slotId}`);
+                return null;
+            }
+            else if (slotId === cipher.getSlotId()) {
+                console.error("Cannot revoke the key slot which was used to log in; log in with another password first.");
+                return null;
+            }
+
+            // Whoever unlocked the vault with the revoked slot may have kept its keys, so the master key, the signing key
+            // and the entry key are all replaced. The own slot is sealed first, so that it can be given the new keys.
+            let newCipher: KeySlotCipher;
+            try {
+                newCipher = await (cipher.isSealed() ? cipher : await cipher.replaceSlot(password)).revokeSlots([ slotId ]);
+            }
+            catch (err) {
+                console.error(`Cannot revoke key slot ${slotId}: ${err.message}`);
+                return null;
+            }
+
+            const vaultId = this.services.vault.getVaultByName(vaultName).vaultId;
+            const { dataset } = content;
+            const [ publicKey, privateKey ] = await createNewIdentity(dataset.signatureAlgorithm);
+            const transition = createKeyTransition(vaultId, dataset, content.privateKey, publicKey, dataset.signatureAlgorithm);
+            const newContent = dataset.datasetType === VaultDatasetType.EntryIndex
+                ? serializeVaultIndex(await replaceEntryKey(deserializeVaultIndex(content.content)))
+                : content.content;
+
+            const submit = (previousContent: Buffer, newContent: Buffer) =>
+                this.onRevokeKeySlot(vaultName, slotId, previousContent, newContent);
+            if (await this.reencryptVault(vaultName, { ...content, content: newContent, privateKey }, newCipher, submit, transition)) {
+                this.activeVault = { name: vaultName, cipher: newCipher, upgradeCipher: null };
+                console.info(`Key slot ${slotId} revoked; the vault's keys were replaced, so its other members must log in again`);
+            }
+            return null;
+        });
+    }
+
+    public vaultRecoveryCreate([sharesArg = null]: string[] = []): Promise<CommandReadCallback> {
+        const [ , threshold, count ] = (sharesArg?.match(/^(\d+)-of-(\d+)$/) ?? []).map(Number);
+        if (!threshold || !count || threshold > count || count > 255) {
+            console.error("Expected the number of shares as N-of-M, such as 3-of-5, where N is at most M and M is at most 255");
+            return Promise.resolve(null);
+        }
+        else if (!this.activeVault) {
+            console.error("No vault selected");
+            return Promise.resolve(null);
+        }
+
+        const vaultName = this.activeVault.name;
+        return Promise.resolve(async (terminal: Interface): Promise<null> => {
+            const unlocked = await this.unlockVault(terminal, vaultName);
+            if (!unlocked) {
+                return null;
+            }
+
+            const secret = await KeySlotCipher.createRecoverySecret();
+            const newCipher = await (await getSlotCipher(unlocked)).setRecoverySlot(secret);
+            if (!await this.reencryptVault(vaultName, unlocked.content, newCipher)) {
+                return null;
+            }
+            this.activeVault = { name: vaultName, cipher: newCipher, upgradeCipher: null };
+
+            console.info(`Any ${threshold} of these ${count} shares restore access to vault ${vaultName}:`);
+            for (const share of splitSecret(secret, threshold, count)) {
+                console.info(` ${share.index}: ${encodeShare(share).join(" ")}`);
+            }
+            console.info("Write down each share and keep them in separate places. Any shares created earlier for this vault no longer work.");
+            return null;
+        });
+    }
+
+    public vaultRecoveryRestore([vaultName = null]: string[] = []): Promise<CommandReadCallback> {
+        if (vaultName === null) {
+            console.error("Missing name of the vault to restore");
+            return Promise.resolve(null);
+        }
+        if (!this.services.vault.getVaultByName(vaultName)) {
+            console.error(`Vault not found: ${vaultName}`);
+            return Promise.resolve(null);
+        }
+
+        return Promise.resolve(async (terminal: Interface): Promise<null> => {
+            const { payload } = await this.getVaultKeyParameters(vaultName);
+            if (!payload?.slots?.some(slot => slot.recovery)) {
+                console.error("The vault has no recovery shares; they are created with 'vault recovery create'.");
+                return null;
+            }
+            const shares = await this.promptShares(terminal);
+            if (!shares) {
+                return null;
+            }
+
+            let secret: Buffer;
+            try {
+                secret = combineShares(shares);
+            }
+            catch (err) {
+                console.error(err.message);
+                return null;
+            }
+
+            // The shares unlock the recovery slot, which holds the master key, so a new password slot can be added.
+            const cipher = await KeySlotCipher.openRecovery(secret, payload);
+            if (!cipher) {
+                console.error("The shares do not restore access to this vault.");
+                return null;
+            }
+            const content = await this.decryptVault(vaultName, cipher);
+            const newPassword = content ? await this.promptNewPassword(terminal) : null;
+            if (newPassword === null) {
+                return null;
+            }
+
+            const newCipher = await cipher.addSlot(newPassword, "restored");
+            const submit = (previousContent: Buffer, newContent: Buffer) =>
+                this.onAddKeySlot(vaultName, previousContent, newContent);
+            if (await this.reencryptVault(vaultName, content, newCipher, submit)) {
+                console.info(`Vault access restored; use the command 'vault login ${vaultName}' with the new password.`);
+                console.info("The recovery shares still unlock the vault; use 'vault recovery create' to replace them.");
+            }
+            return null;
+        });
+    }
+
+    public vaultGet([entryKey = null, fieldArg = null]: string[]): Promise<CommandReadCallback> {
+        if (entryKey === null) {
+            console.error("Missing key name for entry retrieval");
+            return Promise.resolve(null);
+        }
+        else if (fieldArg !== null && (!fieldArg.startsWith("--") || fieldArg.length < 3)) {
+            console.error(`Expected a field such as --username, not ${fieldArg}`);
+            return Promise.resolve(null);
+        }
+        else if (!this.activeVault) {
+            console.error("No vault selected");
+            return Promise.resolve(null);
+        }
+
+        const vault = this.services.vault.getVaultByName(this.activeVault?.name);
+        if (!vault) {
+            console.error("Current vault could not be resolved");
+            return Promise.resolve(null);
+        }
+
+        return vault.getContent()
+            .then(async rawContent => {
+                if (!rawContent) {
+                    console.error("No vault data found!");
+                    return null;
+                }
+
+                const content = deserialize(rawContent);
+                if (!content.validate(vault.vaultId)) {
+                    console.error("Vault signature is invalid!");
+                    return null;
+                }
+
+                const payload = content.unwrap();
+                if (!this.activeVault?.cipher.matchesPayload(payload)) {
+                    console.error(keyChangedMessage);
+                    return null;
+                }
+
+                const decryptedContent = await this.activeVault?.cipher._decrypt(payload);
+                if (!decryptedContent) {
+                    console.error(integrityFailedMessage);
+                    return undefined;
+                }
+                const opened = await openVaultIndex(content, getVaultEntries(content, decryptedContent));
+                return readVaultEntry(vault, opened, entryKey);
+            })
+            .then(entry => {
+                if (entry === null) {
+                    console.info(`Vault has no entry ${entryKey}`);
+                }
+                else if (entry && fieldArg !== null) {
+                    const field = fieldArg.slice(2);
+                    const value = getEntryField(entry, field);
+                    if (value === undefined) {
+                        console.info(`Entry ${entryKey} has no field ${field}`);
+                    } else {
+                        console.info(`[${entryKey}] ${field} = ${value}`);
+                    }
+                }
+                else if (entry) {
+                    printEntry(entryKey, entry);
+                }
+
+                return null;
+            })
+            .catch(err => console.error(err));
+    }
+
+    public async vaultHistory([entryKey = null]: string[] = []): Promise<CommandReadCallback> {
+        if (entryKey === null) {
+            console.error("Missing key name for entry history");
+            return null;
+        }
+        else if (!this.activeVault) {
+            console.error("No vault selected");
+            return null;
+        }
+
+        const history = await this.openEntryHistory(this.activeVault.name, entryKey);
+        history?.forEach(({ entry, device, version, modified }, i) => {
+            console.info(` ${version}: ${modified?.toISOString() ?? "unknown time"} by ${device ?? "unknown device"}` +
+                `${i === 0 ? " (current)" : ""}`);
+            printEntry(entryKey, entry, "    ");
+        });
+        return null;
+    }
+
+    public async vaultGen([entryKey = null, ...args]: string[] = []): Promise<CommandReadCallback> {
+        if (entryKey === null || entryKey.startsWith("--")) {
+            console.error("Missing key name for password generation");
+            return null;
+        }
+        else if (!this.activeVault) {
+            console.error("No vault selected");
+            return null;
+        }
+
+        const options = parseGeneratorOptions(args);
+        if (!options) {
+            return null;
+        }
+        const generated = options.passphrase
+            ? await this.onGeneratePassphrases(1, options.passphrase)
+            : await this.onGeneratePasswords(1, options.password);
+        if (!generated.success) {
+            console.error(generated.message);
+            return null;
+        }
+
+        const [ { value, entropy } ] = generated.data;
+        console.info(`Generated a ${options.passphrase ? "passphrase" : "password"} with about ${Math.floor(entropy)} bits of entropy`);
+        return this.vaultSet([ entryKey, "--password", value ]);
+    }
+
+    public async vaultLs([folder = ""]: string[] = []): Promise<CommandReadCallback> {
+        const entries = await this.readActiveVaultEntries();
+        if (!entries) {
+            return null;
+        }
+
+        const listing = listFolder(entries, folder);
+        if (listing.folders.length === 0 && listing.entries.length === 0) {
+            console.info(folder ? `Folder ${folder} has no entries` : "Vault has no entries");
+        }
+        listing.folders.forEach(name => console.info(`  ${name}/`));
+        listing.entries.forEach(name => {
+            const { username } = entries.get(name);
+            console.info(`  ${name}${username ? ` (${username})` : ""}`);
+        });
+        return null;
+    }
+
+    public async vaultFind(words: string[] = []): Promise<CommandReadCallback> {
+        const query = words.join(" ");
+        if (!query) {
+            console.error("Missing query for entry search");
+            return null;
+        }
+
+        const entries = await this.readActiveVaultEntries();
+        if (!entries) {
+            return null;
+        }
+
+        const results = searchEntries(entries, query);
+        if (results.length === 0) {
+            console.info(`No entries match ${query}`);
+        }
+        results.forEach(({ name, field }) => {
+            const { folder, username } = entries.get(name);
+            console.info(`  ${folder ? `${folder}/` : ""}${name}${username ? ` (${username})` : ""}, matched by ${field}`);
+        });
+        return null;
+    }
+
+    public async vaultAudit(args: string[] = []): Promise<CommandReadCallback> {
+        const options = parseAuditOptions(args);
+        const entries = options && await this.readActiveVaultEntries();
+        if (!entries) {
+            return null;
+        }
+
+        try {
+            const report = auditVaultEntries(entries, options);
+            if (options.breachedList) {
+                report.breached = await readBreachedPasswords(entries, options.breachedList);
+            }
+
+            if (options.json) {
+                console.info(JSON.stringify(report, null, 2));
+            } else {
+                printAuditReport(report, options);
+            }
+        }
+        catch (err) {
+            console.error("Failed to audit the vault: ", err);
+        }
+        return null;
+    }
+
+    public async vaultOtp([entryKey = null]: string[] = []): Promise<CommandReadCallback> {
+        if (entryKey === null) {
+            console.error("Missing key name for one-time password");
+            return null;
+        }
+        else if (!this.activeVault) {
+            console.error("No vault selected");
+            return null;
+        }
+
+        const vault = this.services.vault.getVaultByName(this.activeVault.name);
+        const opened = vault && await this.openActiveVault(vault);
+        if (!opened) {
+            return null;
+        }
+
+        try {
+            const entry = await readVaultEntry(vault, [ opened.index, opened.legacyEntries ], entryKey);
+            if (!entry) {
+                console.info(`Vault has no entry ${entryKey}`);
+            }
+            else if (!entry.otp) {
+                console.error(`Entry ${entryKey} has no one-time password secret; set one with: vault set ${entryKey} --otp <secret>`);
+            }
+            else {
+                const { code, remaining } = getTotpCode(entry.otp);
+                console.info(`[${entryKey}] ${code} (expires in ${remaining} s)`);
+            }
+        }
+        catch (err) {
+            console.error("Failed to generate one-time password: ", err);
+        }
+        return null;
+    }
+
+    public async vaultRestore([entryKey = null, versionArg = null]: string[] = []): Promise<CommandReadCallback> {
+        const version = Number(versionArg);
+        if (entryKey === null) {
+            console.error("Missing key name for entry restore");
+            return null;
+        }
+        else if (versionArg === null) {
+            return this.restoreTrashedEntry(entryKey);
+        }
+        else if (!Number.isInteger(version)) {
+            console.error(`Invalid version: ${versionArg}`);
+            return null;
+        }
+        else if (!this.activeVault) {
+            console.error("No vault selected");
+            return null;
+        }
+        else if (isReadOnlyCipher(this.activeVault.cipher)) {
+            console.error(readOnlyMessage);
+            return null;
+        }
+
+        const vaultName = this.activeVault.name;
+        const [ current, ...previous ] = await this.openEntryHistory(vaultName, entryKey) ?? [];
+        const restored = previous.find(entry => entry.version === version);
+        if (!current) {
+            return null;
+        }
+        else if (!restored) {
+            console.error(current.version === version
+                ? `Version ${version} is the current value of ${entryKey}`
+                : `Entry ${entryKey} has no stored version ${version}`);
+            return null;
+        }
+
+        const opened = await this.openActiveVault(this.services.vault.getVaultByName(vaultName));
+        if (!opened?.privateKey) {
+            console.error("Failed to retrieve vault content.");
+            return null;
+        }
+
+        try {
+            const entry = { ...restored.entry, modified: new Date() };
+            if (!await this.writeActiveVaultEntries(opened, opened.index, new Map([ [ entryKey, entry ] ]))) {
+                return null;
+            }
+            console.info(`Entry ${entryKey} restored from version ${version}`);
+            printEntry(entryKey, entry);
+        }
+        catch (err) {
+            console.error("Failed to set vault content: ", err);
+        }
+
+        return null;
+    }
+
+    public async vaultMerge(): Promise<CommandReadCallback> {
+        if (!this.activeVault) {
+            console.error("No vault selected");
+            return null;
+        }
+        else if (isReadOnlyCipher(this.activeVault.cipher)) {
+            console.error(readOnlyMessage);
+            return null;
+        }
+
+        const vaultName = this.activeVault.name;
+        const conflict = await this.onGetConflicts(vaultName);
+        if (!conflict.success) {
+            console.error("Failed to read conflicting versions: ", conflict.message);
+            return null;
+        }
+        else if (!conflict.data) {
+            console.info("Vault has no conflicting versions");
+            return null;
+        }
+
+        const { current, conflicts, base } = conflict.data;
+        const revisions = [ current, ...conflicts ];
+        try {
+            const versions: VaultVersion[] = [];
+            for (const { content } of revisions) {
+                versions.push(await this.openVaultVersion(vaultName, content));
+            }
+            const baseVersion = base && await this.openVaultVersion(vaultName, base).catch(() => null);
+            const { entries, conflicts: conflictingEntries } = mergeEntries(
+                baseVersion?.entries ?? new Map(), versions.map(({ entries }) => entries));
+
+            // Only entries which the merge changed are written again, on top of the current version's index.
+            const [ { index, entries: currentEntries } ] = versions;
+            const changes = new Map<string, VaultEntry | null>();
+            for (const [ name, entry ] of entries) {
+                if (!currentEntries.has(name) || !entriesEqual(currentEntries.get(name), entry) || !index.entries.has(name)) {
+                    changes.set(name, entry);
+                }
+            }
+            for (const name of currentEntries.keys()) {
+                if (!entries.has(name)) {
+                    changes.set(name, null);
+                }
+            }
+
+            // The merge follows the latest version, so that it is not taken for a rollback of any of them.
+            const latest = versions.reduce((latest, version) =>
+                version.dataset.version > latest.dataset.version ? version : latest);
+            const { upgradeCipher = null, cipher } = this.activeVault;
+            // Entries which any of the versions deleted stay in the trash, as they may only have been deleted by one device.
+            // Likewise, entries written with the entry key of any of the versions must stay readable.
+            const trash = mergeTrash(versions.map(({ index }) => index));
+            const previousEntryKeys = mergeEntryKeys(index, versions.map(({ index }) => index));
+            const written = await this.writeVaultEntries(
+                vaultName, { ...index, trash, previousEntryKeys }, changes, latest.privateKey, latest.dataset, upgradeCipher ?? cipher,
+                content => this.onResolveConflicts(vaultName, revisions.map(({ rev }) => rev), content));
+            if (!written) {
+                return null;
+            }
+
+            console.info(`Merged ${revisions.length} conflicting versions of the vault`);
+            for (const name of conflictingEntries) {
+                console.info(`Entry ${name} was changed differently by several devices; kept this change:`);
+                printEntry(name, entries.get(name), "    ");
+            }
+            if (upgradeCipher) {
+                this.activeVault = { ...this.activeVault, cipher: upgradeCipher, upgradeCipher: null };
+            }
+        }
+        catch (err) {
+            console.error("Failed to merge the conflicting versions of the vault: ", err);
+        }
+
+        return null;
+    }
+
+    public vaultLink([linkTarget = null, ...rest]: string[]): Promise<CommandReadCallback> {
+        if (linkTarget === null) {
+            console.error("Missing link target for vault link");
+            return Promise.resolve(null);
+        }
+
+        const [vaultName, connection]: string[] = linkTarget.split("@");
+        if (vaultName.trim().length === 0) {
+            console.error("Missing vault name from link target");
+            return Promise.resolve(null);
+        }
+
+        let hostname: string, portNum: number;
+        try {
+            [hostname, portNum] = this.resolveHost(connection);
+        }
+        catch (err) {
+            // There's still hope; try to resolve the vault name from the APL
+            let vaultsFound: DeviceDiscoveryDecl[] = [];
+            for (let [vaultId, device] of this.services.activity.resolveVaultName(vaultName)) {
+                console.info(`  * RemoteVault[${vaultId}]@${device.hostname}:${device.portNum}`);
+                vaultsFound.push(device);
+            }
+
+            // TODO: when >1 device resolved, prompt the user to pick a vault from the list
+            // For now, we just pick the last one from the list.
+            ({ hostname, portNum } = vaultsFound.pop() ?? {});
+            if (!hostname || !portNum) {
+                console.error(`Failed to resolve ${vaultName} to a remote vault`);
+                return Promise.resolve(null);
+            }
+        }
+
+        const [subCommand = null, subArg]: (string | null)[] = rest;
+        if (subCommand?.toLowerCase() === "as" && !subArg) {
+            console.error("Missing local nickname for vault link");
+            return Promise.resolve(null);
+        }
+
+        const localName = subArg ?? vaultName;
+        return Promise.resolve(async (terminal: Interface): Promise<void> => {
+            let linkResult = await this.onVaultLink(hostname, portNum, vaultName, subArg);
+            let ciphers: VaultCiphers = null;
+            if (!linkResult.success) {
+                console.error(`Failed to link vault: ${linkResult.message ?? "An unknown error occurred"}`);
+            }
+            else if ((ciphers = await this.promptPasswordCreation(terminal, await this.getVaultKeyParameters(localName))) == null) {
+                console.error("Vault linking was successful, but the login attempt failed.");
+                console.error(`To try logging in again, use the command: vault login ${localName}`);
+            }
+            else {
+                this.activeVault = { name: localName, ...ciphers };
+                console.info(`Vault link successful: ${vaultName}@${hostname}:${portNum}`);
+            }
+        });
+    }
+
+    public async vaultList(): Promise<null> {
+        const vaultList = await this.onListVaults();
+
+        if (!vaultList.success) {
+            console.error(vaultList.message);
+        }
+        else {
+            promptList(vaultList.data.vaults, "Active Vaults");
+            for (let vault of vaultList.data.vaults) {
+                console.info(
+                    ` ${vault.nickname === this.activeVault?.name ? "*" : " "} \"${vault.nickname}\" = Vault[${vault.vaultId}]`);
+            }
+
+            promptList(vaultList.data.connections, "Remote Vaults");
+            for (let [name, url] of vaultList.data.connections) {
+                console.info(`   ${url} = RemoteVault[${name}]`);
+            }
+        }
+
+        function promptList(list: any[], message: string) {
+            if (list.length > 0) {
+                console.info(`:: :: ${message} :: ::`);
+            }
+        }
+
+        return Promise.resolve(null);
+    }
+
+    public peerLink([connection = null]: string[] = []): Promise<CommandReadCallback> {
+        if (connection === null) {
+            console.error("Missing connection string for peer link");
+            return Promise.resolve(null);
+        }
+
+        let hostname: string, portNum: number;
+        try {
+            [hostname, portNum] = this.resolveHost(connection);
+        }
+        catch (err) {
+            console.error("Failed to parse host string");
+            return Promise.resolve(null);
+        }
+
+        console.info(`Connecting to ${hostname}, port ${portNum}`);
+        return this.onPeerLink(hostname, portNum).then(result => {
+            if (result.success) {
+                console.info(result.message);
+            }
+            else {
+                console.error(result.message);
+            }
+            return null;
+        });
+    }
+
+    public peerPair([connection = null]: string[] = []): Promise<CommandReadCallback> {
+        if (connection === null) {
+            console.error("Missing connection string for peer pair");
+            return Promise.resolve(null);
+        }
+
+        let hostname: string, portNum: number;
+        try {
+            [hostname, portNum] = this.resolveHost(connection);
+        }
+        catch (err) {
+            console.error("Failed to parse host string");
+            return Promise.resolve(null);
+        }
+
+        console.info(`Pairing with ${hostname}, port ${portNum}`);
+        return Promise.resolve(async (terminal: Interface): Promise<void> => {
+            const pairing = await this.onPeerPair(hostname, portNum);
+            if (!pairing.success) {
+                console.error(pairing.message);
+                return;
+            }
+
+            const { pairingId, uniqueId, code } = pairing.unpack(null);
+            console.info(`Pairing code for Peer[${uniqueId}]: ${formatPairingCode(code)}`);
+            console.info(`The other device should show the same code for pairing ${pairingId}.`);
+            process.stdout.write("Do the codes match? [y/N] ");
+            const answer = await new Promise<string>(resolve => terminal.once("line", resolve));
+
+            const result = await this.onPeerPairConfirm(pairingId, answer.trim().toLowerCase() === "y");
+            if (result.success) {
+                console.info(result.message);
+            }
+            else {
+                console.error(result.message);
+            }
+        });
+    }
+
+    public async peerPending(): Promise<void> {
+        const pairings = await this.onPeerPairings();
+
+        if (!pairings.success) {
+            console.info(pairings.message);
+            return;
+        }
+        for (let pairing of pairings.unpack([])) {
+            printPairing(pairing);
+        }
+    }
+
+    public async peerAccept([pairingId = null]: string[] = []): Promise<void> {
+        await this.confirmPairing(pairingId, true);
+    }
+
+    public async peerReject([pairingId = null]: string[] = []): Promise<void> {
+        await this.confirmPairing(pairingId, false);
+    }
+
+    private async confirmPairing(pairingId: string | null, accepted: boolean): Promise<void> {
+        if (pairingId === null) {
+            console.error("Missing pairing ID");
+            return;
+        }
+
+        const result = await this.onPeerPairConfirm(pairingId, accepted);
+        if (result.success) {
+            console.info(result.message);
+        }
+        else {
+            console.error(result.message);
+        }
+    }
+
+    /**
+     * Print any pairings requested by peers since the last time this was called,
+     * so that the user can compare codes without having to list them.
+     */
+    private reportPairings() {
+        const pairings = this.services.pairing.getPairings().filter(({ initiator }) => !initiator);
+        pairings
+            .filter(({ pairingId }) => !this.reportedPairings.has(pairingId))
+            .forEach(printPairing);
+        this.reportedPairings = new Set(pairings.map(({ pairingId }) => pairingId));
+    }
+
+    public async peerList(): Promise<void> {
+        const peerList = await this.onPeerList();
+
+        if (!peerList.success) {
+            console.error(`Failed to resolve peer list: ${peerList.message}`);
+            return;
+        }
+
+        for (let { hostname, portNum, uniqueId, vaults } of peerList.unpack([])) {
+            console.info(` Peer[${uniqueId}]@${hostname}:${portNum}`);
+            for (let vault of vaults) {
+                console.info(`\t* "${vault.nickname}": Vault[${vault.vaultId}]`);
+            }
+        }
+    }
+
+    public async peerTrust(): Promise<void> {
+        const trustList = await this.onPeerTrustList();
+
+        if (!trustList.success) {
+            console.error(trustList.message);
+            return;
+        }
+
+        for (let { uniqueId, fingerprint, firstSeen } of trustList.unpack([])) {
+            console.info(` Peer[${uniqueId}] (trusted since ${firstSeen})`);
+            console.info(`\t${fingerprint}`);
+        }
+    }
+
+    public async peerForget([uniqueId = null]: string[] = []): Promise<void> {
+        if (uniqueId === null) {
+            console.error("Missing peer ID to forget");
+            return;
+        }
+
+        const result = await this.onPeerForget(uniqueId);
+        if (result.success) {
+            console.info(result.message);
+        }
+        else {
+            console.error(result.message);
+        }
+    }
+
+    public async peerAlerts(): Promise<void> {
+        const alerts = await this.onPeerAlerts();
+
+        if (!alerts.success) {
+            console.info(alerts.message);
+            return;
+        }
+        for (let alert of alerts.unpack([])) {
+            printTrustAlert(alert);
+        }
+    }
+
+    /**
+     * Print any certificate mismatches raised since the last time this was called.
+     * Mismatches may be raised by background activity (such as peer discovery),
+     * so they are checked for between every command.
+     */
+    private reportTrustAlerts() {
+        const alerts = this.services.identity.getTrustAlerts();
+        alerts.slice(this.reportedAlertCount).forEach(printTrustAlert);
+        this.reportedAlertCount = alerts.length;
+    }
+
+    public async linkUp([portNum = null]: string[] = []): Promise<void> {
+        const portNumParsed: number = parseInt(portNum) || 8000;
+        const result = await this.onLinkUp(portNumParsed);
+        if (result.success) {
+            console.info(`Server now listening on port ${result.unpack(portNumParsed)}`);
+        }
+        else {
+            console.error(result.message);
+        }
+    }
+
+    public async linkDown(): Promise<void> {
+        const serverResult: Result = await this.onLinkDown();
+        if (serverResult.success) {
+            console.log("Server closed successfully");
+        }
+        else {
+            console.error(`Failed to close server: ${serverResult.message}`);
+        }
+    }
+
+    private commands: CommandSet = {
+        "vault": {
+            "new": this.vaultNew.bind(this),
+            "login": this.vaultLogin.bind(this),
+            "delete": this.vaultDelete.bind(this),
+            "undelete": this.vaultUndelete.bind(this),
+            "set": this.vaultSet.bind(this),
+            "get": this.vaultGet.bind(this),
+            "list": this.vaultList.bind(this),
+            "link": this.vaultLink.bind(this),
+            "kdf": this.vaultKdf.bind(this),
+            "passwd": this.vaultPasswd.bind(this),
+            "rotate": this.vaultRotate.bind(this),
+            "merge": this.vaultMerge.bind(this),
+            "history": this.vaultHistory.bind(this),
+            "otp": this.vaultOtp.bind(this),
+            "gen": this.vaultGen.bind(this),
+            "attach": this.vaultAttach.bind(this),
+            "extract": this.vaultExtract.bind(this),
+            "detach": this.vaultDetach.bind(this),
+            "audit": this.vaultAudit.bind(this),
+            "ls": this.vaultLs.bind(this),
+            "find": this.vaultFind.bind(this),
+            "restore": this.vaultRestore.bind(this),
+            "rm": this.vaultRm.bind(this),
+            "trash": this.vaultTrash.bind(this),
+            "slot": {
+                "add": this.vaultSlotAdd.bind(this),
+                "list": this.vaultSlotList.bind(this),
+                "revoke": this.vaultSlotRevoke.bind(this),
+            },
+            "recovery": {
+                "create": this.vaultRecoveryCreate.bind(this),
+                "restore": this.vaultRecoveryRestore.bind(this),
+            },
+        },
+        "link": {
+            "up": this.linkUp.bind(this),
+            "down": this.linkDown.bind(this),
+        },
+        "peer": {
+            "link": this.peerLink.bind(this),
+            "pair": this.peerPair.bind(this),
+            "pending": this.peerPending.bind(this),
+            "accept": this.peerAccept.bind(this),
+            "reject": this.peerReject.bind(this),
+            "list": this.peerList.bind(this),
+            "trust": this.peerTrust.bind(this),
+            "forget": this.peerForget.bind(this),
+            "alerts": this.peerAlerts.bind(this),
+        }
+    }
+
+    /**
+     * Perform command parsing on the provided readable stream.
+     * Resolves when the communication stream has been closed.
+     *
+     * The abstract method implementations will be invoked on their corresponding commands.
+     *
+     * @param stream Node.js Readable stream with expected user input.
+     * @returns Promise which resolves once the Readable stream has been closed.
+     */
+    public async useStream(stream: Readable): Promise<void> {
+        const commandInterface = createInterface({
+            input: stream,
+            output: this.term.createWritable(),
+            terminal: true,
+        });
+
+        const updatePrompt = () => commandInterface.setPrompt(`(${this.activeVault?.name ?? "mkey"}) % `);
+        updatePrompt();
+
+        // Entries of the active vault are purged from the trash between commands, as purging them writes the vault.
+        let commandRunning = false;
+        let purging = Promise.resolve();
+        const purgeTimer = setInterval(() => {
+            if (!commandRunning) {
+                purging = this.purgeExpiredEntries()
+                    .catch(err => console.error("Failed to purge the trash: ", err?.message ?? err));
+            }
+        }, entryPurgeInterval);
+        purgeTimer.unref();
+
+        const commandParseHandler = async function (input: string) {
+            commandInterface.removeListener("line", commandParseHandler);
+            commandRunning = true;
+            await purging;
+
+            const args: string[] = input
+                .trim()
+                .split(/\s+/g)
+                .filter(arg => arg.length > 0);
+
+            await this.parseCommand(args)
+                .then(async possiblyCallback => {
+                    if (!possiblyCallback) {
+                        return;
+                    }
+                    await possiblyCallback(commandInterface);
+                })
+                .catch(err => console.error(err));
+
+            commandRunning = false;
+            commandInterface.addListener("line", commandParseHandler);
+            this.reportTrustAlerts();
+            this.reportPairings();
+            updatePrompt();
+            commandInterface.prompt();
+        }.bind(this);
+
+        commandInterface.prompt();
+        await new Promise<void>(async (resolve, reject) => {
+                commandInterface
+                    .on("line", commandParseHandler)
+                    .on("pause", resolve)
+                    .on("error", reject);
+            })
+            .catch(err => {
+                if (err) {
+                    console.error("Error:", err);
+                }
+            });
+        clearInterval(purgeTimer);
+        commandInterface.close();
     }
 
-    public async linkUp([portNum = null]: string[] = []): Promise<void> {
-        const portNumParsed: number = parseInt(portNum) || 8000;
-        const result = await this.onLinkUp(portNumParsed);
-        if (result.success) {
-            console.info(`Server now listening on port ${result.unpack(portNumParsed)}`);
+    /**
+     * Process vault operation commands of the format `vault <...>`
+     *
+     * @param args List of args passed to the `vault` command
+     * I.e., `vault new vaultname` -> ["new", "vaultname"]
+     * @returns Promise corresponding to the given vault command.
+     */
+    private parseCommand(args: string[]): Promise<CommandReadCallback> {
+        let command: string,
+            commandArgs: string[] = args,
+            forward: CommandEntry = this.commands;
+        do {
+            [command, ...commandArgs] = commandArgs;
+            ({ [command]: forward } = forward);
+        } while (forward && !(forward instanceof Function));
+
+        return forward && forward instanceof Function
+            ? forward(commandArgs)
+            : this.onUnknownCommand(args).then(null);
+    }
+
+    private resolveHost(connection: string): [string, number] | null {
+        // List of errors is tracked rather than one error.
+        // This is because there is often >1 issue involved with parsing.
+        let errorsFound: string[] = [],
+            hostname: string,
+            portNum: string | number;
+        [hostname, portNum] = connection.split(":", 2);
+        portNum = parseInt(portNum) as number;
+
+        if (hostname.length < 1) {
+            errorsFound.push(`Could not parse hostname from connection string [${connection}]`);
+        }
+        if (isNaN(portNum)) {
+            errorsFound.push(`Could not parse port number from connection string [${connection}]`);
+        }
+
+        if (errorsFound.length > 0) {
+            for (let errString of errorsFound) {
+                console.error(errString);
+            }
+            return null;
+        }
+
+        return [hostname, portNum];
+    }
+
+    async onUnknownCommand([command = "unknown"]: string[] = []): Promise<void> {
+        if (["q", "quit", "exit"].includes(command?.toLowerCase())) {
+            await this.services.activity.stop();
+            console.info("Goodbye!");
+            process.exit(0);
+        }
+        else {
+            console.error("Unknown command");
+        }
+    }
+
+    async onStartup() {
+        return await new Promise<void>((resolve, reject) => {
+            process.stdout.write("% ", err => {
+                if (err) reject(err);
+                else {
+                    resolve();
+                }
+            });
+        });
+    }
+    afterEach = this.onStartup.bind(this);
+
+    /**
+     * Get the salt, algorithm and key derivation parameters which the given vault was encrypted with.
+     * A vault without any content yet gets a new random salt and the default parameters.
+     */
+    private async getVaultKeyParameters(vaultName: string): Promise<VaultKeyParameters> {
+        const rawContent = await this.services.vault.getVaultByName(vaultName)?.getContent()
+            .catch(() => null);
+        const payload = rawContent ? deserialize(rawContent).unwrap() : null;
+
+        return payload
+            ? {
+                salt: EncryptionCipher.getPayloadSalt(payload),
+                algorithm: payload.algorithm ?? defaultVaultAlgorithm,
+                kdf: EncryptionCipher.getPayloadKdf(payload),
+                payload,
+            }
+            : {
+                salt: await EncryptionCipher.createSalt(),
+                algorithm: defaultVaultAlgorithm,
+                kdf: defaultKdfParameters,
+                payload: null,
+            };
+    }
+
+    /**
+     * Derive the vault's ciphers from its password.
+     * If the vault still uses the legacy constant salt or an unauthenticated algorithm,
+     * a second cipher with a random salt and the default parameters is derived as well,
+     * so that the vault can be upgraded the next time it is written.
+     */
+    private async createVaultCiphers(
+        password: string, { salt, algorithm, kdf, payload }: VaultKeyParameters): Promise<VaultCiphers | null>
+    {
+        if (payload && isKeySlotPayload(payload.payloadType)) {
+            const cipher = await KeySlotCipher.open(password, payload);
+            if (!cipher) {
+                console.error("The password does not unlock any key slot of this vault.");
+                return null;
+            }
+            // Slots created before slots were sealed are sealed when the vault is next written,
+            // so that they can be given new keys when another slot is revoked.
+            const upgradeCipher = cipher.isSealed() || cipher.isReadOnly() ? null : await cipher.replaceSlot(password);
+            return { cipher, upgradeCipher };
+        }
+        if (!kdf) {
+            console.error("The vault uses an unknown key derivation function; update this device to log in.");
+            return null;
+        }
+
+        const cipher = await createKdfCipher(password, salt, kdf, algorithm);
+        const upgradeCipher = cipher.isLegacy()
+            ? await createKdfCipher(password, await EncryptionCipher.createSalt(), defaultKdfParameters)
+            : null;
+        return { cipher, upgradeCipher };
+    }
+
+    /**
+     * Prompt for a new password twice, and check that both match.
+     */
+    private async promptNewPassword(terminal: Interface): Promise<string | null> {
+        const password = await this.promptPassword(terminal, "Enter a new password: ");
+        if (password !== await this.promptPassword(terminal, "Confirm the new password: ")) {
+            console.error("Passwords do not match; nothing was changed.");
+            return null;
+        }
+        return password;
+    }
+
+    /**
+     * Prompt for the password of the given vault, and check that it decrypts the vault's current content
+     * along with its signing key, so that the vault can be changed.
+     *
+     * @returns Promise which resolves to the password, ciphers and content of the vault,
+     * or null if the vault could not be decrypted or the password only grants read access.
+     */
+    private async unlockVault(
+        terminal: Interface, vaultName: string, prompt?: string): Promise<UnlockedVault | null>
+    {
+        const password = await this.promptPassword(terminal, prompt);
+        const ciphers = password !== null
+            ? await this.createVaultCiphers(password, await this.getVaultKeyParameters(vaultName))
+            : null;
+        const content = ciphers ? await this.decryptVault(vaultName, ciphers.cipher) : null;
+        if (content && !content.privateKey) {
+            console.error(readOnlyMessage);
+            return null;
+        }
+
+        return content ? { password, ciphers, content } : null;
+    }
+
+    private async promptPassword(terminal: Interface, prompt: string = "Enter a password: "): Promise<string | null> {
+        process.stdout.write(prompt);
+        return new Promise<string | null>((resolve) => {
+            this.term.setSilent(true);
+            terminal.once("line", answer => resolve(answer));
+        })
+            .finally(() => {
+                process.stdout.write("\n");
+                this.term.setSilent(false)
+            });
+    }
+
+    /**
+     * Prompt for the shares of a recovery secret, one per line, until enough were entered to rebuild the secret.
+     * Mistyped shares are reported and prompted for again.
+     *
+     * @returns Promise which resolves to the shares, or null if an empty line was entered.
+     */
+    private async promptShares(terminal: Interface): Promise<SecretShare[] | null> {
+        const shares: SecretShare[] = [];
+        do {
+            const needed = shares.length > 0 ? ` of ${shares[0].threshold}` : "";
+            process.stdout.write(`Enter share ${shares.length + 1}${needed}: `);
+            const line = await new Promise<string>(resolve => terminal.once("line", resolve));
+            if (!line.trim()) {
+                return null;
+            }
+
+            try {
+                const share = decodeShare(line);
+                if (shares.some(entered => entered.index === share.index)) {
+                    console.error(`Share ${share.index} was already entered`);
+                }
+                else {
+                    shares.push(share);
+                }
+            }
+            catch (err) {
+                console.error(err.message);
+            }
+        } while (shares.length === 0 || shares.length < shares[0].threshold);
+
+        return shares;
+    }
+
+    /**
+     * Prompt for the vault password and derive the vault's ciphers from it.
+     */
+    private async promptPasswordCreation(terminal: Interface, parameters: VaultKeyParameters): Promise<VaultCiphers | null> {
+        return this.promptPassword(terminal)
+            .then(password => this.createVaultCiphers(password, parameters))
+            .catch(err => {
+                console.error("Error during password get: ", err);
+                return null;
+            });
+    }
+
+    /**
+     * Read and decrypt the content of the active vault, along with its index and signing key.
+     * The active vault's cipher is updated with any key slots which were added since it was unlocked.
+     *
+     * @returns Promise which resolves to the decrypted vault, or null if it could not be decrypted.
+     */
+    private async openActiveVault(vault: VaultDatabase): Promise<OpenedVault | null> {
+        return vault.getContent()
+            .then(async (rawContent): Promise<OpenedVault | null> => {
+                if (!rawContent) {
+                    return { dataset: null, privateKey: null, index: await createVaultIndex(), legacyEntries: new Map() };
+                }
+
+                let content = deserialize(rawContent);
+                if (!content.validate(vault.vaultId)) {
+                    console.error("Vault signature is invalid!");
+                    return null;
+                }
+
+                const payload = content.unwrap();
+                if (!this.activeVault?.cipher.matchesPayload(payload)) {
+                    console.error(keyChangedMessage);
+                    return null;
+                }
+                const { cipher, upgradeCipher } = this.activeVault;
+                this.activeVault = {
+                    ...this.activeVault,
+                    cipher: cipher.forPayload(payload),
+                    upgradeCipher: upgradeCipher?.forPayload(payload) ?? null,
+                };
+
+                let decryptedContent = await this.activeVault?.cipher._decrypt(payload);
+                if (!decryptedContent) {
+                    console.error(integrityFailedMessage);
+                    return null;
+                }
+
+                try {
+                    const [ privateKey, entries ] = await openSigningKey(this.activeVault.cipher, content, decryptedContent);
+                    const [ index, legacyEntries ] = await openVaultIndex(content, entries);
+                    return { dataset: content, privateKey, index, legacyEntries };
+                }
+                catch {
+                    console.error("Database contents are corrupt!");
+                    return null;
+                }
+            })
+            .catch(err => {
+                console.error(err);
+                return null;
+            });
+    }
+
+    /**
+     * Read and decrypt every entry of the active vault.
+     * @returns Promise which resolves to the entries by name, or null if they could not be read.
+     */
+    private async readActiveVaultEntries(): Promise<Map<string, VaultEntry> | null> {
+        if (!this.activeVault) {
+            console.error("No vault selected");
+            return null;
+        }
+
+        const vault = this.services.vault.getVaultByName(this.activeVault.name);
+        const opened = vault && await this.openActiveVault(vault);
+        if (!opened) {
+            return null;
+        }
+        return readAllVaultEntries(vault, [ opened.index, opened.legacyEntries ])
+            .catch(err => {
+                console.error("Failed to read the entries of the vault: ", err);
+                return null;
+            });
+    }
+
+    /**
+     * Read and check the stored versions of an entry of the active vault.
+     * @returns Promise which resolves to the versions of the entry, newest first, or null if they could not be read.
+     */
+    private async openEntryHistory(vaultName: string, entryKey: string): Promise<EntryVersion[] | null> {
+        const vault = this.services.vault.getVaultByName(vaultName);
+        const opened = vault && await this.openActiveVault(vault);
+        const entry = opened?.index.entries.get(entryKey);
+        if (!opened) {
+            return null;
+        }
+        else if (!entry) {
+            console.error(opened.legacyEntries.has(entryKey)
+                ? `Entry ${entryKey} has no history yet, as the vault keeps every entry in a single document; set an entry to move them`
+                : `Vault has no entry ${entryKey}`);
+            return null;
+        }
+
+        const history = await this.onGetEntryHistory(vaultName, entry.entryId);
+        if (!history.success) {
+            console.error(`Entry ${entryKey} has not been received from the vault's peers yet`);
+            return null;
+        }
+        return readEntryHistory(opened.index, entryKey, history.data, vault.vaultId)
+            .catch(err => {
+                console.error("Failed to read the history of the entry: ", err);
+                return null;
+            });
+    }
+
+    /**
+     * Read and decrypt the content of the given vault.
+     *
+     * @returns Promise which resolves to the raw and decrypted content of the vault,
+     * or null if the vault could not be decrypted.
+     */
+    private async decryptVault(vaultName: string, cipher: EncryptionCipher): Promise<DecryptedVault | null> {
+        const vault = this.services.vault.getVaultByName(vaultName);
+        const rawContent = await vault?.getContent().catch(() => null);
+        if (!rawContent) {
+            console.error("No vault data found!");
+            return null;
+        }
+
+        const dataset = deserialize(rawContent);
+        if (!dataset.validate(vault.vaultId)) {
+            console.error("Vault signature is invalid!");
+            return null;
+        }
+        const decryptedContent = await cipher._decrypt(dataset.unwrap());
+        if (!decryptedContent) {
+            console.error(integrityFailedMessage);
+            return null;
+        }
+
+        const [ privateKey, content ] = await openSigningKey(cipher, dataset, decryptedContent);
+        return { rawContent, dataset, content, privateKey };
+    }
+
+    /**
+     * Encrypt the decrypted content of the given vault again with a new cipher,
+     * re-sign it with the vault's private key and write it.
+     *
+     * @returns Promise which resolves to whether the vault was re-encrypted.
+     */
+    private async reencryptVault(
+        vaultName: string,
+        { rawContent, dataset: previousDataset, content, privateKey }: DecryptedVault,
+        newCipher: EncryptionCipher,
+        submit = (previousContent: Buffer, content: Buffer) => this.onRekeyVault(vaultName, previousContent, content),
+        transition: KeyTransition | null = null): Promise<boolean>
+    {
+        try {
+            const dataset = await createVaultDataset(newCipher, content, privateKey, previousDataset, transition);
+            const result = await submit(rawContent, dataset.serialize());
+            if (!result.success) {
+                console.error("Failed to set vault content: ", result.message);
+            }
+            return result.success;
+        }
+        catch (err) {
+            console.error("Failed to set vault content: ", err);
+            return false;
+        }
+    }
+
+    /**
+     * Change an entry of the active vault and write its new version. Vaults which keep every entry in their content
+     * have their entries moved to documents of their own, and vaults which are due an upgrade of their cipher are upgraded.
+     *
+     * @param update Function which returns the new version of the entry, given its current version, or null if it does
+     * not exist yet; it returns undefined to leave the vault as it was.
+     * @returns Promise which resolves to the new version of the entry, or null if it was not written.
+     */
+    private async updateVaultEntry(
+        entryKey: string,
+        update: (entry: VaultEntry | null, opened: OpenedVault) => Promise<VaultEntry | undefined>): Promise<VaultEntry | null>
+    {
+        if (!this.activeVault) {
+            console.error("No vault selected");
+            return null;
+        }
+        else if (isReadOnlyCipher(this.activeVault.cipher)) {
+            console.error(readOnlyMessage);
+            return null;
+        }
+
+        const vault = this.services.vault.getVaultByName(this.activeVault?.name);
+        if (!vault) {
+            console.error(`Could not resolve vault ID: ${this.activeVault}`);
+            return null;
+        }
+
+        const opened = await this.openActiveVault(vault);
+        if (!opened?.privateKey) {
+            console.error("Failed to retrieve vault content.");
+            return null;
+        }
+
+        const { dataset: previousDataset, privateKey, index, legacyEntries } = opened;
+        try {
+            const { upgradeCipher = null, cipher } = this.activeVault ?? {};
+            const entry = await update(await readVaultEntry(vault, [ index, legacyEntries ], entryKey), opened);
+            if (!entry) {
+                return null;
+            }
+
+            const changes = new Map(legacyEntries).set(entryKey, entry);
+            const written = await this.writeVaultEntries(
+                this.activeVault.name, index, changes, privateKey, previousDataset, upgradeCipher ?? cipher);
+            if (!written) {
+                return null;
+            }
+            if (previousDataset && previousDataset.datasetType !== VaultDatasetType.EntryIndex) {
+                console.info("Vault entries moved to documents of their own");
+            }
+            if (upgradeCipher) {
+                this.activeVault = { ...this.activeVault, cipher: upgradeCipher, upgradeCipher: null };
+                console.info("Vault upgraded to use its own password salt and authenticated encryption");
+            }
+            return entry;
         }
-        else {
-            console.error(result.message);
+        catch (err) {
+            console.error("Failed to set vault content: ", err);
+            return null;
         }
     }
 
-    public async linkDown(): Promise<void> {
-        const serverResult: Result = await this.onLinkDown();
-        if (serverResult.success) {
-            console.log("Server closed successfully");
+    /**
+     * Write new values of entries of the given vault, then a new version of its index which lists them.
+     * Each value is written to a new document, so that a failed write leaves the vault as it was.
+     * The documents of earlier values are kept, as versions of the index which other devices wrote
+     * at the same time may still list them. Entries which have been in the trash for longer than the retention period
+     * are purged once the index is written.
+     *
+     * @param values New versions of entries by name, or null for entries which are moved to the trash.
+     * @param previous Current dataset of the vault, if it has any content.
+     * @param submit Function which writes the content of the index.
+     * @returns Promise which resolves to whether the index was written.
+     */
+    private async writeVaultEntries(
+        vaultName: string,
+        index: VaultIndex,
+        values: Map<string, VaultEntry | null>,
+        privateKey: Buffer,
+        previous: IVaultDataset | null,
+        cipher: EncryptionCipher,
+        submit = (content: Buffer) => this.onSetContent(vaultName, content)): Promise<boolean>
+    {
+        const vault = this.services.vault.getVaultByName(vaultName);
+        const entries = new Map(index.entries);
+        const trash = new Map(index.trash);
+        const written: string[] = [];
+        const discard = () => Promise.all(written.map(entryId => this.onDeleteEntry(vaultName, entryId)));
+
+        for (const [ name, value ] of values) {
+            const current = index.entries.get(name);
+            if (value === null) {
+                entries.delete(name);
+                current && trash.set(name, { ...current, deleted: new Date() });
+                continue;
+            }
+
+            const currentContent = current ? await vault.getEntry(current.entryId) : null;
+            const entry = await createEntry(index, value, this.services.identity.getId(), privateKey,
+                previous?.keyTransitions ?? [], currentContent && deserialize(currentContent));
+
+            const entryId = createEntryId();
+            const result = await this.onPutEntry(vaultName, entryId, entry.serialize());
+            if (!result.success) {
+                console.error(`Failed to write entry ${name}: `, result.message);
+                await discard();
+                return false;
+            }
+            written.push(entryId);
+            entries.set(name, { entryId, hash: hashDataset(entry) });
         }
-        else {
-            console.error(`Failed to close server: ${serverResult.message}`);
+
+        // Entries which are listed again, such as by a merge with a version which restored them, are no longer deleted.
+        const listed = new Set([ ...entries.values() ].map(({ entryId }) => entryId));
+        const [ kept, expired ] = expireTrash(
+            new Map([ ...trash ].filter(([ , { entryId } ]) => !listed.has(entryId))),
+            this.services.vault.getTrashRetentionDays());
+
+        const content = serializeVaultIndex({ ...index, entries, trash: kept });
+        const dataset = await createVaultDataset(cipher, content, privateKey, previous, null, VaultDatasetType.EntryIndex);
+        const result = await submit(dataset.serialize());
+        if (!result.success) {
+            console.error("Failed to set vault content: ", result.message);
+            await discard();
+            return false;
         }
+
+        await this.purgeEntries(vaultName, index, expired, privateKey, dataset.keyTransitions);
+        return true;
     }
 
-    private commands: CommandSet = {
-        "vault": {
-            "new": this.vaultNew.bind(this),
-            "login": this.vaultLogin.bind(this),
-            "delete": this.vaultDelete.bind(this),
-            "set": this.vaultSet.bind(this),
-            "get": this.vaultGet.bind(this),
-            "list": this.vaultList.bind(this),
-            "link": this.vaultLink.bind(this),
-        },
-        "link": {
-            "up": this.linkUp.bind(this),
-            "down": this.linkDown.bind(this),
-        },
-        "peer": {
-            "link": this.peerLink.bind(this),
-            "list": this.peerList.bind(this),
+    /**
+     * Write changes to entries of the active vault on top of the given index, upgrading the vault's cipher if it is due.
+     * @returns Promise which resolves to whether the vault was written.
+     */
+    private async writeActiveVaultEntries(
+        opened: OpenedVault, index: VaultIndex, values: Map<string, VaultEntry | null>): Promise<boolean>
+    {
+        const { name, upgradeCipher = null, cipher } = this.activeVault;
+        const written = await this.writeVaultEntries(name, index, values, opened.privateKey, opened.dataset, upgradeCipher ?? cipher);
+        if (written && upgradeCipher) {
+            this.activeVault = { ...this.activeVault, cipher: upgradeCipher, upgradeCipher: null };
         }
+        return written;
     }
 
     /**
-     * Perform command parsing on the provided readable stream.
-     * Resolves when the communication stream has been closed.
-     *
-     * The abstract method implementations will be invoked on their corresponding commands.
-     *
-     * @param stream Node.js Readable stream with expected user input.
-     * @returns Promise which resolves once the Readable stream has been closed.
+     * Open the active vault to change it, which needs its private signing key.
+     * @returns Promise which resolves to the opened vault, or null if it cannot be changed.
      */
-    public async useStream(stream: Readable): Promise<void> {
-        const commandInterface = createInterface({
-            input: stream,
-            output: this.term.createWritable(),
-            terminal: true,
-        });
+    private async openWritableVault(): Promise<OpenedVault | null> {
+        if (!this.activeVault) {
+            console.error("No vault selected");
+            return null;
+        }
+        else if (isReadOnlyCipher(this.activeVault.cipher)) {
+            console.error(readOnlyMessage);
+            return null;
+        }
 
-        const updatePrompt = () => commandInterface.setPrompt(`(${this.activeVault?.name ?? "mkey"}) % `);
-        updatePrompt();
+        const vault = this.services.vault.getVaultByName(this.activeVault.name);
+        const opened = vault && await this.openActiveVault(vault);
+        if (!opened?.privateKey) {
+            console.error("Failed to retrieve vault content.");
+            return null;
+        }
+        return opened;
+    }
 
-        const commandParseHandler = async function (input: string) {
-            commandInterface.removeListener("line", commandParseHandler);
+    /**
+     * Move an entry of the active vault back from the trash.
+     */
+    private async restoreTrashedEntry(entryKey: string): Promise<CommandReadCallback> {
+        const opened = await this.openWritableVault();
+        if (!opened) {
+            return null;
+        }
 
-            const args: string[] = input
-                .trim()
-                .split(/\s+/g)
-                .filter(arg => arg.length > 0);
+        try {
+            if (await this.writeActiveVaultEntries(opened, restoreFromTrash(opened.index, entryKey), new Map())) {
+                console.info(`Entry ${entryKey} restored from the trash`);
+            }
+        }
+        catch (err) {
+            console.error("Failed to restore the entry: ", err.message);
+        }
+        return null;
+    }
 
-            await this.parseCommand(args)
-                .then(async possiblyCallback => {
-                    if (!possiblyCallback) {
-                        return;
-                    }
-                    await possiblyCallback(commandInterface);
-                })
-                .catch(err => console.error(err));
+    /**
+     * Purge the entries of the active vault which have been in the trash for longer than the retention period.
+     * The trash is part of the vault's encrypted index, which only clients can read, so entries are purged
+     * whenever the vault is written, when a member who can change the vault logs in, and at an interval while they stay
+     * logged in. Vaults with conflicting versions are left until they are merged.
+     */
+    private async purgeExpiredEntries(): Promise<void> {
+        if (!this.activeVault || isReadOnlyCipher(this.activeVault.cipher)
+            || (await this.onGetConflicts(this.activeVault.name)).data)
+        {
+            return;
+        }
+        const opened = await this.openWritableVault();
+        const [ , expired ] = opened ? expireTrash(opened.index.trash, this.services.vault.getTrashRetentionDays()) : [];
+        if (expired?.size > 0) {
+            await this.writeActiveVaultEntries(opened, opened.index, new Map())
+                .catch(err => console.error("Failed to purge the trash: ", err));
+        }
+    }
 
-            commandInterface.addListener("line", commandParseHandler);
-            updatePrompt();
-            commandInterface.prompt();
-        }.bind(this);
+    /**
+     * Delete entries which were purged from the trash of the given vault's index, along with their earlier versions
+     * and the files attached to them. Failures are only reported, as the index no longer lists the entries.
+     * Each document is deleted along with a record of its purge signed by the vault, so that peers delete it too.
+     */
+    private async purgeEntries(
+        vaultName: string, index: VaultIndex, purged: Map<string, TrashedEntry>, privateKey: Buffer,
+        keyTransitions: KeyTransition[]): Promise<void>
+    {
+        const vault = this.services.vault.getVaultByName(vaultName);
+        const createPurgeOf = async (content: Buffer) =>
+            (await createPurge(index, deserialize(content), privateKey, keyTransitions)).serialize();
+
+        for (const [ name, trashed ] of purged) {
+            try {
+                const history = await this.onGetEntryHistory(vaultName, trashed.entryId);
+                const trashIndex = { ...index, entries: new Map([ [ name, trashed ] ]) };
+                const versions = history.success ? await readEntryHistory(trashIndex, name, history.data, vault.vaultId) : [];
+
+                const attachmentIds = new Set<string>();
+                versions.forEach(({ entry }) => entry.attachments.forEach(({ attachmentId }) =>
+                    attachmentId && attachmentIds.add(attachmentId)));
+                for (const attachmentId of attachmentIds) {
+                    const content = await vault.getAttachment(attachmentId);
+                    content && await this.onDeleteAttachment(vaultName, attachmentId, await createPurgeOf(content));
+                }
 
-        commandInterface.prompt();
-        await new Promise<void>(async (resolve, reject) => {
-                commandInterface
-                    .on("line", commandParseHandler)
-                    .on("pause", resolve)
-                    .on("error", reject);
-            })
-            .catch(err => {
-                if (err) {
-                    console.error("Error:", err);
+                const purges = await Promise.all((history.success ? history.data : []).map(createPurgeOf));
+                const result = await this.onPurgeEntry(vaultName, trashed.entryId, purges);
+                if (!result.success) {
+                    console.error(`Failed to purge entry ${name}: `, result.message);
+                    continue;
                 }
-            });
-        commandInterface.close();
+                console.info(`Purged entry ${name} from the trash`);
+            }
+            catch (err) {
+                console.error(`Failed to purge entry ${name}: `, err.message);
+            }
+        }
     }
 
     /**
-     * Process vault operation commands of the format `vault <...>`
-     *
-     * @param args List of args passed to the `vault` command
-     * I.e., `vault new vaultname` -> ["new", "vaultname"]
-     * @returns Promise corresponding to the given vault command.
+     * Decrypt one of the conflicting versions of a vault, along with every entry it lists.
+     * Throws an error if the version cannot be decrypted with the active vault's cipher, or an entry cannot be read.
      */
-    private parseCommand(args: string[]): Promise<CommandReadCallback> {
-        let command: string,
-            commandArgs: string[] = args,
-            forward: CommandEntry = this.commands;
-        do {
-            [command, ...commandArgs] = commandArgs;
-            ({ [command]: forward } = forward);
-        } while (forward && !(forward instanceof Function));
+    private async openVaultVersion(vaultName: string, content: Buffer): Promise<VaultVersion> {
+        const vault = this.services.vault.getVaultByName(vaultName);
+        const dataset = deserialize(content);
+        if (!dataset.validate(vault.vaultId)) {
+            throw new Error(`Version ${dataset.version} of the vault is not signed by the vault`);
+        }
+        const payload = dataset.unwrap();
+        if (!this.activeVault.cipher.matchesPayload(payload)) {
+            throw new Error(`Version ${dataset.version} of the vault has a different password or key slots; ` +
+                "log in with its password and set an entry to replace the other versions");
+        }
 
-        return forward && forward instanceof Function
-            ? forward(commandArgs)
-            : this.onUnknownCommand(args).then(null);
+        const decryptedContent = await this.activeVault.cipher.forPayload(payload)._decrypt(payload);
+        if (!decryptedContent) {
+            throw new Error(`Version ${dataset.version} of the vault failed its integrity check`);
+        }
+        const [ privateKey, entryContent ] = await openSigningKey(this.activeVault.cipher, dataset, decryptedContent);
+        const [ index, legacyEntries ] = await openVaultIndex(dataset, entryContent);
+        const entries = await readAllVaultEntries(vault, [ index, legacyEntries ]);
+        return { dataset, privateKey, index, entries };
     }
 
-    private resolveHost(connection: string): [string, number] | null {
-        // List of errors is tracked rather than one error.
-        // This is because there is often >1 issue involved with parsing.
-        let errorsFound: string[] = [],
-            hostname: string,
-            portNum: string | number;
-        [hostname, portNum] = connection.split(":", 2);
-        portNum = parseInt(portNum) as number;
+}
 
-        if (hostname.length < 1) {
-            errorsFound.push(`Could not parse hostname from connection string [${connection}]`);
+// Milliseconds between purges of expired entries from the trash of the active vault.
+const entryPurgeInterval = 60 * 60 * 1000;
+
+const keyChangedMessage = "The vault's password, key slots or algorithm have changed since you logged in. " +
+    "Use the command 'vault login' to log in again.";
+const readOnlyMessage = "This vault is read-only for you: your key slot can decrypt the vault, but cannot sign changes to it.";
+const integrityFailedMessage = "Vault integrity check failed: either the password is wrong or the vault was modified. " +
+    "Use the command 'vault login' to try a different password.";
+
+/**
+ * Get the entries from the decrypted content of a vault.
+ * Vaults written before the signing key had its own record keep the key in front of the entries.
+ */
+function getVaultEntries(dataset: IVaultDataset, decryptedContent: Buffer): Buffer {
+    return dataset.signingKey
+        ? decryptedContent
+        : EncryptionCipher.splitKey(decryptedContent)[1];
+}
+
+/**
+ * Open the index of a vault from its decrypted entries.
+ * Vaults written before each entry had its own document keep every entry in their content;
+ * those entries are returned along with a new index, so that they can be moved to documents of their own.
+ */
+async function openVaultIndex(dataset: IVaultDataset, entries: Buffer): Promise<[ VaultIndex, Map<string, VaultEntry> ]> {
+    if (dataset.datasetType === VaultDatasetType.EntryIndex) {
+        return [ deserializeVaultIndex(entries), new Map() ];
+    }
+
+    const legacyEntries = new Map<string, VaultEntry>();
+    for (const [ name, value ] of Object.entries(JSON.parse(entries.toString()))) {
+        legacyEntries.set(name, parseVaultEntry(value, name));
+    }
+    return [ await createVaultIndex(), legacyEntries ];
+}
+
+/**
+ * Read an entry of a vault, from the entry's own document if the vault has an index.
+ * @returns Promise which resolves to the entry, or null if the vault has no such entry.
+ */
+async function readVaultEntry(
+    vault: VaultDatabase, [ index, legacyEntries ]: [ VaultIndex, Map<string, VaultEntry> ], name: string): Promise<VaultEntry | null>
+{
+    const entry = index.entries.get(name);
+    if (!entry) {
+        return legacyEntries.get(name) ?? null;
+    }
+
+    const content = await vault.getEntry(entry.entryId);
+    if (!content) {
+        throw new Error(`Entry ${name} has not been received from the vault's peers yet`);
+    }
+    return (await readEntry(index, name, content, vault.vaultId)).entry;
+}
+
+/**
+ * Read every entry of a vault, from the entries' own documents if the vault has an index.
+ * Throws an error if an entry has not been received yet, or if it is not the version which the index lists.
+ */
+async function readAllVaultEntries(
+    vault: VaultDatabase, [ index, legacyEntries ]: [ VaultIndex, Map<string, VaultEntry> ]): Promise<Map<string, VaultEntry>>
+{
+    const entries = new Map(legacyEntries);
+    for (const [ name, { entryId } ] of index.entries) {
+        const entry = await vault.getEntry(entryId);
+        if (!entry) {
+            throw new Error(`Entry ${name} has not been received from the vault's peers yet`);
         }
-        if (isNaN(portNum)) {
-            errorsFound.push(`Could not parse port number from connection string [${connection}]`);
+        entries.set(name, (await readEntry(index, name, entry, vault.vaultId)).entry);
+    }
+    return entries;
+}
+
+/**
+ * Read the options of `vault audit`: `--min-entropy <bits>`, `--days <n>`, `--breached <file|directory>` and `--json`.
+ * @returns The options, or null if an option is invalid.
+ */
+function parseAuditOptions(args: string[]): Partial<AuditOptions> & { breachedList?: string, json?: boolean } | null {
+    const options: Partial<AuditOptions> & { breachedList?: string, json?: boolean } = {};
+    for (let i = 0; i < args.length; i++) {
+        const option = args[i];
+        const number = Number(args[i + 1]);
+        switch (option) {
+            case "--min-entropy":
+            case "--days":
+                if (!Number.isInteger(number) || number < 0) {
+                    console.error(`Expected a number after ${option}`);
+                    return null;
+                }
+                options[option === "--days" ? "maxAgeDays" : "minEntropy"] = number;
+                i++;
+                break;
+            case "--breached":
+                if (args[i + 1] === undefined) {
+                    console.error("Expected the path of a breached password list after --breached");
+                    return null;
+                }
+                options.breachedList = args[++i];
+                break;
+            case "--json":
+                options.json = true;
+                break;
+            default:
+                console.error(`Unknown option for vault audit: ${option}`);
+                return null;
         }
+    }
+    return options;
+}
 
-        if (errorsFound.length > 0) {
-            for (let errString of errorsFound) {
-                console.error(errString);
-            }
-            return null;
+/**
+ * Look up the passwords of entries in a local breached password list.
+ * The list is either one file of whole hashes, or a directory of range files named by their prefix, such as 5BAA6.txt,
+ * of which only the ranges of the entries' passwords are read.
+ */
+async function readBreachedPasswords(entries: Map<string, VaultEntry>, list: string): Promise<{ name: string, count: number }[]> {
+    if (!(await fs.stat(list)).isDirectory()) {
+        return findBreachedPasswords(entries, createReadStream(list));
+    }
+
+    const breached: { name: string, count: number }[] = [];
+    for (const prefix of getBreachedPasswordPrefixes(entries)) {
+        const range = path.join(list, `${prefix}.txt`);
+        const exists = await fs.access(range).then(() => true, () => false);
+        if (exists) {
+            breached.push(...await findBreachedPasswords(entries, createReadStream(range), prefix));
         }
+    }
+    return breached;
+}
 
-        return [hostname, portNum];
+function printAuditReport({ audited, weak, reused, old, breached }: VaultAuditReport, options: Partial<AuditOptions>) {
+    console.info(`Audited the passwords of ${audited} entries`);
+    console.info(`Weak passwords (less than ${options.minEntropy ?? defaultAuditOptions.minEntropy} bits of estimated entropy):` +
+        `${weak.length === 0 ? " none" : ""}`);
+    weak.forEach(({ name, entropy }) => console.info(`  ${name}: about ${entropy} bits`));
+    console.info(`Reused passwords:${reused.length === 0 ? " none" : ""}`);
+    reused.forEach(names => console.info(`  ${names.join(", ")}`));
+    console.info(`Passwords unchanged in more than ${options.maxAgeDays ?? defaultAuditOptions.maxAgeDays} days:` +
+        `${old.length === 0 ? " none" : ""}`);
+    old.forEach(({ name, modified, days }) =>
+        console.info(`  ${name}: ${modified ? `last changed ${modified.slice(0, 10)}, ${days} days ago` : "unknown age"}`));
+    if (breached) {
+        console.info(`Breached passwords:${breached.length === 0 ? " none" : ""}`);
+        breached.forEach(({ name, count }) => console.info(`  ${name}: seen ${count} time(s) in breaches`));
     }
+}
 
-    async onUnknownCommand([command = "unknown"]: string[] = []): Promise<void> {
-        if (["q", "quit", "exit"].includes(command?.toLowerCase())) {
-            await this.services.activity.stop();
-            console.info("Goodbye!");
-            process.exit(0);
+/**
+ * Read the options of `vault gen`: `--passphrase`, `--words <n>` and `--separator <text>` for a passphrase,
+ * or `--length <n>`, `--no-<lowercase|uppercase|digits|symbols>` and `--no-lookalikes` for a password.
+ * @returns The options of either a password or a passphrase, or null if an option is invalid.
+ */
+function parseGeneratorOptions(args: string[]): { password: Partial<PasswordOptions>, passphrase: Partial<PassphraseOptions> | null } | null {
+    const password: Partial<PasswordOptions> = {};
+    const passphrase: Partial<PassphraseOptions> = {};
+    let isPassphrase = false;
+    for (let i = 0; i < args.length; i++) {
+        const option = args[i];
+        const number = Number(args[i + 1]);
+        switch (option) {
+            case "--passphrase":
+                isPassphrase = true;
+                break;
+            case "--length":
+            case "--words":
+                if (!Number.isInteger(number)) {
+                    console.error(`Expected a number after ${option}`);
+                    return null;
+                }
+                if (option === "--words") {
+                    isPassphrase = true;
+                    passphrase.words = number;
+                } else {
+                    password.length = number;
+                }
+                i++;
+                break;
+            case "--separator":
+                if (args[i + 1] === undefined) {
+                    console.error("Expected a separator after --separator");
+                    return null;
+                }
+                isPassphrase = true;
+                passphrase.separator = args[++i];
+                break;
+            case "--no-lowercase":
+            case "--no-uppercase":
+            case "--no-digits":
+            case "--no-symbols":
+                password[option.slice(5) as "lowercase" | "uppercase" | "digits" | "symbols"] = false;
+                break;
+            case "--no-lookalikes":
+                password.excludeLookalikes = true;
+                break;
+            default:
+                console.error(`Unknown option for password generation: ${option}`);
+                return null;
         }
-        else {
-            console.error("Unknown command");
+    }
+
+    if (isPassphrase && Object.keys(password).length > 0) {
+        console.error("Passphrases only take --words and --separator");
+        return null;
+    }
+    return { password, passphrase: isPassphrase ? passphrase : null };
+}
+
+function isTotpSecret(secret: string): boolean {
+    try {
+        parseTotpSecret(secret);
+        return true;
+    }
+    catch (err) {
+        console.error(`Invalid one-time password secret: ${err.message}`);
+        return false;
+    }
+}
+
+function printEntry(name: string, entry: VaultEntry, indent: string = "") {
+    console.info(`${indent}[${name}]`);
+    for (const field of entryFieldNames) {
+        const value = getEntryField(entry, field);
+        if (value || field === "password") {
+            console.info(`${indent}  ${field}: ${value}`);
         }
     }
+    entry.fields.forEach((value, field) => console.info(`${indent}  ${field}: ${value}`));
+    entry.attachments.forEach(({ name, size }) => console.info(`${indent}  attachment: ${name} (${size} bytes)`));
+    if (entry.modified) {
+        console.info(`${indent}  created ${entry.created?.toISOString()}, modified ${entry.modified.toISOString()}`);
+    }
+}
 
-    async onStartup() {
-        return await new Promise<void>((resolve, reject) => {
-            process.stdout.write("% ", err => {
-                if (err) reject(err);
-                else {
-                    resolve();
-                }
-            });
-        });
+/**
+ * Get the key slot cipher of an unlocked vault.
+ * A vault without key slots is moved to a new master key, with the current password as its first slot.
+ */
+async function getSlotCipher({ password, ciphers: { cipher, upgradeCipher } }: UnlockedVault): Promise<KeySlotCipher> {
+    return cipher instanceof KeySlotCipher
+        ? cipher
+        : KeySlotCipher.create(password, "default", (upgradeCipher ?? cipher).getKdf());
+}
+
+function isReadOnlyCipher(cipher: EncryptionCipher): boolean {
+    return cipher instanceof KeySlotCipher && cipher.isReadOnly();
+}
+
+/**
+ * Decrypt the signing key of a vault.
+ * @returns Promise which resolves to the private signing key and the entries of the vault.
+ * The signing key is null if the cipher belongs to a read-only member.
+ */
+async function openSigningKey(
+    cipher: EncryptionCipher, dataset: IVaultDataset, decryptedContent: Buffer): Promise<[ Buffer | null, Buffer ]>
+{
+    if (!dataset.signingKey) {
+        return EncryptionCipher.splitKey(decryptedContent);
+    }
+    if (isReadOnlyCipher(cipher)) {
+        return [ null, decryptedContent ];
     }
-    afterEach = this.onStartup.bind(this);
 
-    private async promptPasswordCreation(terminal: Interface): Promise<EncryptionCipher | null> {
-        process.stdout.write("Enter a password: ");
-        return new Promise<string | null>((resolve) => {
-            this.term.setSilent(true);
-            terminal.once("line", answer => resolve(answer));
-        })
-            .then(password => {
-                // TODO: replace constant salt with a randomly-generated, stored one.
-                return createPbkdf2Cipher(password, "munkey-salt");
-            })
-            .catch(err => {
-                console.error("Error during password get: ", err);
-                return null;
-            })
-            .finally(() => {
-                process.stdout.write("\n");
-                this.term.setSilent(false)
-            });
+    const privateKey = await cipher.decryptSecret(dataset.signingKey);
+    if (!privateKey) {
+        throw new Error("The vault's signing key could not be decrypted");
     }
+    return [ privateKey, decryptedContent ];
+}
+
+/**
+ * Encrypt the entries of a vault, along with its signing key, and sign them.
+ *
+ * @param transition Transition to the signing key, if it replaces the vault's previous key.
+ * @param datasetType Type of the content, if it changes; by default the content has the same type as the previous dataset.
+ */
+async function createVaultDataset(
+    cipher: EncryptionCipher,
+    content: Buffer,
+    privateKey: Buffer,
+    previous: IVaultDataset | null,
+    transition: KeyTransition | null = null,
+    datasetType: VaultDatasetType | null = null): Promise<IVaultDataset>
+{
+    return createDataset(await cipher._encrypt(content), privateKey, previous, {
+        wrappedKey: await cipher.encryptSecret(privateKey),
+        transition,
+        datasetType,
+    });
+}
+
+function parseKdfParameters(kdfName: string, costArg: string | null): KdfParameters | null {
+    switch (kdfName.toLowerCase()) {
+        case "pbkdf2":
+            return {
+                ...defaultPbkdf2Parameters,
+                iterations: costArg !== null ? Number(costArg) : defaultPbkdf2Parameters.iterations,
+            };
+        case "scrypt":
+            return {
+                ...defaultKdfParameters,
+                cost: costArg !== null ? Number(costArg) : defaultKdfParameters.cost,
+            };
+        default:
+            return null;
+    }
+}
+
+function parseSignatureAlgorithm(signatureName: string): VaultSignatureAlgorithm | null {
+    switch (signatureName.toLowerCase()) {
+        case "ecdsa":
+            return VaultSignatureAlgorithm.SHA512;
+        case "ed25519":
+            return VaultSignatureAlgorithm.Ed25519;
+        default:
+            return null;
+    }
+}
+
+function printTrustAlert({ uniqueId, hostname, expectedFingerprint, receivedFingerprint, timestamp }: PeerTrustAlert) {
+    console.error(`!! WARNING: certificate mismatch for Peer[${uniqueId}]@${hostname} (${timestamp.toISOString()})`);
+    console.error(`!!   expected: ${expectedFingerprint}`);
+    console.error(`!!   received: ${receivedFingerprint}`);
+    console.error("!! The connection was blocked. Another device may be impersonating this peer.");
+}
+
+function formatPairingCode(code: string): string {
+    return code.match(/.{1,3}/g).join(" ");
+}
 
+function printPairing({ pairingId, uniqueId, hostname, code, initiator, peerAccepted }: PairingSession) {
+    const origin = initiator ? "requested by this device" : "requested by the peer";
+    console.info(`:: Pairing ${pairingId} with Peer[${uniqueId}]@${hostname} (${origin})`);
+    console.info(`::   code: ${formatPairingCode(code)}${peerAccepted ? " (confirmed by the peer)" : ""}`);
+    if (!initiator) {
+        console.info(`::   If the other device shows the same code, run: peer accept ${pairingId}`);
+        console.info(`::   Otherwise, run: peer reject ${pairingId}`);
+    }
 }
 
 export default ShellCommandServer;
@@ -3,15 +3,41 @@ import {
     IVaultServer,
     IVaultNetworkServer,
     VaultActionResult,
+    VaultAttachmentData,
+    VaultAttachmentRequest,
     VaultCollection,
     VaultCollectionRequest,
     VaultCreationRequest,
+    VaultConflictData,
+    VaultConflictResolution,
     VaultData,
     VaultEntry,
+    VaultEntryCollection,
+    VaultEntryData,
+    VaultEntryHistory,
+    VaultEntryRequest,
+    VaultKeySlot,
+    VaultKeySlotCollection,
+    VaultKeySlotRevokeRequest,
+    VaultRekeyRequest,
     VaultRequest,
+    VaultRevision,
     VaultStatus as RpcVaultStatus,
+    PasswordGenerationRequest,
+    PasswordSuggestion,
+    PasswordSuggestions,
+    TrashedVault,
+    TrashedVaultCollection,
     RemoteVaultLinkRequest,
     VaultNetworkStatusRequest,
+    PeerAlert,
+    PeerAlertCollection,
+    PeerAlertRequest,
+    PeerPairing,
+    PeerPairingCollection,
+    PeerPairingRequest,
+    PeerPairRequest,
+    PeerPairResponse,
 } from "@munkey/munkey-rpc";
 import {
     sendUnaryData,
@@ -20,11 +46,14 @@ import {
     UntypedHandleCall,
 } from "@grpc/grpc-js";
 import {
+    PairingSession,
+    PairingStatus,
     VaultOption,
     VaultResult,
     VaultStatus,
 } from "../../services";
 import { Status } from "../../error";
+import { describeKdfParameters, EncryptionCipher } from "../../encryption";
 
 export default function createVaultServer<T extends CommandServer>(commands: T): IVaultServer {
     function mapVaultResult(result: VaultResult, respond: sendUnaryData<VaultActionResult>) {
@@ -37,6 +66,12 @@ export default function createVaultServer<T extends CommandServer>(commands: T):
                 case VaultStatus.NOT_FOUND:
                     response.setStatus(RpcVaultStatus.NOTFOUND);
                     break;
+                case VaultStatus.CONFLICT:
+                    response.setStatus(RpcVaultStatus.CONFLICT);
+                    break;
+                case VaultStatus.READ_ONLY:
+                    response.setStatus(RpcVaultStatus.READONLY);
+                    break;
                 default:
                     return respond(new Error(result.message));
             }
@@ -95,6 +130,39 @@ export default function createVaultServer<T extends CommandServer>(commands: T):
                 .then(result => mapVaultResult(result, respond));
         }
 
+        public undeleteVault(call: ServerUnaryCall<VaultRequest, VaultActionResult>,
+                             respond: sendUnaryData<VaultActionResult>): void
+        {
+            commands.onUndeleteVault(call.request.getName())
+                .then(result => mapVaultResult(result, respond))
+                .catch(err => respond(err));
+        }
+
+        public listTrashedVaults(call: ServerUnaryCall<VaultCollectionRequest, TrashedVaultCollection>,
+                                 respond: sendUnaryData<TrashedVaultCollection>): void
+        {
+            const maxSize = call.request.getMaxsize();
+            commands.onListTrashedVaults()
+                .then(trashedVaults => {
+                    const response = new TrashedVaultCollection().setSize(0);
+                    let vaultList = trashedVaults.unpack([]);
+                    if (maxSize > 0) {
+                        vaultList = vaultList.slice(0, maxSize);
+                    }
+
+                    for (const vault of vaultList) {
+                        response.addList(new TrashedVault()
+                            .setName(vault.nickname)
+                            .setId(vault.vaultId)
+                            .setDeleted(vault.deleted.toISOString())
+                            .setExpires(vault.expires.toISOString()));
+                        response.setSize(response.getSize() + 1);
+                    }
+                    respond(null, response);
+                })
+                .catch(err => respond(err));
+        }
+
         public getContent(call: ServerUnaryCall<VaultRequest, VaultData>,
                           respond: sendUnaryData<VaultData>): void {
             const entry = new VaultEntry().setName(call.request.getName());
@@ -134,6 +202,249 @@ export default function createVaultServer<T extends CommandServer>(commands: T):
                 .then(result => mapVaultResult(result, respond));
         }
 
+        public rekeyVault(call: ServerUnaryCall<VaultRekeyRequest, VaultActionResult>,
+                          respond: sendUnaryData<VaultActionResult>): void
+        {
+            commands
+                .onRekeyVault(
+                    call.request.getName(),
+                    Buffer.from(call.request.getPreviousdata()),
+                    Buffer.from(call.request.getData()))
+                .then(result => mapVaultResult(result, respond));
+        }
+
+        public listKeySlots(call: ServerUnaryCall<VaultRequest, VaultKeySlotCollection>,
+                            respond: sendUnaryData<VaultKeySlotCollection>): void
+        {
+            commands.onListKeySlots(call.request.getName())
+                .then(slots => {
+                    const response = new VaultKeySlotCollection()
+                        .setStatus(RpcVaultStatus.OK)
+                        .setSize(0);
+                    if (!slots.success) {
+                        return respond(null, response.setStatus(RpcVaultStatus.NOTFOUND));
+                    }
+
+                    for (const { slotId, label, key, readOnly = false } of slots.data) {
+                        const kdf = EncryptionCipher.getPayloadKdf(key);
+                        response.addList(new VaultKeySlot()
+                            .setSlotid(slotId)
+                            .setLabel(label)
+                            .setKdf(kdf ? describeKdfParameters(kdf) : "")
+                            .setReadonly(readOnly));
+                        response.setSize(response.getSize() + 1);
+                    }
+                    respond(null, response);
+                })
+                .catch(err => respond(err));
+        }
+
+        public addKeySlot(call: ServerUnaryCall<VaultRekeyRequest, VaultActionResult>,
+                          respond: sendUnaryData<VaultActionResult>): void
+        {
+            commands
+                .onAddKeySlot(
+                    call.request.getName(),
+                    Buffer.from(call.request.getPreviousdata()),
+                    Buffer.from(call.request.getData()))
+                .then(result => mapVaultResult(result, respond))
+                .catch(err => respond(err));
+        }
+
+        public revokeKeySlot(call: ServerUnaryCall<VaultKeySlotRevokeRequest, VaultActionResult>,
+                             respond: sendUnaryData<VaultActionResult>): void
+        {
+            commands
+                .onRevokeKeySlot(
+                    call.request.getName(),
+                    call.request.getSlotid(),
+                    Buffer.from(call.request.getPreviousdata()),
+                    Buffer.from(call.request.getData()))
+                .then(result => mapVaultResult(result, respond))
+                .catch(err => respond(err));
+        }
+
+        public listEntries(call: ServerUnaryCall<VaultRequest, VaultEntryCollection>,
+                           respond: sendUnaryData<VaultEntryCollection>): void
+        {
+            commands.onListEntries(call.request.getName())
+                .then(entryIds => {
+                    const response = new VaultEntryCollection()
+                        .setStatus(RpcVaultStatus.OK)
+                        .setSize(0);
+                    if (!entryIds.success) {
+                        return respond(null, response.setStatus(RpcVaultStatus.NOTFOUND));
+                    }
+
+                    for (const entryId of entryIds.data) {
+                        response.addList(entryId);
+                        response.setSize(response.getSize() + 1);
+                    }
+                    respond(null, response);
+                })
+                .catch(err => respond(err));
+        }
+
+        public getEntry(call: ServerUnaryCall<VaultEntryRequest, VaultEntryData>,
+                        respond: sendUnaryData<VaultEntryData>): void
+        {
+            const response = new VaultEntryData().setEntryid(call.request.getEntryid());
+            commands.onGetEntry(call.request.getName(), call.request.getEntryid())
+                .then(content => content.success
+                    ? respond(null, response.setStatus(RpcVaultStatus.OK).setData(content.data))
+                    : respond(null, response.setStatus(RpcVaultStatus.NOTFOUND)))
+                .catch(err => respond(err));
+        }
+
+        public putEntry(call: ServerUnaryCall<VaultEntryRequest, VaultActionResult>,
+                        respond: sendUnaryData<VaultActionResult>): void
+        {
+            commands
+                .onPutEntry(call.request.getName(), call.request.getEntryid(), Buffer.from(call.request.getData()))
+                .then(result => mapVaultResult(result, respond))
+                .catch(err => respond(err));
+        }
+
+        public deleteEntry(call: ServerUnaryCall<VaultEntryRequest, VaultActionResult>,
+                           respond: sendUnaryData<VaultActionResult>): void
+        {
+            commands.onDeleteEntry(call.request.getName(), call.request.getEntryid())
+                .then(result => mapVaultResult(result, respond))
+                .catch(err => respond(err));
+        }
+
+        public purgeEntry(call: ServerUnaryCall<VaultEntryRequest, VaultActionResult>,
+                          respond: sendUnaryData<VaultActionResult>): void
+        {
+            commands
+                .onPurgeEntry(
+                    call.request.getName(),
+                    call.request.getEntryid(),
+                    call.request.getPurgesList().map(purge => Buffer.from(purge)))
+                .then(result => mapVaultResult(result, respond))
+                .catch(err => respond(err));
+        }
+
+        public getEntryHistory(call: ServerUnaryCall<VaultEntryRequest, VaultEntryHistory>,
+                               respond: sendUnaryData<VaultEntryHistory>): void
+        {
+            commands.onGetEntryHistory(call.request.getName(), call.request.getEntryid())
+                .then(history => {
+                    const response = new VaultEntryHistory()
+                        .setStatus(RpcVaultStatus.OK)
+                        .setSize(0);
+                    if (!history.success) {
+                        return respond(null, response.setStatus(RpcVaultStatus.NOTFOUND));
+                    }
+
+                    for (const content of history.data) {
+                        response.addList(content);
+                        response.setSize(response.getSize() + 1);
+                    }
+                    respond(null, response);
+                })
+                .catch(err => respond(err));
+        }
+
+        public getAttachment(call: ServerUnaryCall<VaultAttachmentRequest, VaultAttachmentData>,
+                             respond: sendUnaryData<VaultAttachmentData>): void
+        {
+            const response = new VaultAttachmentData().setAttachmentid(call.request.getAttachmentid());
+            commands.onGetAttachment(call.request.getName(), call.request.getAttachmentid())
+                .then(content => content.success
+                    ? respond(null, response.setStatus(RpcVaultStatus.OK).setData(content.data))
+                    : respond(null, response.setStatus(RpcVaultStatus.NOTFOUND)))
+                .catch(err => respond(err));
+        }
+
+        public putAttachment(call: ServerUnaryCall<VaultAttachmentRequest, VaultActionResult>,
+                             respond: sendUnaryData<VaultActionResult>): void
+        {
+            commands
+                .onPutAttachment(call.request.getName(), call.request.getAttachmentid(), Buffer.from(call.request.getData()))
+                .then(result => mapVaultResult(result, respond))
+                .catch(err => respond(err));
+        }
+
+        public deleteAttachment(call: ServerUnaryCall<VaultAttachmentRequest, VaultActionResult>,
+                                respond: sendUnaryData<VaultActionResult>): void
+        {
+            commands
+                .onDeleteAttachment(call.request.getName(), call.request.getAttachmentid(), Buffer.from(call.request.getData()))
+                .then(result => mapVaultResult(result, respond))
+                .catch(err => respond(err));
+        }
+
+        public getConflicts(call: ServerUnaryCall<VaultRequest, VaultConflictData>,
+                            respond: sendUnaryData<VaultConflictData>): void
+        {
+            commands.onGetConflicts(call.request.getName())
+                .then(conflict => {
+                    const response = new VaultConflictData()
+                        .setStatus(RpcVaultStatus.OK)
+                        .setConflicted(false);
+                    if (!conflict.success) {
+                        return respond(null, response.setStatus(RpcVaultStatus.NOTFOUND));
+                    }
+                    if (!conflict.data) {
+                        return respond(null, response);
+                    }
+
+                    const { current, conflicts, base } = conflict.data;
+                    for (const { rev, content } of [ current, ...conflicts ]) {
+                        response.addRevisions(new VaultRevision().setRev(rev).setData(content));
+                    }
+                    respond(null, response.setConflicted(true).setBase(base ?? Buffer.alloc(0)));
+                })
+                .catch(err => respond(err));
+        }
+
+        public resolveConflicts(call: ServerUnaryCall<VaultConflictResolution, VaultActionResult>,
+                                respond: sendUnaryData<VaultActionResult>): void
+        {
+            commands
+                .onResolveConflicts(
+                    call.request.getName(),
+                    call.request.getRevisionsList(),
+                    Buffer.from(call.request.getData()))
+                .then(result => mapVaultResult(result, respond))
+                .catch(err => respond(err));
+        }
+
+        public generatePasswords(call: ServerUnaryCall<PasswordGenerationRequest, PasswordSuggestions>,
+                                 respond: sendUnaryData<PasswordSuggestions>): void
+        {
+            const { request } = call;
+            const length = request.getLength() || undefined;
+            const suggestions = request.getPassphrase()
+                ? commands.onGeneratePassphrases(request.getCount(), {
+                    words: length,
+                    separator: request.getSeparator() || undefined,
+                })
+                : commands.onGeneratePasswords(request.getCount(), {
+                    length,
+                    lowercase: !request.getNolowercase(),
+                    uppercase: !request.getNouppercase(),
+                    digits: !request.getNodigits(),
+                    symbols: !request.getNosymbols(),
+                    excludeLookalikes: request.getExcludelookalikes(),
+                });
+
+            suggestions
+                .then(result => {
+                    if (!result.success) {
+                        return respond(new Error(result.message));
+                    }
+
+                    const response = new PasswordSuggestions();
+                    for (const { value, entropy } of result.data) {
+                        response.addList(new PasswordSuggestion().setValue(value).setEntropy(entropy));
+                    }
+                    respond(null, response);
+                })
+                .catch(err => respond(err));
+        }
+
     }
 
     return new VaultServer();
@@ -143,6 +454,17 @@ export function createVaultNetworkServer<T extends CommandServer>(commands: T):
     function isValidPort(portNum: number | null = null): boolean {
         return (portNum !== null) && (portNum < 65536) && (portNum >= 0);
     }
+
+    function mapPairing({ pairingId, uniqueId, hostname, code, initiator, peerAccepted, expires }: PairingSession) {
+        return new PeerPairing()
+            .setPairingid(pairingId)
+            .setUniqueid(uniqueId)
+            .setHost(hostname)
+            .setCode(code)
+            .setInitiator(initiator)
+            .setPeeraccepted(peerAccepted)
+            .setExpires(expires.toISOString());
+    }
     
     class VaultNetworkServer implements IVaultNetworkServer {
         [name: string]: UntypedHandleCall;
@@ -221,6 +543,99 @@ export function createVaultNetworkServer<T extends CommandServer>(commands: T):
         {
             respond(null, new VaultActionResult());
         }
+
+        getPeerAlerts(call: ServerUnaryCall<PeerAlertRequest, PeerAlertCollection>,
+                      respond: sendUnaryData<PeerAlertCollection>): void
+        {
+            const maxSize = call.request.getMaxsize();
+            commands.onPeerAlerts()
+                .then(alerts => {
+                    // When truncating, the most recent alerts are the ones kept.
+                    let alertList = alerts.unpack([]);
+                    if (maxSize > 0) {
+                        alertList = alertList.slice(-maxSize);
+                    }
+
+                    const response = new PeerAlertCollection().setSize(0);
+                    for (let alert of alertList) {
+                        response.addList(new PeerAlert()
+                            .setUniqueid(alert.uniqueId)
+                            .setHost(alert.hostname)
+                            .setExpectedfingerprint(alert.expectedFingerprint)
+                            .setReceivedfingerprint(alert.receivedFingerprint)
+                            .setTimestamp(alert.timestamp.toISOString()));
+                        response.setSize(response.getSize() + 1);
+                    }
+                    respond(null, response);
+                })
+                .catch(err => respond(err));
+        }
+
+        pairPeer(call: ServerUnaryCall<PeerPairRequest, PeerPairResponse>,
+                 respond: sendUnaryData<PeerPairResponse>): void
+        {
+            const action = call.request.getAction();
+            if (action !== PeerPairRequest.PairAction.START) {
+                const pairingId = call.request.getPairingid();
+                if (!pairingId) {
+                    respond(null, new PeerPairResponse()
+                        .setStatus(RpcVaultStatus.NOTFOUND)
+                        .setMessage("No pairing ID was provided"));
+                    return;
+                }
+
+                commands.onPeerPairConfirm(pairingId, action === PeerPairRequest.PairAction.ACCEPT)
+                    .then(result => respond(null, new PeerPairResponse()
+                        .setStatus(result.success ? RpcVaultStatus.OK
+                            : result.status === PairingStatus.NOT_FOUND ? RpcVaultStatus.NOTFOUND
+                            : RpcVaultStatus.CONFLICT)
+                        .setMessage(result.message)))
+                    .catch(err => respond(err));
+                return;
+            }
+
+            const hostname = call.request.getLocation()?.getHost();
+            const portNum = parseInt(call.request.getLocation()?.getPort());
+            if (!hostname || !isValidPort(portNum)) {
+                respond(null, new PeerPairResponse()
+                    .setStatus(RpcVaultStatus.NOTFOUND)
+                    .setMessage(hostname ? "Invalid port number" : "No hostname was provided"));
+                return;
+            }
+
+            commands.onPeerPair(hostname, portNum)
+                .then(pairing => {
+                    const response = new PeerPairResponse()
+                        .setStatus(pairing.success ? RpcVaultStatus.OK : RpcVaultStatus.CONFLICT)
+                        .setMessage(pairing.message);
+                    if (pairing.success) {
+                        response.setPairing(mapPairing(pairing.data));
+                    }
+                    respond(null, response);
+                })
+                .catch(err => respond(err));
+        }
+
+        getPairings(call: ServerUnaryCall<PeerPairingRequest, PeerPairingCollection>,
+                    respond: sendUnaryData<PeerPairingCollection>): void
+        {
+            const maxSize = call.request.getMaxsize();
+            commands.onPeerPairings()
+                .then(pairings => {
+                    let pairingList = pairings.unpack([]);
+                    if (maxSize > 0) {
+                        pairingList = pairingList.slice(0, maxSize);
+                    }
+
+                    const response = new PeerPairingCollection().setSize(0);
+                    for (let pairing of pairingList) {
+                        response.addList(mapPairing(pairing));
+                        response.setSize(response.getSize() + 1);
+                    }
+                    respond(null, response);
+                })
+                .catch(err => respond(err));
+        }
     }
     
     return new VaultNetworkServer();
@@ -2,6 +2,7 @@ import { DeviceDiscoveryDecl, isPeerLinkResponse, PeerIdentityDecl, PeerLinkResp
 import * as bonjour from "bonjour";
 import https from "https";
 import http from "http";
+import { TLSSocket } from "tls";
 
 import Service from "./baseService";
 import VaultService from "./vault";
@@ -27,7 +28,7 @@ interface ActivityServiceContainer {
 export default class ActivityService extends Service {
     private readonly activePeerList: Map<string, PeerIdentityDecl>;
 
-    constructor(private mdnsSource: bonjour.Bonjour, private uniqueId: string) {
+    constructor(private mdnsSource: bonjour.Bonjour, private identity: IdentityService) {
         super();
         this.activePeerList = new Map<string, PeerIdentityDecl>();
     }
@@ -44,6 +45,8 @@ export default class ActivityService extends Service {
      * If this is the case, the identity information contained at that endpoint is returned.
      * If the endpoint is invalid (for example, the connection was refused or is not a valid
      * Munkey peer server), then no identity information is returned.
+     * The same applies if the certificate presented by the endpoint is not the one bound to
+     * the unique ID it claims (see {@link IdentityService#verifyPeerCertificate}).
      *
      * @param hostname {string} IP address or hostname of the device.
      * @param portNum {number} TCP port number of the device.
@@ -55,18 +58,24 @@ export default class ActivityService extends Service {
         portNum: number): Promise<PeerLinkResponse|null>
     {
         const logger = this.logger;
-        const peerResponse: string|null = await new Promise<string>(function(resolve, reject) {
+        const keyPair = this.identity.getTlsKeyPair();
+        const peerResponse: [string, Buffer]|null = await new Promise<[string, Buffer]>(function(resolve, reject) {
+            // The peer's identity is not known until its response is parsed,
+            // so its certificate is accepted here and checked against the identity afterwards.
             https.get({
                     hostname,
                     port: portNum?.toString(),
                     path: "/link",
                     rejectUnauthorized: false,
+                    agent: false,
+                    ...keyPair,
                 },
                 function(res: http.IncomingMessage) {
+                    const certificate: Buffer = (res.socket as TLSSocket).getPeerCertificate(true)?.raw ?? null;
                     const data: string[] = [];
                     res.on("data", chunk => data.push(chunk));
                     res.on("error", err => reject(err));
-                    res.on("end", () => resolve(data.join("")));
+                    res.on("end", () => resolve([data.join(""), certificate]));
                 })
                 .on("error", (err: NodeJS.ErrnoException) => {
                     if (err.code === "ECONNREFUSED") {
@@ -79,18 +88,36 @@ export default class ActivityService extends Service {
             return null;
         });
 
-        const parsedResponse = peerResponse && JSON.parse(peerResponse);
-        return isPeerLinkResponse(parsedResponse) ? parsedResponse : null;
+        const [responseBody = null, certificate = null] = peerResponse ?? [];
+        const parsedResponse = responseBody && JSON.parse(responseBody);
+        if (!isPeerLinkResponse(parsedResponse)) {
+            return null;
+        }
+        if (parsedResponse.uniqueId !== this.identity.getId() && !await this.identity
+            .verifyPeerCertificate(parsedResponse.uniqueId, certificate, `${hostname}:${portNum}`))
+        {
+            this.logger.warn("Rejecting peer %s at %s:%d, certificate is not trusted",
+                parsedResponse.uniqueId, hostname, portNum);
+            return null;
+        }
+
+        return parsedResponse;
     }
 
     public async republish(uniqueId: string): Promise<void> {
-        for (let [location] of this.activePeerList) {
+        for (let [location, device] of this.activePeerList) {
             let [hostname, port] = location.split(":");
+            let agent = this.identity.getPeerAgent(device.uniqueId);
+            if (!agent) {
+                this.logger.warn("Skipping republish to %s, no trusted certificate for peer %s", location, device.uniqueId);
+                continue;
+            }
             await new Promise((resolve, reject) => {
                     let req = https.request({
                         method: "POST",
                         hostname,
                         port,
+                        agent,
                         path: "/link",
                         headers: {
                             "Content-Type": "application/json",
@@ -157,7 +184,7 @@ export default class ActivityService extends Service {
             .then(async decl => {
                 if (!decl)
                     return null;
-                if (decl.uniqueId === this.uniqueId) {
+                if (decl.uniqueId === this.identity.getId()) {
                     this.logger.info("Ignoring self-resolved peer device at %s:%d", device.hostname, device.portNum);
                     return decl;
                 }
@@ -268,7 +295,11 @@ export default class ActivityService extends Service {
                         peerDecl.vaults.forEach(vaultDecl => {
                             const vaultDatabase = services?.vault.getVaultById(vaultDecl.vaultId);
                             if (vaultDatabase) {
-                                services?.connection.publishDatabaseConnection({ hostname, portNum },
+                                services?.connection.publishDatabaseConnection({
+                                        hostname,
+                                        portNum,
+                                        uniqueId: peerDecl.uniqueId,
+                                    },
                                     vaultDecl.nickname,
                                     vaultDecl.vaultId,
                                     vaultDatabase.vault);
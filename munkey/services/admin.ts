@@ -2,9 +2,17 @@ import PouchDB from "pouchdb";
 
 import Service from "./baseService";
 
+export interface PeerCertificateRecord {
+    uniqueId: string;
+    fingerprint: string;
+    certificate: string;
+    firstSeen: string;
+}
+
 export interface AdminDatabaseDocument {
     _id: string;
-    vaultIds: { vaultName: string, vaultId: string }[];
+    vaultIds?: { vaultName: string, vaultId: string }[];
+    peerCertificates?: PeerCertificateRecord[];
 }
 
 export type AdminDB = PouchDB.Database<AdminDatabaseDocument>;
@@ -14,28 +22,32 @@ export default class AdminService extends Service {
         super();
     }
 
-    public initialize(): Promise<this> {
+    private initializeDocument(initialDocument: AdminDatabaseDocument): Promise<void> {
         return this.adminDatabase
-            .get<AdminDatabaseDocument>("vaultIds")
+            .get<AdminDatabaseDocument>(initialDocument._id)
             .then(() => {
-                this.logger.info("Admin database validated successfully");
-                return this;
+                this.logger.info("Admin database document %s validated successfully", initialDocument._id);
             })
             .catch(err => {
                 if (err.status === 404) {
-                    return this.adminDatabase.put({
-                        _id: "vaultIds",
-                        vaultIds: [],
-                    })
+                    return this.adminDatabase.put(initialDocument)
                         .then(doc => {
-                            this.logger.info("Admin database initialization: %s", (doc.ok ? "Success" : "Failure"));
-                            return this;
+                            this.logger.info("Admin database initialization of %s: %s",
+                                initialDocument._id, (doc.ok ? "Success" : "Failure"));
                         });
                 }
                 throw err;
             });
     }
 
+    public initialize(): Promise<this> {
+        return Promise.all([
+                this.initializeDocument({ _id: "vaultIds", vaultIds: [] }),
+                this.initializeDocument({ _id: "peerCertificates", peerCertificates: [] }),
+            ])
+            .then(() => this);
+    }
+
     public recordVaultCreation(vaultName: string, vaultId: string): Promise<void> {
         return this.adminDatabase
             .get<AdminDatabaseDocument>("vaultIds")
@@ -69,4 +81,82 @@ export default class AdminService extends Service {
 
         return vaultIds;
     }
+
+    /**
+     * @name removeVaultRecord
+     * @method
+     * @summary Remove the record of the vault with the given ID, so that it is no longer loaded on startup.
+     *
+     * @param vaultId {string} ID of the vault to remove the record of.
+     * @returns Promise which resolves to true if a record was removed.
+     */
+    public removeVaultRecord(vaultId: string): Promise<boolean> {
+        return this.adminDatabase
+            .get<AdminDatabaseDocument>("vaultIds")
+            .then(async ({ _id, _rev, vaultIds = [] }) => {
+                const remaining = vaultIds.filter(record => record.vaultId !== vaultId);
+                if (remaining.length === vaultIds.length) {
+                    return false;
+                }
+                const result = await this.adminDatabase.put({ _id, _rev, vaultIds: remaining });
+                return result.ok;
+            });
+    }
+
+    /**
+     * @name recordPeerCertificate
+     * @method
+     * @summary Bind a peer's unique ID to the certificate it presented.
+     *
+     * Any certificate already recorded for the peer is replaced.
+     *
+     * @param record {PeerCertificateRecord} Certificate record to store.
+     */
+    public recordPeerCertificate(record: PeerCertificateRecord): Promise<void> {
+        return this.adminDatabase
+            .get<AdminDatabaseDocument>("peerCertificates")
+            .then(({ _id, _rev, peerCertificates = [] }) => this.adminDatabase.put({
+                _id,
+                _rev,
+                peerCertificates: [
+                    ...peerCertificates.filter(({ uniqueId }) => uniqueId !== record.uniqueId),
+                    record,
+                ],
+            }))
+            .then(result => {
+                this.logger.info("Peer certificate record for %s: %s", record.uniqueId, result.ok ? "Success" : "Failure");
+            });
+    }
+
+    /**
+     * @name removePeerCertificate
+     * @method
+     * @summary Remove the certificate bound to the given peer, if any.
+     *
+     * @param uniqueId {string} Unique ID of the peer to remove the certificate record of.
+     * @returns Promise which resolves to true if a record was removed.
+     */
+    public removePeerCertificate(uniqueId: string): Promise<boolean> {
+        return this.adminDatabase
+            .get<AdminDatabaseDocument>("peerCertificates")
+            .then(async ({ _id, _rev, peerCertificates = [] }) => {
+                const remaining = peerCertificates.filter(record => record.uniqueId !== uniqueId);
+                if (remaining.length === peerCertificates.length) {
+                    return false;
+                }
+                const result = await this.adminDatabase.put({ _id, _rev, peerCertificates: remaining });
+                return result.ok;
+            });
+    }
+
+    public async getAllPeerCertificates(): Promise<PeerCertificateRecord[]> {
+        const { peerCertificates = [] } = await this.adminDatabase
+            .get<AdminDatabaseDocument>("peerCertificates")
+            .catch(err => {
+                this.logger.error("Could not retrieve peer certificates from admin database: status %d", err.status, err);
+                return null;
+            }) ?? {};
+
+        return peerCertificates;
+    }
 }
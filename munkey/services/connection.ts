@@ -1,7 +1,21 @@
+import PouchDB from "pouchdb";
+import https from "https";
+
 import Service, { VaultDB, DatabaseDocument } from "./baseService";
+import IdentityService from "./identity";
 import { DeviceDiscoveryDecl } from "../discovery";
 import { Option, Result } from "../error";
-import { deserialize } from "../encryption/serialize";
+import { continuesKeyTransitions, deserialize, IVaultDataset, VaultDatasetType } from "../encryption/serialize";
+import {
+    getAttachmentId,
+    getContentAttachmentId,
+    getEntryId,
+    isEntryVersionDocument,
+    isTrashDocument,
+    readDeletionTime,
+    readPurge,
+    VaultDatabase,
+} from "./vault";
 
 export type VaultSyncToken = PouchDB.Replication.Sync<DatabaseDocument>;
 
@@ -12,6 +26,9 @@ export enum ConnectionStatus {
 export type ConnectionResult = Result<ConnectionStatus>;
 export type ConnectionOption<T> = Option<T, ConnectionStatus>;
 
+// Time by which a peer's clock may be ahead of this device's clock.
+const maxClockSkew = 5 * 60 * 1000;
+
 /**
  * @name ConnectionService
  * @class
@@ -33,13 +50,45 @@ export default class ConnectionService extends Service {
      */
     private readonly connections: Map<string, Map<string, VaultSyncToken>>;
 
-    constructor() {
+    constructor(private identity: IdentityService) {
         super();
         this.connections = new Map<string, Map<string, VaultSyncToken>>();
     }
 
+    /**
+     * @name createRemoteDatabase
+     * @private
+     * @function
+     *
+     * @summary Create a handle to a peer's database which only talks to that peer.
+     * @description All requests made through the handle use an agent pinned to the certificate
+     * bound to the peer's unique ID, so that an impersonating device cannot take part in replication.
+     *
+     * @returns PouchDB handle of the remote database, or null if the peer has no trusted certificate.
+     */
+    private createRemoteDatabase(
+        localVault: VaultDB,
+        connectionUrl: string,
+        uniqueId: string): PouchDB.Database<DatabaseDocument> | null
+    {
+        const agent: https.Agent = this.identity.getPeerAgent(uniqueId);
+        if (!agent) {
+            return null;
+        }
+
+        // The handle must be created from the local database's own constructor,
+        // as replication methods attached by express-pouchdb discard database handles of any other type.
+        // The local database's name prefix is a file path, so it is cleared for the URL.
+        const RemoteDatabase = localVault.constructor as PouchDB.Static;
+        return new RemoteDatabase<DatabaseDocument>(connectionUrl, {
+            prefix: "",
+            // `agent` is a node-fetch extension, and so is missing from the standard RequestInit type.
+            fetch: (url, opts) => PouchDB.fetch(url, { ...opts, agent } as RequestInit),
+        });
+    }
+
     public publishDatabaseConnection(
-        device: DeviceDiscoveryDecl,
+        device: DeviceDiscoveryDecl & { uniqueId: string },
         vaultName: string,
         vaultId: string,
         localVault: VaultDB,
@@ -50,11 +99,22 @@ export default class ConnectionService extends Service {
         let connectionUrl = `https://${connectionKey}/db/${vaultName}`
 
         if (!connectionMap.get(connectionKey)) {
+            const remoteVault = this.createRemoteDatabase(localVault, connectionUrl, device.uniqueId);
+            if (!remoteVault) {
+                this.logger.warn("Cannot add remote connection to %s, no trusted certificate for peer %s",
+                    connectionKey, device.uniqueId);
+                onFirstPull && onFirstPull(false);
+                return null;
+            }
             this.logger.info("Adding remote connection to %s", connectionKey);
 
-            localVault.replicate.from(connectionUrl)
-                .then(({ ok }) => onFirstPull && onFirstPull(ok));
-            let connection = localVault.sync<DatabaseDocument>(connectionUrl, { live: true, });
+            localVault.replicate.from(remoteVault)
+                .then(({ ok }) => onFirstPull && onFirstPull(ok))
+                .catch(err => {
+                    this.logger.error("Initial replication from %s failed", connectionKey, err);
+                    onFirstPull && onFirstPull(false);
+                });
+            let connection = localVault.sync<DatabaseDocument>(remoteVault, { live: true, });
 
             connection
                 .on("change", info => {
@@ -63,21 +123,8 @@ export default class ConnectionService extends Service {
                         return;
 
                     let { change: changes } = info;
-                    changes?.docs?.forEach(change => {
-                        let passwords = change && change["_attachments"]["passwords.json"];
-                        if (!passwords) {
-                            this.logger.info("Empty database update received, validation skipped");
-                            return;
-                        }
-
-                        let dataset = deserialize(passwords["data"]);
-                        if (!dataset.validate(vaultId)) {
-                            this.logger.warn("Invalid certificate received for vault %s, rejecting changes", vaultName);
-                            localVault.remove("vault", change._rev)
-                                .then(response => this.logger.info("Revision %s removed due to invalid certificate", response.rev))
-                                .catch(err => this.logger.crit("Failed to reject revision %s for vault %s", change._rev, vaultId, err));
-                        }
-                    });
+                    changes?.docs?.forEach(change => this.checkReplicatedChange(localVault, change, vaultId, vaultName, connectionKey)
+                        .catch(err => this.logger.crit("Failed to check revision %s for vault %s", change._rev, vaultId, err)));
                 })
                 .on("error", err => {
                     this.logger.error("Error in Sync", err);
@@ -110,6 +157,206 @@ export default class ConnectionService extends Service {
         return false;
     }
 
+    /**
+     * Check a document received from a peer, and reject it if it is not valid for its kind of document.
+     */
+    private async checkReplicatedChange(
+        localVault: VaultDB, change: PouchDB.Core.ExistingDocument<DatabaseDocument>, vaultId: string, vaultName: string,
+        source: string): Promise<void>
+    {
+        if (isEntryVersionDocument(change._id)) {
+            // Versions found through these documents are checked against their hash when read,
+            // and the documents are deleted along with the entries they lead to.
+            return;
+        }
+        if (change?.["_deleted"]) {
+            return this.checkReplicatedRemoval(localVault, change, vaultId, vaultName);
+        }
+        if (getEntryId(change._id) !== null) {
+            return this.checkReplicatedEntry(localVault, change, vaultId, vaultName, VaultDatasetType.Entry);
+        }
+        if (getAttachmentId(change._id) !== null) {
+            return this.checkReplicatedEntry(localVault, change, vaultId, vaultName, VaultDatasetType.Attachment);
+        }
+        if (isTrashDocument(change._id)) {
+            return this.checkReplicatedDeletion(localVault, change, vaultId, vaultName, source);
+        }
+
+        let passwords = change?.["_attachments"]?.["passwords.json"];
+        if (!passwords) {
+            this.logger.info("Empty database update received, validation skipped");
+            return;
+        }
+
+        const dataset = this.readValidDataset(passwords["data"], vaultId, vaultName);
+        if (!dataset) {
+            this.logger.warn("Invalid certificate received for vault %s, rejecting changes", vaultName);
+            return this.rejectRevision(localVault, change, vaultId);
+        }
+
+        const vault = new VaultDatabase(localVault, vaultId, this.logger);
+        await this.acceptReplicatedContent(vault, dataset, passwords["data"], source);
+        await this.reportConflicts(vault);
+    }
+
+    /**
+     * Check the deletion of a document received from a peer. Only the trash document of a vault may be deleted,
+     * when the vault is restored, along with entries and attached files which hold the signed record of their purge.
+     * Deleting the vault document would reveal an older version of the vault, and deleting entries would lose them,
+     * so any other deletion is rejected.
+     */
+    private async checkReplicatedRemoval(
+        localVault: VaultDB, change: PouchDB.Core.ExistingDocument<DatabaseDocument>, vaultId: string, vaultName: string): Promise<void>
+    {
+        if (isTrashDocument(change._id)) {
+            return;
+        }
+
+        const vault = new VaultDatabase(localVault, vaultId, this.logger);
+        const removed = await vault.getPreviousRevision(change._id, change._rev);
+        const isDocument = getEntryId(change._id) !== null || getAttachmentId(change._id) !== null;
+        const purge = readPurge(change);
+        const content = removed?.["_attachments"]?.[getContentAttachmentId(change._id)]?.["data"];
+        if (isDocument && purge && content && await vault.isPurgeOf(purge, content)) {
+            this.logger.info("Document %s of vault %s was purged", change._id, vaultName);
+            return;
+        }
+
+        this.logger.warn("Invalid deletion of document %s received for vault %s, rejecting changes", change._id, vaultName);
+        return this.rejectRevision(localVault, change, vaultId);
+    }
+
+    /**
+     * Check an entry or attached file document received from a peer, rejecting it if it does not hold
+     * data of the given type which is signed by the vault's key.
+     * Whether the entry is current is decided by the vault's index, which only clients can decrypt,
+     * and attached files are listed by the entries they are attached to.
+     */
+    private async checkReplicatedEntry(
+        localVault: VaultDB, change: PouchDB.Core.ExistingDocument<DatabaseDocument>, vaultId: string, vaultName: string,
+        datasetType: VaultDatasetType.Entry | VaultDatasetType.Attachment): Promise<void>
+    {
+        const entry = change["_attachments"]?.[datasetType === VaultDatasetType.Entry ? "entry" : "file"];
+        const dataset = entry && this.readValidDataset(entry["data"], vaultId, vaultName, datasetType);
+        if (dataset) {
+            return;
+        }
+
+        this.logger.warn("Invalid document %s received for vault %s, rejecting changes", change._id, vaultName);
+        return this.rejectRevision(localVault, change, vaultId);
+    }
+
+    /**
+     * Check the record of a vault being moved to the trash which was received from a peer, rejecting it if it does not
+     * hold a valid time of deletion. A deletion in the future is rejected too, as it would keep the vault from being purged.
+     * Deletions are not signed, as vaults can be deleted without their password; the vault stays in the trash,
+     * where it can be restored on any device, until its retention period ends. Each device counts the retention period
+     * from when it found the deletion at the earliest, which is recorded here, so an earlier time cannot shorten it.
+     */
+    private async checkReplicatedDeletion(
+        localVault: VaultDB, change: PouchDB.Core.ExistingDocument<DatabaseDocument>, vaultId: string, vaultName: string,
+        source: string): Promise<void>
+    {
+        const deleted = readDeletionTime(change);
+        if (deleted && deleted.getTime() <= Date.now() + maxClockSkew) {
+            this.logger.info("Vault %s was moved to the trash by %s", vaultName, source);
+            await new VaultDatabase(localVault, vaultId, this.logger).getDeletionTime()
+                .catch(err => this.logger.error("Failed to record the deletion of vault %s", vaultId, err));
+            return;
+        }
+
+        this.logger.warn("Invalid trash record received for vault %s, rejecting changes", vaultName);
+        return this.rejectRevision(localVault, change, vaultId);
+    }
+
+    /**
+     * Reject a revision of a document received from a peer, by writing the revision it replaced back over it,
+     * or by removing the document if the revision created it.
+     */
+    private async rejectRevision(
+        localVault: VaultDB, change: PouchDB.Core.ExistingDocument<DatabaseDocument>, vaultId: string): Promise<void>
+    {
+        const vault = new VaultDatabase(localVault, vaultId, this.logger);
+        const previous = await vault.getPreviousRevision(change._id, change._rev);
+        if (previous && await vault.restoreRevision(previous, change._rev)) {
+            this.logger.info("Revision %s of %s rejected, the previous revision was restored", change._rev, change._id);
+        }
+        else if (!previous && !change?.["_deleted"]) {
+            await localVault.remove(change._id, change._rev)
+                .then(response => this.logger.info("Revision %s removed due to invalid document", response.rev))
+                .catch(err => this.logger.crit("Failed to reject revision %s for vault %s", change._rev, vaultId, err));
+        }
+        else {
+            this.logger.crit("Failed to reject revision %s for vault %s", change._rev, vaultId);
+        }
+    }
+
+    /**
+     * Read vault data received from a peer, checking that it is signed by the vault's key.
+     * @param datasetType Type which the data must have if it is a single entry or attached file,
+     * or null if it must be the vault itself or its index.
+     * @returns The vault data, or null if it is malformed, of the wrong type or its signature is invalid.
+     */
+    private readValidDataset(
+        data: Buffer, vaultId: string, vaultName: string, datasetType: VaultDatasetType | null = null): IVaultDataset | null
+    {
+        try {
+            const dataset = deserialize(data);
+            const isDocument = dataset.datasetType === VaultDatasetType.Entry
+                || dataset.datasetType === VaultDatasetType.Attachment
+                || dataset.datasetType === VaultDatasetType.Purge;
+            if (datasetType === null ? isDocument : dataset.datasetType !== datasetType) {
+                return null;
+            }
+            return dataset.validate(vaultId) ? dataset : null;
+        }
+        catch (err) {
+            this.logger.warn("Malformed data received for vault %s: %s", vaultName, err.message);
+            return null;
+        }
+    }
+
+    /**
+     * Accept vault content which was replicated from a peer, unless it is older than the content
+     * this device has already accepted, or drops a signing key transition which was accepted.
+     * Such content is a replay by the peer, or was signed by a replaced key, so the accepted
+     * content is written back over it, which also replicates the accepted content back to the peer.
+     */
+    private async acceptReplicatedContent(
+        vault: VaultDatabase, dataset: IVaultDataset, content: Buffer, source: string): Promise<void>
+    {
+        const accepted = await vault.getAcceptedContent();
+        const keepsTransitions = !accepted || continuesKeyTransitions(deserialize(accepted.content), dataset);
+        if (!keepsTransitions) {
+            this.logger.warn("Rejected content of vault %s from %s: it does not keep the accepted signing key transitions",
+                vault.name, source);
+        }
+        if (keepsTransitions && !await vault.isRollback(dataset.version, source)) {
+            await vault.setAcceptedContent(dataset.version, content);
+            return;
+        }
+
+        if (await vault.setContent(accepted.content)) {
+            this.logger.info("Restored version %d of vault %s", accepted.version, vault.name);
+        }
+        else {
+            this.logger.crit("Failed to restore version %d of vault %s", accepted.version, vault.name);
+        }
+    }
+
+    /**
+     * Warn if replication left a vault with conflicting versions of its content.
+     * Only clients can merge the versions, as the server cannot decrypt them; clients find them with
+     * {@link VaultDatabase.getConflicts}.
+     */
+    private async reportConflicts(vault: VaultDatabase): Promise<void> {
+        const conflict = await vault.getConflicts();
+        if (conflict) {
+            this.logger.warn("Vault %s has %d conflicting versions, which must be merged by a client",
+                vault.name, conflict.conflicts.length + 1);
+        }
+    }
+
     private getOrCreateMap(vaultId: string): Map<string, VaultSyncToken> {
         let connectionMap;
         return (connectionMap = this.connections.get(vaultId) || null)
@@ -1,15 +1,41 @@
 import path from "path";
-import { pki } from "node-forge";
-import { readFile, mkdir } from "fs";
-import { randomUUID } from "crypto";
+import tls from "tls";
+import https from "https";
+import { pki, md } from "node-forge";
+import { promises as fs } from "fs";
+import { createHash, randomBytes, randomUUID, X509Certificate } from "crypto";
 
 import Service from "./baseService";
+import AdminService, { PeerCertificateRecord } from "./admin";
 
 export interface TlsKeyPair {
     key: Buffer,
     cert: Buffer,
 }
 
+export interface DeviceIdentity extends TlsKeyPair {
+    uniqueId: string;
+}
+
+export interface PeerTrustAlert {
+    uniqueId: string;
+    hostname: string;
+    expectedFingerprint: string;
+    receivedFingerprint: string;
+    timestamp: Date;
+}
+
+/**
+ * Locations of the identity files, relative to the root directory.
+ * All identity files are kept together so that they can be discarded (or backed up) as a unit.
+ */
+const identityFiles = {
+    directory: "identity",
+    uniqueId: "device-id",
+    key: "tls.key",
+    cert: "tls.crt",
+};
+
 /**
  * @name IdentityService
  * @summary Service container for local identity information.
@@ -21,9 +47,16 @@ export interface TlsKeyPair {
  */
 export default class IdentityService extends Service {
     private readonly uniqueId: string;
+    private readonly peerCertificates: Map<string, PeerCertificateRecord>;
+    private readonly trustAlerts: PeerTrustAlert[];
+    private adminService?: AdminService;
+
     constructor(uniqueId: string, private readonly keyPair?: TlsKeyPair) {
         super();
         this.uniqueId = uniqueId;
+        this.peerCertificates = new Map<string, PeerCertificateRecord>();
+        this.trustAlerts = [];
+        this.adminService = null;
     }
 
     /**
@@ -40,7 +73,16 @@ export default class IdentityService extends Service {
         bits: 2048,
     };
 
-    public static async loadTlsKeyPair(rootDir: string): Promise<TlsKeyPair> {
+    /**
+     * @name createTlsKeyPair
+     * @summary Generate a new self-signed TLS key pair for the given device identifier.
+     * @description The device identifier is used as the certificate's common name,
+     * so that the certificate presented by a peer can be traced back to its unique ID.
+     *
+     * @param uniqueId {string} Unique identifier of the device which owns the certificate.
+     * @returns Promise which resolves to a PEM-encoded private key and certificate.
+     */
+    public static async createTlsKeyPair(uniqueId: string): Promise<TlsKeyPair> {
         let { publicKey, privateKey } = await new Promise<pki.rsa.KeyPair>(function(resolve, reject) {
             pki.rsa.generateKeyPair(IdentityService.rsaOptions, (err, keyPair) => {
                 if (err) reject(err);
@@ -48,42 +90,373 @@ export default class IdentityService extends Service {
             });
         });
 
+        const attributes = [{ name: "commonName", value: uniqueId }];
         let cert = pki.createCertificate();
         cert.publicKey = publicKey;
-        cert.sign(privateKey);
+        // The leading 0x01 byte keeps the serial number positive, as required by RFC 5280.
+        cert.serialNumber = "01" + randomBytes(15).toString("hex");
+        cert.setSubject(attributes);
+        cert.setIssuer(attributes);
+        cert.validity.notBefore = new Date();
         cert.validity.notAfter = new Date();
-        cert.validity.notAfter.setFullYear(2100); // temporary, until per-device identity model is implemented
+        cert.validity.notAfter.setFullYear(2100);
+        cert.sign(privateKey, md.sha256.create());
+
         return {
             key: Buffer.from(pki.privateKeyToPem(privateKey)),
-            cert: Buffer.from(pki.certificateToPem(cert))
+            cert: Buffer.from(pki.certificateToPem(cert)),
         };
     }
 
+    /**
+     * @name loadTlsKeyPair
+     * @summary Load the previously stored device identity from the given root directory.
+     *
+     * @param rootDir {string} Root directory where the identity files were stored.
+     * @returns Promise which resolves to the stored identity.
+     * Resolves to null if no complete identity is stored in the root directory.
+     */
+    public static async loadTlsKeyPair(rootDir: string): Promise<DeviceIdentity | null> {
+        const identityDir = path.join(rootDir, identityFiles.directory);
+
+        try {
+            const [ uniqueId, key, cert ] = await Promise.all([
+                fs.readFile(path.join(identityDir, identityFiles.uniqueId), "utf-8"),
+                fs.readFile(path.join(identityDir, identityFiles.key)),
+                fs.readFile(path.join(identityDir, identityFiles.cert)),
+            ]);
+            if (uniqueId.trim().length === 0) {
+                return null;
+            }
+            return { uniqueId: uniqueId.trim(), key, cert };
+        }
+        catch (err) {
+            if (err?.code === "ENOENT") {
+                return null;
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * @name saveTlsKeyPair
+     * @summary Store the given device identity in the root directory, replacing any existing identity.
+     *
+     * @param rootDir {string} Root directory to store the identity files in.
+     * @param identity {DeviceIdentity} Identity to store.
+     */
+    public static async saveTlsKeyPair(rootDir: string, identity: DeviceIdentity): Promise<void> {
+        const identityDir = path.join(rootDir, identityFiles.directory);
+
+        await fs.mkdir(identityDir, { recursive: true, mode: 0o700 });
+        await Promise.all([
+            fs.writeFile(path.join(identityDir, identityFiles.uniqueId), identity.uniqueId, { mode: 0o600 }),
+            fs.writeFile(path.join(identityDir, identityFiles.key), identity.key, { mode: 0o600 }),
+            fs.writeFile(path.join(identityDir, identityFiles.cert), identity.cert, { mode: 0o644 }),
+        ]);
+    }
+
     public getTlsKeyPair(): TlsKeyPair {
         return this.keyPair;
     }
+
+    /**
+     * @name getCertificate
+     * @description Get the DER-encoded TLS certificate presented by the local device.
+     *
+     * @returns DER-encoded certificate, or null if the service has no TLS key pair.
+     */
+    public getCertificate(): Buffer | null {
+        return this.keyPair ? new X509Certificate(this.keyPair.cert).raw : null;
+    }
+
+    /**
+     * @name getFingerprint
+     * @summary Compute the SHA-256 fingerprint of a DER-encoded certificate.
+     *
+     * The fingerprint uses the same format as Node.js' `fingerprint256` certificate field
+     * (colon-separated, uppercase hex), so that both can be compared directly.
+     *
+     * @param certificate {Buffer} DER-encoded certificate.
+     * @returns Fingerprint of the certificate.
+     */
+    public static getFingerprint(certificate: Buffer): string {
+        return createHash("sha256")
+            .update(certificate)
+            .digest("hex")
+            .toUpperCase()
+            .match(/../g)
+            .join(":");
+    }
+
+    /**
+     * @name getCertificateId
+     * @summary Get the unique ID of the device which owns a certificate.
+     *
+     * @param certificate {Buffer} DER-encoded certificate.
+     * @returns Common name of the certificate, which is the unique ID of its device.
+     * Returns null if the certificate could not be parsed or has no common name.
+     */
+    public static getCertificateId(certificate: Buffer): string | null {
+        try {
+            const commonName = new X509Certificate(certificate).subject
+                .split("\n")
+                .find(field => field.startsWith("CN="));
+            return commonName?.substring("CN=".length) ?? null;
+        }
+        catch {
+            return null;
+        }
+    }
+
+    private static certificateToPem(certificate: Buffer): string {
+        const body = certificate.toString("base64").match(/.{1,64}/g).join("\n");
+        return `-----BEGIN CERTIFICATE-----\n${body}\n-----END CERTIFICATE-----\n`;
+    }
+
+    /**
+     * @name useAdminService
+     * @method
+     * @summary Attach administrator database service to the identity service.
+     *
+     * Peer certificates bound by earlier runs are loaded from the admin service,
+     * and any newly bound certificates are recorded there.
+     *
+     * @param adminService {AdminService} Admin service container to attach.
+     * @returns {IdentityService} Pass-through of identity container object.
+     */
+    public async useAdminService(adminService: AdminService): Promise<this> {
+        this.adminService = adminService;
+
+        const records = await this.adminService.getAllPeerCertificates();
+        records.forEach(record => this.peerCertificates.set(record.uniqueId, record));
+        this.logger.info("Loaded %d trusted peer certificate(s)", records.length);
+
+        return this;
+    }
+
+    /**
+     * @name verifyPeerCertificate
+     * @method
+     * @summary Check the certificate presented by a peer against the one bound to its unique ID.
+     * @description The presented certificate is only accepted if its fingerprint matches the one
+     * bound to the peer when it was paired (see {@link PairingService}).
+     * Peers which were never paired are not trusted.
+     * A mismatch raises a trust alert, see {@link IdentityService#getTrustAlerts}.
+     *
+     * @param uniqueId {string} Unique ID that the peer claims.
+     * @param certificate {Buffer} DER-encoded certificate presented by the peer.
+     * @param hostname {string} Network location of the peer, for reporting purposes.
+     * @returns Promise which resolves to true if the certificate is trusted for that peer.
+     */
+    public async verifyPeerCertificate(uniqueId: string, certificate: Buffer, hostname: string = "unknown"): Promise<boolean> {
+        if (!certificate || certificate.length === 0) {
+            this.logger.warn("Peer %s at %s did not present a certificate", uniqueId, hostname);
+            return false;
+        }
+
+        const fingerprint = IdentityService.getFingerprint(certificate);
+        const record = this.peerCertificates.get(uniqueId);
+        if (!record) {
+            this.logger.warn("Peer %s at %s has not been paired with this device", uniqueId, hostname);
+            return false;
+        }
+        else if (record.fingerprint !== fingerprint) {
+            this.raiseTrustAlert(uniqueId, hostname, record.fingerprint, fingerprint);
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * @name authenticatePeer
+     * @method
+     * @summary Determine which device a client certificate belongs to.
+     * @description The certificate is only accepted if it is the one bound to the device
+     * named by its common name, or if it is the local device's own certificate.
+     * As with {@link IdentityService#verifyPeerCertificate}, a mismatch raises a trust alert.
+     *
+     * @param certificate {Buffer|null} DER-encoded certificate presented by the client, if any.
+     * @param hostname {string} Network location of the client, for reporting purposes.
+     * @returns Promise which resolves to the unique ID of the authenticated device.
+     * Resolves to null if the certificate is not trusted.
+     */
+    public async authenticatePeer(certificate: Buffer | null, hostname: string = "unknown"): Promise<string | null> {
+        const uniqueId = certificate?.length > 0 ? IdentityService.getCertificateId(certificate) : null;
+        if (!uniqueId) {
+            this.logger.warn("Client at %s did not present a valid certificate", hostname);
+            return null;
+        }
+        if (uniqueId === this.uniqueId) {
+            return this.getCertificate()?.equals(certificate) ? uniqueId : null;
+        }
+
+        return await this.verifyPeerCertificate(uniqueId, certificate, hostname) ? uniqueId : null;
+    }
+
+    /**
+     * @name trustPeerCertificate
+     * @method
+     * @summary Bind a certificate to the given peer's unique ID.
+     * @description Any certificate already bound to the peer is replaced.
+     * Only call this once the certificate is known to belong to the peer,
+     * for example once the user has confirmed a pairing with it.
+     *
+     * @param uniqueId {string} Unique ID of the peer to trust.
+     * @param certificate {Buffer} DER-encoded certificate of the peer.
+     */
+    public async trustPeerCertificate(uniqueId: string, certificate: Buffer): Promise<void> {
+        const fingerprint = IdentityService.getFingerprint(certificate);
+        const newRecord: PeerCertificateRecord = {
+            uniqueId,
+            fingerprint,
+            certificate: IdentityService.certificateToPem(certificate),
+            firstSeen: new Date().toISOString(),
+        };
+        this.logger.info("Trusting certificate %s for peer %s", fingerprint, uniqueId);
+        this.peerCertificates.set(uniqueId, newRecord);
+        await this.adminService?.recordPeerCertificate(newRecord)
+            .catch(err => this.logger.error("Failed to record certificate for peer %s", uniqueId, err));
+    }
+
+    private raiseTrustAlert(uniqueId: string, hostname: string, expectedFingerprint: string, receivedFingerprint: string): void {
+        this.logger.error(
+            "CERTIFICATE MISMATCH for peer %s at %s: expected %s, received %s. The connection was blocked; " +
+            "this device may be impersonating the peer.",
+            uniqueId, hostname, expectedFingerprint, receivedFingerprint);
+        this.trustAlerts.push({
+            uniqueId,
+            hostname,
+            expectedFingerprint,
+            receivedFingerprint,
+            timestamp: new Date(),
+        });
+    }
+
+    /**
+     * @name getPeerAgent
+     * @method
+     * @summary Create an HTTPS agent which only connects to the given peer.
+     * @description The returned agent only keeps connections to a server presenting
+     * the certificate bound to the given peer. Any other certificate fails the connection
+     * and raises a trust alert.
+     *
+     * @param uniqueId {string} Unique ID of the peer to connect to.
+     * @returns HTTPS agent pinned to the peer's certificate.
+     * Returns null if no certificate is bound to the peer yet.
+     */
+    public getPeerAgent(uniqueId: string): https.Agent | null {
+        const record = this.peerCertificates.get(uniqueId);
+        if (!record) {
+            return null;
+        }
+
+        return new PinnedPeerAgent(record, this.keyPair, (hostname, fingerprint) => {
+            this.raiseTrustAlert(uniqueId, hostname, record.fingerprint, fingerprint);
+        });
+    }
+
+    /**
+     * @name getPeerCertificates
+     * @description Get the certificate records of all peers trusted by this device.
+     */
+    public getPeerCertificates(): PeerCertificateRecord[] {
+        return Array.from(this.peerCertificates.values());
+    }
+
+    /**
+     * @name forgetPeer
+     * @method
+     * @summary Remove the certificate bound to the given peer.
+     * The peer must be paired again before it is trusted.
+     *
+     * @param uniqueId {string} Unique ID of the peer to forget.
+     * @returns Promise which resolves to true if the peer had a bound certificate.
+     */
+    public async forgetPeer(uniqueId: string): Promise<boolean> {
+        if (!this.peerCertificates.delete(uniqueId)) {
+            return false;
+        }
+        await this.adminService?.removePeerCertificate(uniqueId);
+        return true;
+    }
+
+    /**
+     * @name getTrustAlerts
+     * @description Get all certificate mismatches raised since the service started, oldest first.
+     */
+    public getTrustAlerts(): PeerTrustAlert[] {
+        return [...this.trustAlerts];
+    }
 }
 
 /**
  * @name generateNewIdentity
- * @summary Create a brand-new identity object (as of v0.0.1, just a string) from random.
+ * @summary Create a brand-new identity (unique ID and TLS key pair) from random.
  * @function
  *
- * @returns Promise which resolves to a new unique identifier string.
+ * @param rootDir {string|null} Root directory to store the new identity in.
+ * Any identity already stored there is replaced.
+ * If null, the identity is not stored and is lost on exit.
+ * @returns Promise which resolves to the new identity.
  */
-async function generateNewIdentity(rootDir: string): Promise<{ uniqueId: string } & TlsKeyPair> {
-    const keyPair = await IdentityService.loadTlsKeyPair(rootDir)
-        .catch(err => {
-            console.error("Could not load TLS certificate:", err.message);
-            return { key: undefined, cert: undefined };
-        });
+async function generateNewIdentity(rootDir: string | null = null): Promise<DeviceIdentity> {
+    const uniqueId = randomUUID();
+    const keyPair = await IdentityService.createTlsKeyPair(uniqueId);
+    const identity = { uniqueId, ...keyPair };
 
-    return {
-        uniqueId: randomUUID(),
-        ...keyPair,
-    };
+    if (rootDir) {
+        await IdentityService.saveTlsKeyPair(rootDir, identity);
+    }
+    return identity;
+}
+
+/**
+ * @name loadIdentity
+ * @summary Load the device identity stored in the root directory, creating one if none exists yet.
+ * @function
+ *
+ * @param rootDir {string} Root directory where the identity is stored.
+ * @returns Promise which resolves to the stored identity, or to a newly stored identity.
+ */
+async function loadIdentity(rootDir: string): Promise<DeviceIdentity> {
+    return await IdentityService.loadTlsKeyPair(rootDir)
+        ?? await generateNewIdentity(rootDir);
 }
 
 export {
     generateNewIdentity,
+    loadIdentity,
 };
+
+
+/**
+ * HTTPS agent which only keeps connections to a server presenting the pinned certificate.
+ * The certificate is checked once the handshake completes, before any request is written,
+ * so that the fingerprint of a mismatching certificate can still be reported.
+ * Session resumption is disabled, as resumed sessions would skip the check.
+ * The local key pair, if any, is presented as the client certificate.
+ */
+class PinnedPeerAgent extends https.Agent {
+    constructor(
+        private record: PeerCertificateRecord,
+        keyPair: TlsKeyPair | undefined,
+        private onMismatch: (hostname: string, fingerprint: string) => void,
+    ) {
+        super({ maxCachedSessions: 0, ...keyPair });
+    }
+
+    public createConnection(options: tls.ConnectionOptions): tls.TLSSocket {
+        const socket = tls.connect({ ...options, rejectUnauthorized: false });
+        socket.once("secureConnect", () => {
+            const { raw = null } = socket.getPeerCertificate(true) ?? {};
+            const fingerprint = raw ? IdentityService.getFingerprint(raw) : "none";
+            if (fingerprint !== this.record.fingerprint) {
+                this.onMismatch(`${options.host}:${options.port}`, fingerprint);
+                socket.destroy(new Error(`Certificate mismatch for peer ${this.record.uniqueId}`));
+            }
+        });
+        return socket;
+    }
+}
@@ -5,6 +5,7 @@ import ActivityService from "./activity";
 import ConnectionService from "./connection";
 import WebService from "./web";
 import AdminService from "./admin";
+import PairingService from "./pairing";
 
 interface ServiceList {
     [serviceName: string]: Service;
@@ -17,6 +18,7 @@ export interface ServiceContainer extends ServiceList {
     connection: ConnectionService;
     web: WebService;
     admin: AdminService;
+    pairing: PairingService;
 }
 
 export * from "./baseService";
@@ -26,6 +28,7 @@ export * from "./activity";
 export * from "./connection";
 export * from "./web";
 export * from "./admin";
+export * from "./pairing";
 
 export {
     VaultService,
@@ -34,4 +37,5 @@ export {
     ConnectionService,
     WebService,
     AdminService,
+    PairingService,
 };
@@ -0,0 +1,473 @@
+import https from "https";
+import http from "http";
+import { TLSSocket } from "tls";
+import {
+    createHash,
+    createPublicKey,
+    diffieHellman,
+    generateKeyPairSync,
+    KeyObject,
+    randomBytes,
+    timingSafeEqual,
+} from "crypto";
+
+import Service from "./baseService";
+import IdentityService from "./identity";
+import {
+    isPairingResponseDecl,
+    PairingConfirmDecl,
+    PairingRequestDecl,
+    PairingResponseDecl,
+    PairingRevealDecl,
+} from "../discovery";
+import { failItem, Option, Result, success, successItem } from "../error";
+
+export enum PairingStatus {
+    NOT_FOUND = "PAIRING_NOT_FOUND",
+    REFUSED = "PAIRING_REFUSED",
+}
+
+export type PairingResult = Result<PairingStatus>;
+export type PairingOption<T> = Option<T, PairingStatus>;
+
+export interface PairingSession {
+    pairingId: string;
+    uniqueId: string;
+    hostname: string;
+    code: string | null;
+    initiator: boolean;
+    peerAccepted: boolean;
+    expires: Date;
+}
+
+interface PairingState extends PairingSession {
+    privateKey: KeyObject;
+    publicKey: Buffer;
+    commitment: Buffer | null;
+    peerCertificate: Buffer | null;
+    location: { hostname: string, portNum: number } | null;
+}
+
+interface PairingReply<T> {
+    statusCode: number;
+    body: T | null;
+    certificate: Buffer | null;
+}
+
+/**
+ * Pending pairings are discarded after this many milliseconds,
+ * and at most this many pairings may be pending at once, of which this many may be requested from one address.
+ */
+const pairingLifetime = 5 * 60 * 1000;
+const maxPendingPairings = 16;
+const maxPendingPairingsPerAddress = 2;
+const codeDigits = 6;
+
+/**
+ * @name PairingService
+ * @summary Service container for pairing the local device with peers.
+ * @description Pairing binds a peer's certificate to its unique ID once the user has confirmed
+ * that both devices show the same short code. Peers must be paired before they can be linked.
+ *
+ * The initiating device sends a commitment to its ephemeral X25519 key and certificate.
+ * The responding device replies with its own ephemeral key, then the initiator reveals its key.
+ * Both devices derive the code from the shared secret and both certificates, so a device in the
+ * middle of the exchange cannot make the codes match, and cannot choose its keys to do so
+ * as the initiator's key is fixed before the responder's key is known.
+ * @class
+ */
+export default class PairingService extends Service {
+    private readonly pairings: Map<string, PairingState>;
+
+    constructor(private identity: IdentityService) {
+        super();
+        this.pairings = new Map<string, PairingState>();
+    }
+
+    /**
+     * @name sendPairingMessage
+     * @private
+     * @function
+     *
+     * @summary Send a pairing message to the peer at the given address.
+     * @description The peer's certificate is not known before pairing completes,
+     * so any certificate is accepted here and returned for the caller to check.
+     *
+     * @returns Promise which resolves to the status, parsed body and certificate of the response.
+     */
+    private sendPairingMessage<T>(hostname: string, portNum: number, path: string, message: object): Promise<PairingReply<T>> {
+        return new Promise<PairingReply<T>>(function(resolve, reject) {
+            https.request({
+                    method: "POST",
+                    hostname,
+                    port: portNum,
+                    path,
+                    rejectUnauthorized: false,
+                    agent: false,
+                    headers: {
+                        "Content-Type": "application/json",
+                    },
+                },
+                function(res: http.IncomingMessage) {
+                    const certificate: Buffer = (res.socket as TLSSocket).getPeerCertificate(true)?.raw ?? null;
+                    const data: Buffer[] = [];
+                    res.on("data", chunk => data.push(chunk));
+                    res.on("error", err => reject(err));
+                    res.on("end", () => {
+                        let body: T = null;
+                        try {
+                            body = data.length > 0 ? JSON.parse(Buffer.concat(data).toString()) : null;
+                        }
+                        catch {
+                            body = null;
+                        }
+                        resolve({ statusCode: res.statusCode, body, certificate });
+                    });
+                })
+                .on("error", err => reject(err))
+                .end(JSON.stringify(message));
+        });
+    }
+
+    private removeExpiredPairings() {
+        const now = Date.now();
+        for (let [pairingId, pairing] of this.pairings) {
+            if (pairing.expires.getTime() <= now) {
+                this.logger.info("Pairing %s with peer %s expired", pairingId, pairing.uniqueId);
+                this.pairings.delete(pairingId);
+            }
+        }
+    }
+
+    private createPairing(pairingId: string, uniqueId: string, hostname: string, initiator: boolean): PairingState {
+        const { publicKey, privateKey } = generateKeyPairSync("x25519");
+        return {
+            pairingId,
+            uniqueId,
+            hostname,
+            code: null,
+            initiator,
+            peerAccepted: false,
+            expires: new Date(Date.now() + pairingLifetime),
+            privateKey,
+            publicKey: publicKey.export({ type: "spki", format: "der" }),
+            commitment: null,
+            peerCertificate: null,
+            location: null,
+        };
+    }
+
+    /**
+     * @name startPairing
+     * @method
+     * @summary Start pairing with the peer at the given address.
+     * @description Performs the key exchange with the peer and derives the pairing code.
+     * The peer is not trusted until the pairing is confirmed, see {@link PairingService#confirmPairing}.
+     *
+     * @param hostname {string} IP address or hostname of the peer.
+     * @param portNum {number} TCP port number of the peer.
+     * @returns Promise which resolves to the pending pairing, including the code to compare.
+     */
+    public async startPairing(hostname: string, portNum: number): Promise<PairingOption<PairingSession>> {
+        this.removeExpiredPairings();
+
+        const localCertificate = this.identity.getCertificate();
+        if (!localCertificate) {
+            return failItem({ message: "Cannot pair without a TLS certificate" });
+        }
+
+        const location = `${hostname}:${portNum}`;
+        const pairing = this.createPairing(null, null, location, true);
+        try {
+            const request: PairingRequestDecl = {
+                uniqueId: this.identity.getId(),
+                commitment: createCommitment(pairing.publicKey, localCertificate).toString("base64"),
+            };
+            const { body: response, certificate } = await this
+                .sendPairingMessage<PairingResponseDecl>(hostname, portNum, "/pair", request);
+            if (!isPairingResponseDecl(response)) {
+                return failItem({
+                    status: PairingStatus.REFUSED,
+                    message: `Peer at ${location} refused to pair`,
+                });
+            }
+            if (!isCertificateOf(certificate, response.uniqueId) || this.pairings.has(response.pairingId)) {
+                return failItem({ message: `Peer at ${location} presented a certificate which is not its own` });
+            }
+
+            const reveal: PairingRevealDecl = {
+                pairingId: response.pairingId,
+                publicKey: pairing.publicKey.toString("base64"),
+                certificate: localCertificate.toString("base64"),
+            };
+            const revealReply = await this.sendPairingMessage(hostname, portNum, "/pair/reveal", reveal);
+            if (!isSameCertificate(revealReply.certificate, certificate)) {
+                return failItem({ message: `Peer at ${location} changed certificates during pairing` });
+            }
+            if (revealReply.statusCode !== 204) {
+                return failItem({
+                    status: PairingStatus.REFUSED,
+                    message: `Peer at ${location} refused to pair`,
+                });
+            }
+
+            const peerPublicKey = Buffer.from(response.publicKey, "base64");
+            pairing.pairingId = response.pairingId;
+            pairing.uniqueId = response.uniqueId;
+            pairing.peerCertificate = certificate;
+            pairing.location = { hostname, portNum };
+            pairing.code = derivePairingCode(
+                computeSharedSecret(pairing.privateKey, peerPublicKey),
+                [this.identity.getId(), pairing.publicKey, localCertificate],
+                [response.uniqueId, peerPublicKey, certificate]);
+        }
+        catch (err) {
+            this.logger.warn("Pairing with %s failed", location, err);
+            return failItem({ message: `Failed to pair with ${location}: ${err?.message ?? "unknown error"}` });
+        }
+
+        this.pairings.set(pairing.pairingId, pairing);
+        this.logger.info("Pairing %s started with peer %s at %s", pairing.pairingId, pairing.uniqueId, location);
+        return successItem(toPairingSession(pairing), { message: `Pairing started with Peer[${pairing.uniqueId}]` });
+    }
+
+    /**
+     * @name confirmPairing
+     * @method
+     * @summary Accept or reject a pending pairing once the user has compared the codes.
+     * @description Accepting a pairing binds the peer's certificate to its unique ID.
+     * If the pairing was started by this device, the peer is told of the decision.
+     *
+     * @param pairingId {string} ID of the pending pairing.
+     * @param accepted {boolean} Whether the user confirmed that both devices show the same code.
+     * @returns Promise which resolves to the outcome of the pairing.
+     */
+    public async confirmPairing(pairingId: string, accepted: boolean): Promise<PairingResult> {
+        this.removeExpiredPairings();
+
+        const pairing = this.pairings.get(pairingId);
+        if (!pairing || pairing.code === null) {
+            return {
+                status: PairingStatus.NOT_FOUND,
+                success: false,
+                message: `No pending pairing with ID ${pairingId}`,
+            };
+        }
+        this.pairings.delete(pairingId);
+
+        if (pairing.initiator) {
+            const { hostname, portNum } = pairing.location;
+            const confirmation: PairingConfirmDecl = { pairingId, accepted };
+            const reply = await this.sendPairingMessage(hostname, portNum, "/pair/confirm", confirmation)
+                .catch(err => {
+                    this.logger.warn("Could not send pairing confirmation to %s", pairing.hostname, err);
+                    return null;
+                });
+            if (accepted && (reply?.statusCode !== 204 || !isSameCertificate(reply.certificate, pairing.peerCertificate))) {
+                return {
+                    status: PairingStatus.REFUSED,
+                    success: false,
+                    message: `Peer[${pairing.uniqueId}] is no longer pairing with this device`,
+                };
+            }
+        }
+
+        if (!accepted) {
+            this.logger.info("Pairing %s with peer %s was rejected", pairingId, pairing.uniqueId);
+            return success({ message: `Rejected pairing with Peer[${pairing.uniqueId}]` });
+        }
+
+        await this.identity.trustPeerCertificate(pairing.uniqueId, pairing.peerCertificate);
+        return success({ message: `Paired with Peer[${pairing.uniqueId}]` });
+    }
+
+    /**
+     * @name receivePairingRequest
+     * @method
+     * @summary Handle the first message of a pairing started by a peer.
+     *
+     * @param request {PairingRequestDecl} Pairing request sent by the peer.
+     * @param hostname {string} Network location of the peer, for display purposes.
+     * @returns Response to send back to the peer, or null if the request is refused.
+     */
+    public receivePairingRequest(request: PairingRequestDecl, hostname: string): PairingResponseDecl | null {
+        this.removeExpiredPairings();
+
+        if (request.uniqueId === this.identity.getId() || !this.identity.getCertificate()) {
+            return null;
+        }
+
+        const requested = [ ...this.pairings.values() ].filter(pairing => !pairing.initiator);
+        if (requested.filter(pairing => pairing.hostname === hostname).length >= maxPendingPairingsPerAddress) {
+            this.logger.warn("Refusing pairing request from %s, too many pending pairings from its address", hostname);
+            return null;
+        }
+        if (this.pairings.size >= maxPendingPairings) {
+            // Requests need no authentication, so the oldest pairing which was never revealed makes way for new ones,
+            // rather than letting requests which are never followed up block pairing until they expire.
+            const [ unrevealed = null ] = requested.filter(pairing => pairing.code === null);
+            if (!unrevealed) {
+                this.logger.warn("Refusing pairing request from %s, too many pending pairings", hostname);
+                return null;
+            }
+            this.logger.info("Discarding pairing %s with peer %s, which was never revealed",
+                unrevealed.pairingId, unrevealed.uniqueId);
+            this.pairings.delete(unrevealed.pairingId);
+        }
+
+        const pairing = this.createPairing(randomBytes(6).toString("hex"), request.uniqueId, hostname, false);
+        pairing.commitment = Buffer.from(request.commitment, "base64");
+        this.pairings.set(pairing.pairingId, pairing);
+
+        return {
+            pairingId: pairing.pairingId,
+            uniqueId: this.identity.getId(),
+            publicKey: pairing.publicKey.toString("base64"),
+        };
+    }
+
+    /**
+     * @name receivePairingReveal
+     * @method
+     * @summary Handle the key revealed by the peer which started a pairing.
+     * @description The revealed key and certificate must match the commitment sent with the request.
+     * Once they do, the pairing code is derived and the pairing awaits confirmation by the user.
+     *
+     * @param reveal {PairingRevealDecl} Key and certificate revealed by the peer.
+     * @returns True if the reveal was accepted.
+     */
+    public receivePairingReveal(reveal: PairingRevealDecl): boolean {
+        this.removeExpiredPairings();
+
+        const pairing = this.pairings.get(reveal.pairingId);
+        if (!pairing || pairing.initiator || pairing.code !== null) {
+            return false;
+        }
+
+        const peerPublicKey = Buffer.from(reveal.publicKey, "base64");
+        const peerCertificate = Buffer.from(reveal.certificate, "base64");
+        const commitment = createCommitment(peerPublicKey, peerCertificate);
+        if (commitment.length !== pairing.commitment.length || !timingSafeEqual(commitment, pairing.commitment)) {
+            this.logger.warn("Pairing %s with peer %s does not match its commitment", pairing.pairingId, pairing.uniqueId);
+            this.pairings.delete(pairing.pairingId);
+            return false;
+        }
+        if (!isCertificateOf(peerCertificate, pairing.uniqueId)) {
+            this.logger.warn("Pairing %s: certificate does not belong to peer %s", pairing.pairingId, pairing.uniqueId);
+            this.pairings.delete(pairing.pairingId);
+            return false;
+        }
+
+        try {
+            pairing.code = derivePairingCode(
+                computeSharedSecret(pairing.privateKey, peerPublicKey),
+                [pairing.uniqueId, peerPublicKey, peerCertificate],
+                [this.identity.getId(), pairing.publicKey, this.identity.getCertificate()]);
+        }
+        catch (err) {
+            this.logger.warn("Pairing %s with peer %s failed", pairing.pairingId, pairing.uniqueId, err);
+            this.pairings.delete(pairing.pairingId);
+            return false;
+        }
+        pairing.peerCertificate = peerCertificate;
+
+        this.logger.info("Pairing %s requested by peer %s at %s", pairing.pairingId, pairing.uniqueId, pairing.hostname);
+        return true;
+    }
+
+    /**
+     * @name receivePairingConfirmation
+     * @method
+     * @summary Handle the decision of the peer which started a pairing.
+     * @description A rejected pairing is discarded. An accepted pairing still has to be
+     * confirmed locally before the peer is trusted.
+     *
+     * @param confirmation {PairingConfirmDecl} Decision sent by the peer.
+     * @returns True if the pairing was pending.
+     */
+    public receivePairingConfirmation(confirmation: PairingConfirmDecl): boolean {
+        this.removeExpiredPairings();
+
+        const pairing = this.pairings.get(confirmation.pairingId);
+        if (!pairing || pairing.initiator || pairing.code === null) {
+            return false;
+        }
+
+        if (confirmation.accepted) {
+            pairing.peerAccepted = true;
+        }
+        else {
+            this.logger.warn("Pairing %s was rejected by peer %s", pairing.pairingId, pairing.uniqueId);
+            this.pairings.delete(pairing.pairingId);
+        }
+        return true;
+    }
+
+    /**
+     * @name getPairings
+     * @description Get all pairings which are waiting to be confirmed by the user.
+     */
+    public getPairings(): PairingSession[] {
+        this.removeExpiredPairings();
+        return Array.from(this.pairings.values())
+            .filter(pairing => pairing.code !== null)
+            .map(toPairingSession);
+    }
+}
+
+function toPairingSession({ pairingId, uniqueId, hostname, code, initiator, peerAccepted, expires }: PairingState): PairingSession {
+    return { pairingId, uniqueId, hostname, code, initiator, peerAccepted, expires };
+}
+
+function createCommitment(publicKey: Buffer, certificate: Buffer): Buffer {
+    return createHash("sha256")
+        .update(publicKey)
+        .update(certificate)
+        .digest();
+}
+
+function computeSharedSecret(privateKey: KeyObject, peerPublicKey: Buffer): Buffer {
+    return diffieHellman({
+        privateKey,
+        publicKey: createPublicKey({ key: peerPublicKey, format: "der", type: "spki" }),
+    });
+}
+
+function isCertificateOf(certificate: Buffer | null, uniqueId: string): boolean {
+    return !!certificate && IdentityService.getCertificateId(certificate) === uniqueId;
+}
+
+function isSameCertificate(certificate: Buffer | null, expected: Buffer): boolean {
+    return !!certificate && certificate.equals(expected);
+}
+
+/**
+ * @name derivePairingCode
+ * @summary Derive the short code which both sides of a pairing compare.
+ * @function
+ *
+ * @param sharedSecret {Buffer} X25519 shared secret of the pairing.
+ * @param initiator Unique ID, ephemeral public key and certificate of the device which started the pairing.
+ * @param responder Unique ID, ephemeral public key and certificate of the device which was asked to pair.
+ * @returns Decimal code of {@link codeDigits} digits.
+ */
+function derivePairingCode(
+    sharedSecret: Buffer,
+    initiator: [string, Buffer, Buffer],
+    responder: [string, Buffer, Buffer]): string
+{
+    const hash = createHash("sha256").update("munkey-pairing");
+    for (let field of [sharedSecret, ...initiator, ...responder]) {
+        const fieldData = Buffer.from(field);
+        const fieldSize = Buffer.alloc(4);
+        fieldSize.writeUInt32BE(fieldData.length);
+        hash.update(fieldSize).update(fieldData);
+    }
+
+    const code = hash.digest().readUInt32BE(0) % (10 ** codeDigits);
+    return code.toString().padStart(codeDigits, "0");
+}
+
+export {
+    derivePairingCode,
+};
@@ -1,6 +1,153 @@
 import winston from "winston";
-import { VaultDB } from "../baseService";
+import { DatabaseDocument, VaultDB } from "../baseService";
+import { continuesKeyTransitions, deserialize, hashDataset, VaultDatasetType } from "../../encryption/serialize";
 
+/**
+ * Latest content of a vault which this device has accepted, along with its version.
+ */
+export interface AcceptedContent {
+    version: number;
+    content: Buffer;
+}
+
+/**
+ * Version of the content of a vault, as one revision of the vault document.
+ */
+export interface ContentRevision {
+    rev: string;
+    content: Buffer;
+}
+
+/**
+ * Versions of the content of a vault which were written concurrently, such as by devices which were offline.
+ * PouchDB picks one of them as the content of the vault, and keeps the others as conflicting revisions.
+ */
+export interface VaultConflict {
+    // Revision which is read as the content of the vault until the conflict is resolved.
+    current: ContentRevision;
+    conflicts: ContentRevision[];
+    // Content of the latest revision which every revision descends from, if it is still stored.
+    base: Buffer | null;
+}
+
+interface TrashDocument {
+    _id: string;
+    _rev?: string;
+    deleted: string;
+}
+
+interface TrashReceiptDocument {
+    _id: string;
+    _rev?: string;
+    // Deletion time of the trash document which was received, and when this device received it.
+    deleted: string | null;
+    received: string | null;
+}
+
+interface AcceptedContentDocument {
+    _id: string;
+    _rev?: string;
+    version: number;
+    content: string;
+}
+
+// Local documents are never replicated, so each device keeps its own record of what it has accepted.
+const acceptedContentId = "_local/accepted";
+
+// Each entry of a vault with an entry index is stored as an attachment of its own document.
+const entryDocumentPrefix = "entry/";
+const entryAttachmentId = "entry";
+
+// Each version of an entry has a document named by the version's hash, which gives the ID of the entry document
+// holding it, so that the version an entry replaced is found from the hash it was signed with.
+// The documents are not signed, so the version they lead to is checked against the hash.
+const entryVersionPrefix = "entry-version/";
+
+interface EntryVersionDocument {
+    _id: string;
+    _rev?: string;
+    entryId: string;
+}
+
+interface StoredEntryVersion {
+    entryId: string;
+    hash: Buffer;
+    content: Buffer;
+}
+
+// Files attached to entries which are too large to store in the entry are stored in documents of their own.
+const attachmentDocumentPrefix = "attachment/";
+const attachmentFileId = "file";
+
+// Entries and attached files are only deleted when they are purged from the trash. Their deleted documents hold
+// the record of the purge, signed by the vault, so that peers restore documents which anyone else deleted.
+interface PurgedDocument {
+    _id: string;
+    _rev?: string;
+    _deleted: true;
+    purge: string;
+}
+
+// A vault in the trash has a document which records when it was deleted. Unlike the accepted content, the document
+// replicates, so that a vault deleted on one device is in the trash on every device, and can be restored on any of them.
+const trashDocumentId = "trash";
+
+// The deletion time in the trash document is given by whichever device deleted the vault, so each device also records
+// when it first found the deletion, and counts the retention period from the later of both.
+const trashReceiptId = "_local/trash";
+
+/**
+ * Get the ID of the entry stored in the given document.
+ * @returns The entry ID, or null if the document does not hold an entry.
+ */
+export function getEntryId(documentId: string): string | null {
+    return documentId.startsWith(entryDocumentPrefix) ? documentId.slice(entryDocumentPrefix.length) : null;
+}
+
+export function isEntryVersionDocument(documentId: string): boolean {
+    return documentId.startsWith(entryVersionPrefix);
+}
+
+/**
+ * Get the ID of the attached file stored in the given document.
+ * @returns The attachment ID, or null if the document does not hold an attached file.
+ */
+export function getAttachmentId(documentId: string): string | null {
+    return documentId.startsWith(attachmentDocumentPrefix) ? documentId.slice(attachmentDocumentPrefix.length) : null;
+}
+
+/**
+ * Check whether the given document is the record of the vault being moved to the trash.
+ */
+export function isTrashDocument(documentId: string): boolean {
+    return documentId === trashDocumentId;
+}
+
+/**
+ * Read when a vault was moved to the trash from its trash document.
+ * @returns The time of the deletion, or null if the document does not hold a valid time.
+ */
+export function readDeletionTime(document: Partial<TrashDocument> | null): Date | null {
+    const deleted = typeof document?.deleted === "string" ? new Date(document.deleted) : null;
+    return deleted && !isNaN(deleted.getTime()) ? deleted : null;
+}
+
+/**
+ * Read the record of the purge which a deleted entry or attachment document holds.
+ * @returns The record, or null if the document does not hold one.
+ */
+export function readPurge(document: Partial<PurgedDocument> | null): Buffer | null {
+    return typeof document?.purge === "string" ? Buffer.from(document.purge, "base64") : null;
+}
+
+/**
+ * Get the attachment of a document which holds its signed content, given the document's ID.
+ */
+export function getContentAttachmentId(documentId: string): string {
+    return getEntryId(documentId) !== null ? entryAttachmentId
+        : getAttachmentId(documentId) !== null ? attachmentFileId
+        : "passwords.json";
+}
 
 export default class VaultDatabase {
     public readonly vault: VaultDB;
@@ -37,6 +184,84 @@ export default class VaultDatabase {
         return this.vault.destroy();
     }
 
+    /**
+     * @name getDeletionTime
+     * @description Get when the vault was moved to the trash, or when this device first found the deletion
+     * if that is later, so that a deletion replicated with an earlier time does not shorten the retention period.
+     * @returns Promise which resolves to the time of the deletion, or null if the vault is not in the trash.
+     */
+    public async getDeletionTime(): Promise<Date | null> {
+        let document: TrashDocument;
+        try {
+            document = await this.vault.get<TrashDocument>(trashDocumentId);
+        }
+        catch (err) {
+            if (err?.status !== 404) {
+                this.logger?.error("An error occurred while retrieving the trash record of vault %s", this.name, err);
+            }
+            return null;
+        }
+
+        const deleted = readDeletionTime(document);
+        if (!deleted) {
+            return null;
+        }
+        const received = await this.getDeletionReceipt(document.deleted);
+        return received > deleted ? received : deleted;
+    }
+
+    /**
+     * Get when this device first found the given deletion of the vault, recording it if it was not found before.
+     * If the receipt cannot be read or recorded, the deletion counts as found now, so that the vault is not purged early.
+     */
+    private async getDeletionReceipt(deleted: string): Promise<Date> {
+        const now = new Date();
+        try {
+            const receipt: TrashReceiptDocument = await this.vault.get<TrashReceiptDocument>(trashReceiptId)
+                .catch(err => err?.status === 404
+                    ? { _id: trashReceiptId, deleted: null, received: null }
+                    : Promise.reject(err));
+            const received = new Date(receipt.received ?? NaN);
+            if (receipt.deleted === deleted && !isNaN(received.getTime())) {
+                return received;
+            }
+
+            await this.vault.put<TrashReceiptDocument>({ ...receipt, deleted, received: now.toISOString() });
+        }
+        catch (err) {
+            this.logger?.error("An error occurred while recording the trash record of vault %s", this.name, err);
+        }
+        return now;
+    }
+
+    public moveToTrash(deleted: Date = new Date()): Promise<boolean> {
+        return this.vault.get<TrashDocument>(trashDocumentId)
+            .catch(err => {
+                if (err?.status === 404) {
+                    return { _id: trashDocumentId, deleted: null };
+                }
+                throw err;
+            })
+            .then(document => this.vault.put({ ...document, deleted: deleted.toISOString() }))
+            .then(result => result.ok.valueOf())
+            .catch(err => {
+                this.logger?.error("An error occurred while moving vault %s to the trash", this.name, err);
+                return false;
+            });
+    }
+
+    public restoreFromTrash(): Promise<boolean> {
+        return this.vault.get(trashDocumentId)
+            .then(document => this.vault.remove(document))
+            .then(result => result.ok.valueOf())
+            .catch(err => {
+                if (err?.status !== 404) {
+                    this.logger?.error("An error occurred while restoring vault %s from the trash", this.name, err);
+                }
+                return false;
+            });
+    }
+
     public get name(): string {
         return this.vault.name;
     }
@@ -52,26 +277,414 @@ export default class VaultDatabase {
     }
 
     public setContent(content: Buffer): Promise<boolean> {
-        return content && this.vault
-            .get("vault")
-            .then(({ _rev }) => this.vault.putAttachment("vault", "passwords.json", _rev, content, "text/plain"))
+        return content && this.writeAttachment("vault", "passwords.json", content);
+    }
+
+    /**
+     * @name getConflicts
+     * @description Get the revisions of the vault's content which conflict with each other.
+     * @returns Promise which resolves to the conflicting revisions, or null if the content has no conflicts.
+     */
+    public async getConflicts(): Promise<VaultConflict | null> {
+        try {
+            const { _rev, _conflicts = [] } = await this.vault.get("vault", { conflicts: true });
+            if (_conflicts.length === 0) {
+                return null;
+            }
+
+            const revisions = [ _rev, ..._conflicts ];
+            const [ current, ...conflicts ] = await Promise.all(revisions.map(async rev => ({
+                rev,
+                content: await this.vault.getAttachment("vault", "passwords.json", { rev }) as Buffer,
+            })));
+            return { current, conflicts, base: await this.getCommonAncestor(revisions) };
+        }
+        catch (err) {
+            if (err?.status !== 404) {
+                this.logger?.error("An error occurred while retrieving conflicting database contents", err);
+            }
+            return null;
+        }
+    }
+
+    /**
+     * @name resolveConflicts
+     * @description Replace the content of the vault with content merged from its conflicting revisions,
+     * and remove the revisions which were merged.
+     *
+     * @param content Merged content, which is written over the current revision.
+     * @param revisions Conflicting revisions which were merged, other than the current revision.
+     */
+    public async resolveConflicts(content: Buffer, revisions: string[]): Promise<boolean> {
+        if (!await this.setContent(content)) {
+            return false;
+        }
+
+        const removed = await Promise.all(revisions.map(rev => this.vault.remove("vault", rev)
+            .then(result => result.ok.valueOf())
+            .catch(err => {
+                this.logger?.error("An error occurred while removing conflicting revision %s", rev, err);
+                return false;
+            })));
+        return removed.every(ok => ok);
+    }
+
+    /**
+     * @name getEntry
+     * @description Get the signed and encrypted content of an entry, for vaults whose entries are stored on their own.
+     * @returns Promise which resolves to the content of the entry, or null if it does not exist.
+     */
+    public getEntry(entryId: string): Promise<Buffer | null> {
+        return this.vault.getAttachment(entryDocumentPrefix + entryId, entryAttachmentId)
+            .catch(err => {
+                if (err?.status !== 404) {
+                    this.logger?.error("An error occurred while retrieving entry %s", entryId, err);
+                }
+                return null;
+            });
+    }
+
+    public async putEntry(entryId: string, content: Buffer): Promise<boolean> {
+        if (!await this.writeAttachment(entryDocumentPrefix + entryId, entryAttachmentId, content)) {
+            return false;
+        }
+        // The entry can be read without its version document, which only its history is incomplete without.
+        try {
+            await this.vault.put<EntryVersionDocument>({
+                _id: entryVersionPrefix + hashDataset(deserialize(content)).toString("hex"),
+                entryId,
+            });
+        }
+        catch (err) {
+            if (err?.status !== 409) {
+                this.logger?.warn("Failed to record the version of entry %s", entryId, err);
+            }
+        }
+        return true;
+    }
+
+    public deleteEntry(entryId: string): Promise<boolean> {
+        return this.vault.get(entryDocumentPrefix + entryId)
+            .then(document => this.vault.remove(document))
+            .then(result => result.ok.valueOf())
+            .catch(err => {
+                if (err?.status !== 404) {
+                    this.logger?.error("An error occurred while deleting entry %s", entryId, err);
+                }
+                return false;
+            });
+    }
+
+    /**
+     * @name getEntryHistory
+     * @description Get the stored versions of an entry, starting with the given version.
+     * Each version is followed by the version it replaced, which is found by the hash it was signed with,
+     * until a version replaced nothing or the version it replaced is no longer stored.
+     * Versions written before their hashes were recorded are not found.
+     * @returns Promise which resolves to the content of each version, newest first.
+     */
+    public async getEntryHistory(entryId: string): Promise<Buffer[]> {
+        return (await this.getEntryVersions(entryId)).map(({ content }) => content);
+    }
+
+    /**
+     * @name purgeEntry
+     * @description Delete the document of an entry, along with the documents of its earlier versions.
+     * Each document is only deleted along with the record of its purge, see {@link isPurgeOf}.
+     *
+     * @param entryId ID of the entry document which holds the current version of the entry.
+     * @param purges Records of the purge of each version, in any order.
+     * @returns Promise which resolves to whether every document was deleted, or false if the entry does not exist.
+     */
+    public async purgeEntry(entryId: string, purges: Buffer[]): Promise<boolean> {
+        const versions = await this.getEntryVersions(entryId);
+        const deleted = await Promise.all(versions.map(async ({ entryId: versionId, hash, content }) => {
+            const purge = await this.findPurge(purges, content);
+            return purge !== null && await Promise.all([
+                this.removeDocument(entryDocumentPrefix + versionId, purge),
+                this.deleteEntryVersion(hash),
+            ]).then(([ ok ]) => ok);
+        }));
+        return versions.length > 0 && deleted.every(ok => ok);
+    }
+
+    /**
+     * @name isPurgeOf
+     * @description Check that a record of a purge is signed by the vault's current signing key,
+     * and follows the given content of the purged document.
+     */
+    public async isPurgeOf(purge: Buffer, content: Buffer): Promise<boolean> {
+        try {
+            const dataset = deserialize(purge);
+            const accepted = await this.getAcceptedContent();
+            return dataset.datasetType === VaultDatasetType.Purge
+                && dataset.validate(this.vaultId)
+                && (!accepted || continuesKeyTransitions(deserialize(accepted.content), dataset))
+                && hashDataset(deserialize(content)).equals(dataset.previousHash ?? Buffer.alloc(0));
+        }
+        catch {
+            return false;
+        }
+    }
+
+    /**
+     * @name getPreviousRevision
+     * @description Get the revision of a document which the given revision replaced, along with its attachments.
+     * @returns Promise which resolves to the previous revision, or null if the given revision created the document
+     * or the previous revision is no longer stored.
+     */
+    public async getPreviousRevision(documentId: string, rev: string): Promise<PouchDB.Core.Document<DatabaseDocument> | null> {
+        try {
+            const { _revisions: { start, ids } } = await this.vault.get(documentId, { rev, revs: true });
+            if (ids.length < 2) {
+                return null;
+            }
+            const { _revisions, ...previous } = await this.vault.get(
+                documentId, { rev: `${start - 1}-${ids[1]}`, revs: true, attachments: true, binary: true });
+            return previous;
+        }
+        catch (err) {
+            this.logger?.error("An error occurred while retrieving the previous revision of document %s", documentId, err);
+            return null;
+        }
+    }
+
+    /**
+     * @name restoreRevision
+     * @description Write a revision of a document back on top of the given later revision, which undoes the later revision.
+     */
+    public restoreRevision(revision: PouchDB.Core.Document<DatabaseDocument>, laterRev: string): Promise<boolean> {
+        return this.vault.put({ ...revision, _rev: laterRev })
+            .then(result => result.ok.valueOf())
+            .catch(err => {
+                this.logger?.error("An error occurred while restoring document %s", revision._id, err);
+                return false;
+            });
+    }
+
+    /**
+     * Find the record of the purge of the given content among the given records.
+     */
+    private async findPurge(purges: Buffer[], content: Buffer): Promise<Buffer | null> {
+        for (const purge of purges) {
+            if (await this.isPurgeOf(purge, content)) {
+                return purge;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Delete a document along with the record of its purge.
+     */
+    private removeDocument(documentId: string, purge: Buffer): Promise<boolean> {
+        return this.vault.get(documentId)
+            .then(({ _rev }) => this.vault.put<Omit<PurgedDocument, "_id">>(
+                { _id: documentId, _rev, _deleted: true, purge: purge.toString("base64") }))
+            .then(result => result.ok.valueOf())
+            .catch(err => {
+                if (err?.status !== 404) {
+                    this.logger?.error("An error occurred while purging document %s", documentId, err);
+                }
+                return false;
+            });
+    }
+
+    /**
+     * Get the stored versions of an entry, newest first, as described by {@link getEntryHistory}.
+     * Each version is looked up by the hash which the version after it was signed with.
+     */
+    private async getEntryVersions(entryId: string): Promise<StoredEntryVersion[]> {
+        const history: StoredEntryVersion[] = [];
+        let versionId: string | null = entryId;
+        let expectedHash: Buffer | null = null;
+        while (versionId !== null) {
+            const content = await this.getEntry(versionId);
+            if (!content) {
+                break;
+            }
+
+            let previousHash: Buffer | null, hash: Buffer;
+            try {
+                const dataset = deserialize(content);
+                [ hash, previousHash ] = [ hashDataset(dataset), dataset.previousHash ?? null ];
+            }
+            catch (err) {
+                this.logger?.warn("Skipped malformed entry document %s", versionId, err);
+                break;
+            }
+            if (expectedHash && !hash.equals(expectedHash)) {
+                this.logger?.warn("Entry document %s is not the version of entry %s which was expected", versionId, entryId);
+                break;
+            }
+
+            history.push({ entryId: versionId, hash, content });
+            expectedHash = previousHash;
+            versionId = previousHash && await this.getEntryVersionId(previousHash);
+        }
+        return history;
+    }
+
+    /**
+     * Get the ID of the entry document which holds the version of an entry with the given hash.
+     * @returns Promise which resolves to the entry ID, or null if the version is not recorded.
+     */
+    private getEntryVersionId(hash: Buffer): Promise<string | null> {
+        return this.vault.get<EntryVersionDocument>(entryVersionPrefix + hash.toString("hex"))
+            .then(({ entryId }) => typeof entryId === "string" ? entryId : null)
+            .catch(err => {
+                if (err?.status !== 404) {
+                    this.logger?.error("An error occurred while retrieving the entry version %s", hash.toString("hex"), err);
+                }
+                return null;
+            });
+    }
+
+    private deleteEntryVersion(hash: Buffer): Promise<boolean> {
+        return this.vault.get(entryVersionPrefix + hash.toString("hex"))
+            .then(document => this.vault.remove(document))
+            .then(result => result.ok.valueOf())
+            .catch(() => false);
+    }
+
+    /**
+     * @name listEntries
+     * @description List the IDs of every entry document of the vault.
+     * Documents of older versions of an entry are listed until they are deleted, so the vault's index
+     * decides which entries are current.
+     */
+    public listEntries(): Promise<string[]> {
+        return this.vault.allDocs({ startkey: entryDocumentPrefix, endkey: `${entryDocumentPrefix}\ufff0` })
+            .then(({ rows }) => rows.map(row => getEntryId(row.id)))
+            .catch(err => {
+                this.logger?.error("An error occurred while listing entries", err);
+                return [];
+            });
+    }
+
+    /**
+     * @name getAttachment
+     * @description Get the signed and encrypted content of a file attached to an entry.
+     * @returns Promise which resolves to the content of the file, or null if it does not exist.
+     */
+    public getAttachment(attachmentId: string): Promise<Buffer | null> {
+        return this.vault.getAttachment(attachmentDocumentPrefix + attachmentId, attachmentFileId)
+            .catch(err => {
+                if (err?.status !== 404) {
+                    this.logger?.error("An error occurred while retrieving attachment %s", attachmentId, err);
+                }
+                return null;
+            });
+    }
+
+    public putAttachment(attachmentId: string, content: Buffer): Promise<boolean> {
+        return this.writeAttachment(attachmentDocumentPrefix + attachmentId, attachmentFileId, content);
+    }
+
+    /**
+     * @name deleteAttachment
+     * @description Delete the document of an attached file, along with the record of its purge, see {@link isPurgeOf}.
+     * @returns Promise which resolves to whether the document was deleted, or false if it does not exist
+     * or the record is not the purge of its file.
+     */
+    public async deleteAttachment(attachmentId: string, purge: Buffer): Promise<boolean> {
+        const content = await this.getAttachment(attachmentId);
+        return !!content
+            && await this.isPurgeOf(purge, content)
+            && await this.removeDocument(attachmentDocumentPrefix + attachmentId, purge);
+    }
+
+    /**
+     * Get the content of the latest revision of the vault document which every given revision descends from.
+     * @returns Promise which resolves to the content, or null if it was compacted or the revisions share no history.
+     */
+    private async getCommonAncestor(revisions: string[]): Promise<Buffer | null> {
+        const histories = await Promise.all(revisions.map(rev => this.vault.get("vault", { rev, revs: true })
+            .then(({ _revisions: { start, ids } }) => ids.map((id, i) => `${start - i}-${id}`))));
+        const ancestor = histories[0].find(rev => histories.every(history => history.includes(rev)));
+
+        return ancestor
+            ? this.vault.getAttachment("vault", "passwords.json", { rev: ancestor })
+                .then(content => content as Buffer)
+                .catch(() => null)
+            : null;
+    }
+
+    /**
+     * Write an attachment of a document, creating the document if it does not exist yet.
+     */
+    private writeAttachment(documentId: string, attachmentId: string, content: Buffer): Promise<boolean> {
+        return this.vault
+            .get(documentId)
+            .then(({ _rev }) => this.vault.putAttachment(documentId, attachmentId, _rev, content, "text/plain"))
             .then(result => result.ok.valueOf())
             .catch(err => {
                 if (err?.status === 404) {
-                    return this.vault.putAttachment("vault", "passwords.json", content, "text/plain")
+                    return this.vault.putAttachment(documentId, attachmentId, content, "text/plain")
                         .then(result => result.ok.valueOf())
                         .catch(err => {
-                            this.logger?.error("An error occurred while initializing database contents", err);
+                            this.logger?.error("An error occurred while initializing document %s", documentId, err);
                             return false;
                         });
                 }
                 else if (err) {
-                    this.logger?.error("An error occurred while updating database contents", err);
+                    this.logger?.error("An error occurred while updating document %s", documentId, err);
+                }
+                return false;
+            });
+    }
+
+    public getAcceptedContent(): Promise<AcceptedContent | null> {
+        return this.vault.get<AcceptedContentDocument>(acceptedContentId)
+            .then(({ version, content }) => ({ version, content: Buffer.from(content, "base64") }))
+            .catch(err => {
+                if (err?.status !== 404) {
+                    this.logger?.error("An error occurred while retrieving the accepted vault version", err);
+                }
+                return null;
+            });
+    }
+
+    /**
+     * Record that this device has accepted the given content.
+     * The record is only replaced by content of the same or a later version.
+     */
+    public setAcceptedContent(version: number, content: Buffer): Promise<boolean> {
+        return this.vault.get<AcceptedContentDocument>(acceptedContentId)
+            .catch(err => {
+                if (err?.status === 404) {
+                    return { _id: acceptedContentId, version, content: null };
                 }
+                throw err;
+            })
+            .then(document => version < document.version
+                ? false
+                : this.vault.put({ ...document, version, content: content.toString("base64") })
+                    .then(result => result.ok.valueOf()))
+            .catch(err => {
+                this.logger?.error("An error occurred while recording the accepted vault version", err);
                 return false;
             });
     }
 
+    /**
+     * Check whether content of the given version is older than the content this device has accepted,
+     * logging the attempt to roll the vault back if it is.
+     *
+     * @param version Version of the new content.
+     * @param source Where the new content came from, for the log.
+     */
+    public async isRollback(version: number, source: string): Promise<boolean> {
+        const accepted = await this.getAcceptedContent();
+        if (!accepted || version >= accepted.version) {
+            return false;
+        }
+
+        this.logger?.warn("Rejected rollback of vault %s from %s: version %d is older than accepted version %d",
+            this.name, source, version, accepted.version);
+        return true;
+    }
+
     public initialize(initialData: Buffer): Promise<boolean> {
         return this.getContent()
             .then(content => content ? false : this.setContent(initialData));
@@ -1,11 +1,16 @@
 import Service, { DatabaseDocument } from "../baseService";
 import AdminService from "../admin";
-import { DatabaseContext, Vault, VaultOption, VaultStatus } from "./constructor";
+import { DatabaseContext, TrashedVault, Vault, VaultOption, VaultStatus } from "./constructor";
 import { DatabasePluginAttachment } from "../../pouch";
 import { failItem,  successItem } from "../../error";
 import { PeerVaultDecl } from "../../discovery";
 import VaultDatabase from "./VaultDatabase";
 
+// Number of days for which vaults and entries in the trash can be restored, unless configured otherwise.
+export const defaultTrashRetentionDays = 30;
+// How often vaults whose retention period ended are purged from the trash.
+const trashPurgeInterval = 60 * 60 * 1000;
+const dayMilliseconds = 24 * 60 * 60 * 1000;
 
 /**
  * @name VaultService
@@ -16,12 +21,16 @@ export default class VaultService extends Service {
     private readonly vaultMap: Map<string, VaultDatabase>;
     private readonly vaultIdMap: Map<string, string>;
     private adminService?: AdminService;
+    private trashRetentionDays: number;
+    private purgeTimer: NodeJS.Timeout | null;
 
     constructor(private vaultContext: DatabaseContext<DatabaseDocument, DatabasePluginAttachment>) {
         super();
         this.vaultMap = new Map<string, VaultDatabase>();
         this.vaultIdMap = new Map<string, string>();
         this.adminService = null;
+        this.trashRetentionDays = defaultTrashRetentionDays;
+        this.purgeTimer = null;
     }
 
     private vaultExists(vaultName: string): boolean {
@@ -185,6 +194,7 @@ export default class VaultService extends Service {
             return deletedVaults;
         }
         await vault.destroy();
+        await this.adminService?.removeVaultRecord(vaultId);
 
         for (let [name, id] of this.vaultIdMap.entries()) {
             if (id === vaultId && this.vaultIdMap.delete(name)) {
@@ -196,6 +206,86 @@ export default class VaultService extends Service {
         return deletedVaults;
     }
 
+    /**
+     * @name getTrashedVaults
+     * @method
+     * @summary List the vaults which were moved to the trash.
+     *
+     * Vaults in the trash stay loaded, so that they keep replicating until they are purged,
+     * but are not listed as active vaults.
+     *
+     * @returns Promise which resolves to a record of each name of a vault in the trash.
+     */
+    public async getTrashedVaults(): Promise<TrashedVault[]> {
+        const trashedVaults: TrashedVault[] = [];
+        for (let [vaultName, vaultId] of this.vaultIdMap) {
+            const deleted = await this.vaultMap.get(vaultId)?.getDeletionTime();
+            if (deleted) {
+                const expires = new Date(deleted.getTime() + this.trashRetentionDays * dayMilliseconds);
+                trashedVaults.push({ nickname: vaultName, vaultId, deleted, expires });
+            }
+        }
+        return trashedVaults;
+    }
+
+    /**
+     * @name purgeTrash
+     * @method
+     * @summary Delete the vaults which have been in the trash for longer than the retention period.
+     *
+     * @param now {Date} Time the retention period is counted until; defaults to now.
+     * @returns {string[]} Array of locally unique vault names which were deleted.
+     */
+    public async purgeTrash(now: Date = new Date()): Promise<string[]> {
+        const purgedVaults: string[] = [];
+        for (let { vaultId, expires } of await this.getTrashedVaults()) {
+            if (expires <= now && this.vaultMap.has(vaultId)) {
+                this.logger.info("Purging vault %s from the trash", vaultId);
+                purgedVaults.push(...await this.deleteVaultById(vaultId));
+            }
+        }
+        return purgedVaults;
+    }
+
+    /**
+     * @name startTrashPurge
+     * @method
+     * @summary Purge vaults from the trash now, and again at an interval for as long as the application runs.
+     *
+     * @param retentionDays {number} Number of days for which vaults and entries in the trash can be restored.
+     * @param interval {number} Milliseconds between purges.
+     * @returns {VaultService} Pass-through of vault container object.
+     */
+    public startTrashPurge(retentionDays: number = defaultTrashRetentionDays, interval: number = trashPurgeInterval): this {
+        const purge = () => this.purgeTrash()
+            .then(names => names.length > 0 && this.logger.info("Purged vaults from the trash: %s", names.join(", ")))
+            .catch(err => this.logger.error("Failed to purge vaults from the trash", err));
+
+        this.stopTrashPurge();
+        this.trashRetentionDays = retentionDays;
+        this.purgeTimer = setInterval(purge, interval);
+        // The purge does not keep the application running on its own.
+        this.purgeTimer.unref();
+        purge();
+
+        return this;
+    }
+
+    public stopTrashPurge() {
+        if (this.purgeTimer) {
+            clearInterval(this.purgeTimer);
+            this.purgeTimer = null;
+        }
+    }
+
+    /**
+     * Number of days for which vaults and entries in the trash can be restored.
+     * Entries are purged by the clients which decrypt the vault, as only they can read the vault's index.
+     */
+    public getTrashRetentionDays(): number {
+        return this.trashRetentionDays;
+    }
+
     /**
      * @name getVaultByName
      * @description Find the vault with the given ID.
@@ -269,8 +359,30 @@ export default class VaultService extends Service {
             });
         };
 
+        const trashVault: () => Promise<VaultOption<string>> = async () => {
+            if (await vault.getDeletionTime()) {
+                return failItem({ status: VaultStatus.CONFLICT, message: `Vault ${vaultId} is already in the trash` });
+            }
+
+            return await vault.moveToTrash()
+                ? successItem(vaultId, { message: `Vault ${vaultId} moved to the trash` })
+                : failItem({ message: `Failed to move vault ${vaultId} to the trash` });
+        };
+
+        const undeleteVault: () => Promise<VaultOption<string>> = async () => {
+            if (!await vault.getDeletionTime()) {
+                return failItem({ status: VaultStatus.NOT_FOUND, message: `Vault ${vaultId} is not in the trash` });
+            }
+
+            return await vault.restoreFromTrash()
+                ? successItem(vaultId, { message: `Vault ${vaultId} restored from the trash` })
+                : failItem({ message: `Failed to restore vault ${vaultId} from the trash` });
+        };
+
         return {
             delete: deleteVault,
+            trash: trashVault,
+            undelete: undeleteVault,
         };
     }
 
@@ -290,6 +402,9 @@ export default class VaultService extends Service {
      */
     public async* getActiveVaults(): AsyncIterable<PeerVaultDecl> {
         for (let [vaultName, vaultId] of this.vaultIdMap) {
+            if (await this.vaultMap.get(vaultId)?.getDeletionTime()) {
+                continue;
+            }
             yield {
                 nickname: vaultName,
                 vaultId: vaultId,
@@ -1,10 +1,12 @@
 import PouchDB from "pouchdb";
 import { Option, Result } from "../../error";
+import { PeerVaultDecl } from "../../discovery";
 
 
 export enum VaultStatus {
     NOT_FOUND = 16,
     CONFLICT,
+    READ_ONLY,
 }
 
 export type VaultResult = Result<VaultStatus>;
@@ -12,6 +14,16 @@ export type VaultOption<T> = Option<T, VaultStatus>;
 
 export interface Vault {
     delete: () => Promise<VaultOption<string>>;
+    trash: () => Promise<VaultOption<string>>;
+    undelete: () => Promise<VaultOption<string>>;
+}
+
+/**
+ * Vault which was moved to the trash, along with when it was deleted and when it is due to be purged.
+ */
+export interface TrashedVault extends PeerVaultDecl {
+    deleted: Date;
+    expires: Date;
 }
 
 export type DatabaseConstructor<Doc, Plug = {}>
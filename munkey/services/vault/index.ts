@@ -1,9 +1,10 @@
 import VaultDatabase from "./VaultDatabase";
-import VaultService from "./VaultService";
+import VaultService, { defaultTrashRetentionDays } from "./VaultService";
 
 export default VaultService;
 export * from "./VaultDatabase";
 export * from "./constructor";
 export {
     VaultDatabase,
+    defaultTrashRetentionDays,
 };
@@ -41,7 +41,9 @@ export default class WebService extends Service {
         if (tlsKeyPair) {
             this.defaultTlsKeyPair = this.defaultTlsKeyPair ?? tlsKeyPair;
             this.logger.info("Creating HTTPS server at https://%s:%d", hostname, portNum);
-            server = https.createServer({ rejectUnauthorized: false, ...tlsKeyPair }, this.getApplication());
+            // Peers use self-signed certificates, so client certificates are requested but not validated here.
+            // Routes which require an authenticated peer check the certificate themselves.
+            server = https.createServer({ requestCert: true, rejectUnauthorized: false, ...tlsKeyPair }, this.getApplication());
         }
         else {
             this.logger.info("Creating HTTP server at http://%s:%d", hostname, portNum);
@@ -7,6 +7,7 @@ import {
     VaultClient,
     VaultCreationRequest,
     VaultData,
+    VaultRekeyRequest,
     VaultRequest, VaultStatus
 } from "@munkey/munkey-rpc";
 import * as grpc from "@grpc/grpc-js";
@@ -14,7 +15,7 @@ import * as grpc from "@grpc/grpc-js";
 import { expect } from "chai";
 import { describe, before, beforeEach, it } from "mocha";
 import sinon from "sinon";
-import { VaultService } from "../../services";
+import { VaultService, VaultStatus as ServiceVaultStatus } from "../../services";
 import createVaultServer from "../../server/pipe/rpc";
 import { success, successItem } from "../../error";
 
@@ -67,11 +68,32 @@ describe("Test gRPC vault server implementations", function() {
             `Server response indicated failure (return code = ${result.getStatus()})`);
     });
 
+    it("calls .onRekeyVault() correctly when issued a valid RekeyVault() command", async function() {
+        let onRekeyVault = sandbox.stub(commands, "onRekeyVault")
+            .resolves({ status: ServiceVaultStatus.CONFLICT, success: false, message: "changed" });
+        let request = new VaultRekeyRequest()
+            .setName("lol")
+            .setPreviousdata(Buffer.from("old"))
+            .setData(Buffer.from("new"));
+
+        const result = await new Promise<VaultActionResult>(function(resolve, reject) {
+            client.rekeyVault(request, (err, response) => {
+                if (err) reject(err);
+                resolve(response);
+            });
+        });
+
+        expect(onRekeyVault.calledWith("lol", Buffer.from("old"), Buffer.from("new")),
+            "Call to RekeyVault() invoked .onRekeyVault() with bad arguments").to.be.true;
+        expect(result.getStatus()).to.equal(VaultStatus.CONFLICT,
+            `Server response did not indicate a conflict (return code = ${result.getStatus()})`);
+    });
+
     before(async function() {
         vault = new VaultService(null);
         commands = new PipeCommandServer({
             vault,
-            admin: null, web: null, identity: null, connection: null, activity: null
+            admin: null, web: null, identity: null, connection: null, activity: null, pairing: null
         });
         server = createVaultServer(commands);
         grpcServer = await commands.useGrpc(new grpc.Server());
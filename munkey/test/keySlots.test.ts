@@ -0,0 +1,252 @@
+import { describe, it, beforeEach } from "mocha";
+import chai, { expect } from "chai";
+import chaiAsPromised from "chai-as-promised";
+
+import {
+    compareKeySlots,
+    defaultKdfParameters,
+    EncryptionCipher,
+    KdfParameters,
+    KeySlotCipher,
+    VaultPayloadType,
+} from "../encryption";
+
+chai.use(chaiAsPromised);
+
+describe("Test vault key slots", function() {
+
+    // Keep the tests fast; the cost does not change how slots work.
+    const kdf: KdfParameters = { ...defaultKdfParameters, cost: 14 };
+    let message: Buffer;
+    let cipher: KeySlotCipher;
+
+    async function encrypt(slotCipher: KeySlotCipher) {
+        return EncryptionCipher.unwrapPayload(EncryptionCipher.wrapPayload(await slotCipher._encrypt(message)));
+    }
+
+    beforeEach(async function() {
+        message = Buffer.from('{"message":"hello"}');
+        cipher = await (await KeySlotCipher.create("first", "default", kdf)).addSlot("second", "family", kdf);
+    });
+
+    it("should store every key slot in the payload", async function() {
+        const payload = await encrypt(cipher);
+
+        expect(payload.payloadType).to.equal(VaultPayloadType.SealedKeySlots);
+        expect(payload.slots.every(slot => slot.sealed)).to.be.true;
+        expect(payload.slots.map(({ slotId, label }) => [ slotId, label ]))
+            .to.deep.equal([ [ 0, "default" ], [ 1, "family" ] ]);
+        expect(EncryptionCipher.getPayloadKdf(payload.slots[1].key)).to.deep.equal(kdf);
+    });
+
+    it("should unlock the vault with the password of any slot", async function() {
+        const payload = await encrypt(cipher);
+
+        for (const [ password, slotId ] of [ [ "first", 0 ], [ "second", 1 ] ] as [ string, number ][]) {
+            const slotCipher = await KeySlotCipher.open(password, payload);
+            expect(slotCipher?.getSlotId()).to.equal(slotId);
+            expect(slotCipher.matchesPayload(payload)).to.be.true;
+            expect((await slotCipher._decrypt(payload)).equals(message)).to.be.true;
+        }
+    });
+
+    it("should not unlock the vault with an unknown password", async function() {
+        expect(await KeySlotCipher.open("third", await encrypt(cipher))).to.be.null;
+    });
+
+    it("should not unlock the vault with a revoked password", async function() {
+        const payload = await encrypt(await cipher.revokeSlots([ 1 ]));
+
+        expect(await KeySlotCipher.open("second", payload)).to.be.null;
+        expect(await KeySlotCipher.open("first", payload)).to.not.be.null;
+    });
+
+    it("should not revoke the slot it was unlocked with", async function() {
+        await expect(cipher.revokeSlots([ cipher.getSlotId() ])).to.be.rejectedWith(/cannot be revoked/);
+    });
+
+    it("should replace the keys of the vault when a slot is revoked", async function() {
+        const revokedCipher = await KeySlotCipher.open("second", await encrypt(cipher));
+        const newCipher = await cipher.revokeSlots([ 1 ]);
+        const payload = await encrypt(newCipher);
+        const secret = await newCipher.encryptSecret(Buffer.from("signing key"));
+
+        expect(await revokedCipher.forPayload(payload)._decrypt(payload)).to.be.null;
+        expect(await revokedCipher.decryptSecret(secret)).to.be.null;
+        expect((await (await KeySlotCipher.open("first", payload))._decrypt(payload)).equals(message)).to.be.true;
+    });
+
+    it("should give the new keys to the other slots without their passwords", async function() {
+        cipher = await cipher.addSlot("third", "work", kdf);
+        const payload = await encrypt(await cipher.revokeSlots([ 1 ]));
+        const otherCipher = await KeySlotCipher.open("third", payload);
+
+        expect(otherCipher.getSlotId()).to.equal(2);
+        expect((await otherCipher._decrypt(payload)).equals(message)).to.be.true;
+    });
+
+    it("should not revoke a slot while another slot cannot be given new keys", async function() {
+        cipher = await cipher.addSlot("third", "work", kdf);
+        const payload = await encrypt(cipher);
+        payload.slots[1] = { ...payload.slots[1], sealed: undefined };
+
+        await expect(cipher.forPayload(payload).revokeSlots([ 2 ])).to.be.rejectedWith(/Key slot\(s\) 1 cannot be given new keys/);
+        await expect(cipher.forPayload(payload).revokeSlots([ 1 ])).to.be.fulfilled;
+    });
+
+    it("should stop matching once its slot is revoked elsewhere", async function() {
+        const otherCipher = await KeySlotCipher.open("second", await encrypt(cipher));
+        const payload = await encrypt(await otherCipher.revokeSlots([ 0 ]));
+
+        expect(cipher.matchesPayload(payload)).to.be.false;
+    });
+
+    it("should stop matching once it is given new keys", async function() {
+        cipher = await cipher.addSlot("third", "work", kdf);
+        const otherCipher = await KeySlotCipher.open("third", await encrypt(cipher));
+        const payload = await encrypt(await cipher.revokeSlots([ 1 ]));
+
+        expect(otherCipher.matchesPayload(payload)).to.be.false;
+        expect(await KeySlotCipher.open("third", payload)).to.not.be.null;
+    });
+
+    it("should encrypt secrets with the master key, without the key slots", async function() {
+        const secret = Buffer.from("signing key");
+        const payload = await cipher.encryptSecret(secret);
+
+        expect(payload.slots).to.be.undefined;
+        expect((await cipher.decryptSecret(payload)).equals(secret)).to.be.true;
+        expect(await cipher._decrypt(payload)).to.be.null;
+    });
+
+    it("should still decrypt vaults encrypted with the master key", async function() {
+        const payload = await cipher.encryptSecret(message);
+        payload.payloadType = VaultPayloadType.KeySlots;
+        payload.slots = cipher.getSlots();
+
+        expect((await cipher._decrypt(payload)).equals(message)).to.be.true;
+    });
+
+    it("should only change its own slot when its password changes", async function() {
+        const previous = await encrypt(cipher);
+        const next = await encrypt(await cipher.replaceSlot("changed"));
+
+        expect(compareKeySlots(previous.slots, next.slots))
+            .to.deep.equal({ added: [], removed: [], modified: [ 0 ] });
+        expect(await KeySlotCipher.open("first", next)).to.be.null;
+        expect(await KeySlotCipher.open("changed", next)).to.not.be.null;
+    });
+
+    describe("with a recovery slot", function() {
+
+        let secret: Buffer;
+
+        beforeEach(async function() {
+            secret = await KeySlotCipher.createRecoverySecret();
+            cipher = await cipher.setRecoverySlot(secret, kdf);
+        });
+
+        it("should unlock the master key with the recovery secret", async function() {
+            const payload = await encrypt(cipher);
+            const recoveryCipher = await KeySlotCipher.openRecovery(secret, payload);
+
+            expect(payload.slots.map(({ slotId, recovery }) => [ slotId, recovery ]))
+                .to.deep.equal([ [ 0, false ], [ 1, false ], [ 2, true ] ]);
+            expect(recoveryCipher.getSlotId()).to.equal(2);
+            expect(recoveryCipher.isReadOnly()).to.be.false;
+            expect((await recoveryCipher._decrypt(payload)).equals(message)).to.be.true;
+            expect(await KeySlotCipher.openRecovery(await KeySlotCipher.createRecoverySecret(), payload)).to.be.null;
+        });
+
+        it("should replace the previous recovery slot", async function() {
+            const newSecret = await KeySlotCipher.createRecoverySecret();
+            const payload = await encrypt(await cipher.setRecoverySlot(newSecret, kdf));
+
+            expect(payload.slots.map(({ slotId }) => slotId)).to.deep.equal([ 0, 1, 3 ]);
+            expect(await KeySlotCipher.openRecovery(secret, payload)).to.be.null;
+            expect(await KeySlotCipher.openRecovery(newSecret, payload)).to.not.be.null;
+        });
+
+    });
+
+    describe("with a read-only slot", function() {
+
+        let readerCipher: KeySlotCipher;
+
+        beforeEach(async function() {
+            cipher = await cipher.addSlot("reader", "guest", kdf, true);
+            readerCipher = await KeySlotCipher.open("reader", await encrypt(cipher));
+        });
+
+        it("should store the role of each slot", async function() {
+            const payload = await encrypt(cipher);
+
+            expect(payload.slots.map(({ slotId, readOnly }) => [ slotId, readOnly ]))
+                .to.deep.equal([ [ 0, false ], [ 1, false ], [ 2, true ] ]);
+            expect(readerCipher.isReadOnly()).to.be.true;
+            expect(cipher.isReadOnly()).to.be.false;
+        });
+
+        it("should decrypt the vault, but not its secrets", async function() {
+            const payload = await encrypt(cipher);
+            const secret = await cipher.encryptSecret(Buffer.from("signing key"));
+
+            expect(readerCipher.matchesPayload(payload)).to.be.true;
+            expect((await readerCipher._decrypt(payload)).equals(message)).to.be.true;
+            expect(await readerCipher.decryptSecret(secret)).to.be.null;
+            expect(await readerCipher._decrypt(secret)).to.be.null;
+        });
+
+        it("should not encrypt secrets or add key slots", async function() {
+            await expect(readerCipher.encryptSecret(Buffer.from("signing key"))).to.be.rejectedWith(/read-only/);
+            await expect(readerCipher.addSlot("other", "other", kdf)).to.be.rejectedWith(/read-only/);
+        });
+
+        it("should stay read-only when its password changes", async function() {
+            const payload = await encrypt(await readerCipher.replaceSlot("changed", kdf));
+            const changedCipher = await KeySlotCipher.open("changed", payload);
+
+            expect(changedCipher.isReadOnly()).to.be.true;
+            expect((await changedCipher._decrypt(payload)).equals(message)).to.be.true;
+        });
+
+        it("should replace the read key when a slot is revoked", async function() {
+            const newCipher = await cipher.revokeSlots([ 1 ]);
+            const payload = await encrypt(newCipher);
+            const newReaderCipher = await KeySlotCipher.open("reader", payload);
+
+            expect(readerCipher.matchesPayload(payload)).to.be.false;
+            expect(await readerCipher.forPayload(payload)._decrypt(payload)).to.be.null;
+            expect(newReaderCipher.isReadOnly()).to.be.true;
+            expect((await newReaderCipher._decrypt(payload)).equals(message)).to.be.true;
+            expect(await newReaderCipher.decryptSecret(await newCipher.encryptSecret(Buffer.from("signing key")))).to.be.null;
+        });
+
+        it("should not decrypt new versions once its slot is revoked", async function() {
+            const payload = await encrypt(await cipher.revokeSlots([ readerCipher.getSlotId() ]));
+
+            expect(await KeySlotCipher.open("reader", payload)).to.be.null;
+            expect(await readerCipher.forPayload(payload)._decrypt(payload)).to.be.null;
+        });
+
+        it("should not revoke a slot while a read-only slot cannot be given new keys", async function() {
+            const payload = await encrypt(cipher);
+            payload.slots[2] = { ...payload.slots[2], sealed: undefined };
+
+            await expect(cipher.forPayload(payload).revokeSlots([ 1 ]))
+                .to.be.rejectedWith(/Read-only key slot\(s\) 2 cannot be given new keys; revoke them/);
+            await expect(cipher.forPayload(payload).revokeSlots([ 2 ])).to.be.fulfilled;
+        });
+
+        it("should report a changed role as a modified slot", async function() {
+            const previous = await encrypt(cipher);
+            const next = await encrypt(cipher);
+            next.slots[2] = { ...next.slots[2], readOnly: false };
+
+            expect(compareKeySlots(previous.slots, next.slots))
+                .to.deep.equal({ added: [], removed: [], modified: [ 2 ] });
+        });
+
+    });
+
+});
@@ -0,0 +1,54 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import { generatePassphrase, generatePassword } from "../encryption";
+import { passphraseWords } from "../encryption/PassphraseWords";
+
+describe("Test password generation", function() {
+
+    it("should have a character of each class", function() {
+        for (let i = 0; i < 20; i++) {
+            const { value } = generatePassword({ length: 4 });
+
+            expect(value).to.have.lengthOf(4);
+            expect(value).to.match(/[a-z]/).and.to.match(/[A-Z]/).and.to.match(/[0-9]/).and.to.match(/[^a-zA-Z0-9]/);
+        }
+    });
+
+    it("should only use the enabled classes", function() {
+        const { value, entropy } = generatePassword({ length: 32, uppercase: false, symbols: false });
+
+        expect(value).to.match(/^[a-z0-9]{32}$/);
+        expect(entropy).to.be.closeTo(32 * Math.log2(36), 0.001);
+    });
+
+    it("should leave out characters which look alike", function() {
+        const { value, entropy } = generatePassword({ length: 200, excludeLookalikes: true });
+
+        expect(value).not.to.match(/[Il1|O0o]/);
+        expect(entropy).to.be.lessThan(generatePassword({ length: 200 }).entropy);
+    });
+
+    it("should not generate passwords with invalid options", function() {
+        expect(() => generatePassword({ length: 3 })).to.throw(/length/);
+        expect(() => generatePassword({ length: 10.5 })).to.throw(/length/);
+        expect(() => generatePassword({ lowercase: false, uppercase: false, digits: false, symbols: false }))
+            .to.throw(/class/);
+    });
+
+    it("should generate passphrases from the word list, which has no duplicates", function() {
+        const { value, entropy } = generatePassphrase({ words: 5, separator: "." });
+        const words = value.split(".");
+
+        expect(words).to.have.lengthOf(5);
+        words.forEach(word => expect(passphraseWords).to.include(word));
+        expect(entropy).to.be.closeTo(5 * Math.log2(1296), 0.001);
+        expect(new Set(passphraseWords).size).to.equal(passphraseWords.length);
+    });
+
+    it("should not generate passphrases with invalid options", function() {
+        expect(() => generatePassphrase({ words: 2 })).to.throw(/words/);
+        expect(() => generatePassphrase({ words: 65 })).to.throw(/words/);
+    });
+
+});
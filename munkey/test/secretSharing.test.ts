@@ -0,0 +1,59 @@
+import { randomBytes } from "crypto";
+
+import { describe, it, beforeEach } from "mocha";
+import { expect } from "chai";
+
+import { combineShares, decodeShare, encodeShare, SecretShare, splitSecret } from "../encryption";
+
+describe("Test secret sharing", function() {
+
+    let secret: Buffer;
+    let shares: SecretShare[];
+
+    beforeEach(function() {
+        secret = randomBytes(16);
+        shares = splitSecret(secret, 3, 5);
+    });
+
+    it("should rebuild the secret from any shares at the threshold", function() {
+        for (const indices of [ [ 0, 1, 2 ], [ 4, 2, 0 ], [ 1, 3, 4 ], [ 0, 1, 2, 3, 4 ] ]) {
+            expect(combineShares(indices.map(i => shares[i])).equals(secret)).to.be.true;
+        }
+    });
+
+    it("should not rebuild the secret from fewer shares than the threshold", function() {
+        expect(() => combineShares(shares.slice(0, 2))).to.throw("3 shares are needed, but only 2 were given");
+        expect(() => combineShares([ shares[0], shares[0], shares[1] ])).to.throw("more than once");
+    });
+
+    it("should rebuild the secret from a single share with a threshold of one", function() {
+        const [ share ] = splitSecret(secret, 1, 2);
+
+        expect(share.data.equals(secret)).to.be.true;
+        expect(combineShares([ share ]).equals(secret)).to.be.true;
+    });
+
+    it("should reject thresholds which cannot be met", function() {
+        expect(() => splitSecret(secret, 4, 3)).to.throw();
+        expect(() => splitSecret(secret, 0, 3)).to.throw();
+        expect(() => splitSecret(secret, 2, 256)).to.throw();
+    });
+
+    it("should read back shares written as words", function() {
+        const words = encodeShare(shares[3]);
+
+        expect(words).to.have.lengthOf(2 + secret.length + 2);
+        expect(decodeShare(` ${words.join("  ").toUpperCase()}\n`)).to.deep.equal(shares[3]);
+    });
+
+    it("should catch mistyped shares", function() {
+        const words = encodeShare(shares[0]);
+        const swapped = [ ...words ];
+        [ swapped[0], swapped[1] ] = [ words[1], words[0] ];
+
+        expect(() => decodeShare([ ...words.slice(0, -1), "notaword" ].join(" "))).to.throw("Unknown word in share: notaword");
+        expect(() => decodeShare(swapped.join(" "))).to.throw("checksum");
+        expect(() => decodeShare(words.slice(0, 3).join(" "))).to.throw("too short");
+    });
+
+});
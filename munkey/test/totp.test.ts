@@ -0,0 +1,66 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import { decodeBase32, generateTotp, getTotpCode, parseTotpSecret, TotpAlgorithm } from "../encryption";
+
+describe("Test one-time passwords", function() {
+
+    // Test vectors from RFC 6238, appendix B
+    const secrets: { [algorithm in TotpAlgorithm]: Buffer } = {
+        sha1: Buffer.from("12345678901234567890"),
+        sha256: Buffer.from("12345678901234567890123456789012"),
+        sha512: Buffer.from("1234567890123456789012345678901234567890123456789012345678901234"),
+    };
+    const vectors: [ number, TotpAlgorithm, string ][] = [
+        [ 59, "sha1", "94287082" ],
+        [ 59, "sha256", "46119246" ],
+        [ 59, "sha512", "90693936" ],
+        [ 1111111109, "sha1", "07081804" ],
+        [ 1234567890, "sha256", "91819424" ],
+        [ 2000000000, "sha512", "38618901" ],
+        [ 20000000000, "sha1", "65353130" ],
+    ];
+
+    for (const [ time, algorithm, code ] of vectors) {
+        it(`should generate the code of ${algorithm} at ${time}`, function() {
+            const parameters = { secret: secrets[algorithm], algorithm, digits: 8, period: 30 };
+
+            expect(generateTotp(parameters, time * 1000).code).to.equal(code);
+        });
+    }
+
+    it("should count the seconds left in the period", function() {
+        const parameters = { secret: secrets.sha1, algorithm: "sha1" as TotpAlgorithm, digits: 6, period: 60 };
+
+        expect(generateTotp(parameters, 59_000).remaining).to.equal(1);
+        expect(generateTotp(parameters, 60_000).remaining).to.equal(60);
+    });
+
+    it("should decode base32 secrets regardless of case and padding", function() {
+        expect(decodeBase32("GEZDGNBVGY3TQOJQ").toString()).to.equal("1234567890");
+        expect(decodeBase32("gezd gnbv gy3t qojq====").toString()).to.equal("1234567890");
+        expect(() => decodeBase32("GEZDGNBV1")).to.throw(/base32/);
+    });
+
+    it("should read the parameters of an otpauth URI", function() {
+        const parameters = parseTotpSecret(
+            "otpauth://totp/Example:alice@example.com?secret=GEZDGNBVGY3TQOJQ&issuer=Example&algorithm=SHA256&digits=8&period=60");
+
+        expect(parameters).to.deep.include({ algorithm: "sha256", digits: 8, period: 60 });
+        expect(parameters.secret.toString()).to.equal("1234567890");
+    });
+
+    it("should use the default parameters for a base32 secret", function() {
+        expect(parseTotpSecret("GEZDGNBVGY3TQOJQ")).to.deep.include({ algorithm: "sha1", digits: 6, period: 30 });
+        expect(getTotpCode("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ", 59_000).code).to.equal("287082");
+    });
+
+    it("should not read invalid parameters", function() {
+        expect(() => parseTotpSecret("otpauth://hotp/Example?secret=GEZDGNBV")).to.throw(/type/);
+        expect(() => parseTotpSecret("otpauth://totp/Example?secret=GEZDGNBV&algorithm=MD5")).to.throw(/algorithm/);
+        expect(() => parseTotpSecret("otpauth://totp/Example?secret=GEZDGNBV&digits=six")).to.throw(/digits/);
+        expect(() => parseTotpSecret("otpauth://totp/Example?secret=GEZDGNBV&period=0")).to.throw(/period/);
+        expect(() => parseTotpSecret("otpauth://totp/Example")).to.throw(/empty/);
+    });
+
+});
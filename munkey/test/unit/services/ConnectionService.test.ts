@@ -0,0 +1,194 @@
+import MemDown from "memdown";
+import { ConnectionService, DatabaseDocument, VaultDatabase, VaultDB } from "../../../services";
+import { configurePlugins, DatabasePluginAttachment } from "../../../configure";
+import { createDataset, createNewIdentity, IVaultDataset, VaultDatasetType } from "../../../encryption/serialize";
+import { EncryptionCipher, VaultAlgorithm } from "../../../encryption/EncryptionCipher";
+import { defaultKdfParameters } from "../../../encryption/KdfParameters";
+import { createAttachment, createPurge, createVaultIndex, VaultIndex } from "../../../encryption/VaultIndex";
+
+import { describe, it, before, beforeEach } from "mocha";
+import { expect } from "chai";
+
+
+describe("Test validation of changes received from peers", function() {
+
+    const LocalDB = configurePlugins<DatabaseDocument, DatabasePluginAttachment>({ db: MemDown } as any);
+    let databaseCount = 0;
+
+    let vaultId: string;
+    let privateKey: Buffer;
+    let otherPrivateKey: Buffer;
+    let index: VaultIndex;
+    let cipher: EncryptionCipher;
+
+    let database: VaultDB;
+    let vault: VaultDatabase;
+    let service: ConnectionService;
+
+    async function createVaultContent(previous: IVaultDataset | null = null, key: Buffer = privateKey): Promise<IVaultDataset> {
+        return createDataset(await cipher._encrypt(Buffer.from("{}")), key, previous);
+    }
+
+    async function createEntryContent(key: Buffer = privateKey): Promise<IVaultDataset> {
+        const payload = await cipher._encrypt(Buffer.from("entry"));
+        return createDataset(payload, key, null, { datasetType: VaultDatasetType.Entry });
+    }
+
+    /**
+     * Pass the current revision of a document to the change handler, as if it had just been replicated from a peer.
+     */
+    async function receive(documentId: string): Promise<void> {
+        const change = await database.get(documentId, { attachments: true, binary: true });
+        await service["checkReplicatedChange"](database, change, vaultId, "test-vault", "test-peer");
+    }
+
+    async function receiveDeletion(documentId: string, purge?: IVaultDataset): Promise<void> {
+        const { _rev } = await database.get(documentId);
+        const { rev } = await database.put<DatabaseDocument>(
+            purge ? { _id: documentId, _rev, _deleted: true, purge: purge.serialize().toString("base64") } as any
+                : { _id: documentId, _rev, _deleted: true } as any);
+        const change = await database.get(documentId, { rev });
+        await service["checkReplicatedChange"](database, change, vaultId, "test-vault", "test-peer");
+    }
+
+    before(async function() {
+        let publicKey: Buffer;
+        [ publicKey, privateKey ] = await createNewIdentity();
+        [ , otherPrivateKey ] = await createNewIdentity();
+        vaultId = publicKey.toString("base64url");
+        index = await createVaultIndex();
+        cipher = new EncryptionCipher(
+            Buffer.alloc(32), VaultAlgorithm.AesGcm256, await EncryptionCipher.createSalt(), defaultKdfParameters);
+    });
+
+    beforeEach(function() {
+        database = new LocalDB(`test-vault-${databaseCount++}`);
+        vault = new VaultDatabase(database, vaultId);
+        service = new ConnectionService(null);
+    });
+
+    it("should accept validly signed vault content", async function() {
+        const content = (await createVaultContent()).serialize();
+        await vault.setContent(content);
+        await receive("vault");
+
+        const accepted = await vault.getAcceptedContent();
+        expect(accepted?.version).to.equal(1, "Valid vault content was not accepted");
+        expect((await vault.getContent()).equals(content), "Valid vault content was changed").to.be.true;
+    });
+
+    it("should restore the previous vault content if the received content is not signed by the vault", async function() {
+        const first = await createVaultContent();
+        await vault.setContent(first.serialize());
+        await receive("vault");
+
+        await vault.setContent((await createVaultContent(first, otherPrivateKey)).serialize());
+        await receive("vault");
+
+        expect((await vault.getContent()).equals(first.serialize()), "Invalid vault content was kept").to.be.true;
+    });
+
+    it("should restore the accepted vault content if an older version is received", async function() {
+        const first = await createVaultContent();
+        const second = await createVaultContent(first);
+        await vault.setContent(first.serialize());
+        await receive("vault");
+        await vault.setContent(second.serialize());
+        await receive("vault");
+
+        await vault.setContent(first.serialize());
+        await receive("vault");
+
+        expect((await vault.getContent()).equals(second.serialize()), "Vault was rolled back").to.be.true;
+        expect((await vault.getAcceptedContent())?.version).to.equal(2);
+    });
+
+    it("should restore the vault content if its document is deleted", async function() {
+        const content = (await createVaultContent()).serialize();
+        await vault.setContent(content);
+        await receive("vault");
+
+        await receiveDeletion("vault");
+
+        expect(await vault.getContent(), "Deleted vault content was not restored").to.not.be.null;
+        expect((await vault.getContent()).equals(content)).to.be.true;
+    });
+
+    it("should remove an entry which is not signed by the vault", async function() {
+        await vault.putEntry("entry-id", (await createEntryContent(otherPrivateKey)).serialize());
+        await receive("entry/entry-id");
+
+        expect(await vault.getEntry("entry-id"), "Invalid entry was kept").to.be.null;
+    });
+
+    it("should keep an entry which is signed by the vault", async function() {
+        const content = (await createEntryContent()).serialize();
+        await vault.putEntry("entry-id", content);
+        await receive("entry/entry-id");
+
+        expect((await vault.getEntry("entry-id"))?.equals(content), "Valid entry was removed").to.be.true;
+    });
+
+    it("should remove an attached file which is signed as another kind of document", async function() {
+        await vault.putAttachment("file-id", (await createEntryContent()).serialize());
+        await receive("attachment/file-id");
+
+        expect(await vault.getAttachment("file-id"), "Attachment with the wrong type was kept").to.be.null;
+    });
+
+    it("should restore an entry which is deleted without a record of its purge", async function() {
+        const content = (await createEntryContent()).serialize();
+        await vault.putEntry("entry-id", content);
+
+        await receiveDeletion("entry/entry-id");
+
+        expect((await vault.getEntry("entry-id"))?.equals(content), "Deleted entry was not restored").to.be.true;
+    });
+
+    it("should accept the deletion of an entry which holds a valid record of its purge", async function() {
+        const entry = await createEntryContent();
+        await vault.putEntry("entry-id", entry.serialize());
+
+        await receiveDeletion("entry/entry-id", await createPurge(index, entry, privateKey, []));
+
+        expect(await vault.getEntry("entry-id"), "Purged entry was restored").to.be.null;
+    });
+
+    it("should restore an entry which is deleted with the record of another purge", async function() {
+        const entry = await createEntryContent();
+        const other = await createEntryContent();
+        await vault.putEntry("entry-id", entry.serialize());
+
+        await receiveDeletion("entry/entry-id", await createPurge(index, other, privateKey, []));
+
+        expect(await vault.getEntry("entry-id"), "Entry deleted with the wrong purge was not restored").to.not.be.null;
+    });
+
+    it("should restore an entry whose purge is not signed by the vault", async function() {
+        const entry = await createEntryContent();
+        await vault.putEntry("entry-id", entry.serialize());
+
+        await receiveDeletion("entry/entry-id", await createPurge(index, entry, otherPrivateKey, []));
+
+        expect(await vault.getEntry("entry-id"), "Entry deleted with an unsigned purge was not restored").to.not.be.null;
+    });
+
+    it("should restore an attached file which is deleted without a record of its purge", async function() {
+        const attachment = await createAttachment(index, Buffer.from("file"), privateKey, []);
+        await vault.putAttachment("file-id", attachment.serialize());
+
+        await receiveDeletion("attachment/file-id");
+
+        expect(await vault.getAttachment("file-id"), "Deleted attachment was not restored").to.not.be.null;
+    });
+
+    it("should allow a vault to be restored from the trash", async function() {
+        await vault.moveToTrash();
+        await receive("trash");
+
+        await receiveDeletion("trash");
+
+        expect(await vault.getDeletionTime(), "Vault was not restored from the trash").to.be.null;
+    });
+
+});
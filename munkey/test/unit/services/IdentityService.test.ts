@@ -0,0 +1,154 @@
+import os from "os";
+import path from "path";
+import { promises as fs } from "fs";
+import { randomBytes, X509Certificate } from "crypto";
+import { DeviceIdentity, generateNewIdentity, IdentityService, loadIdentity } from "../../../services";
+
+import { describe, it, before, beforeEach, afterEach } from "mocha";
+import ChaiAsPromised from "chai-as-promised";
+import chai, { expect } from "chai";
+chai.use(ChaiAsPromised);
+
+
+describe("Test persistent device identity", function() {
+
+    let rootDir: string;
+
+    it("should generate and store a new identity when none exists", async function() {
+        expect(await IdentityService.loadTlsKeyPair(rootDir)).to.be.null;
+
+        const identity = await loadIdentity(rootDir);
+        const storedIdentity = await IdentityService.loadTlsKeyPair(rootDir);
+
+        expect(storedIdentity, "Generated identity was not stored").to.not.be.null;
+        expect(storedIdentity.uniqueId).to.equal(identity.uniqueId);
+        expect(storedIdentity.key.compare(identity.key)).to.equal(0, "Stored TLS key does not match");
+        expect(storedIdentity.cert.compare(identity.cert)).to.equal(0, "Stored TLS certificate does not match");
+    });
+
+    it("should reload the same identity on later loads", async function() {
+        const firstIdentity = await loadIdentity(rootDir);
+        const secondIdentity = await loadIdentity(rootDir);
+
+        expect(secondIdentity.uniqueId).to.equal(firstIdentity.uniqueId);
+        expect(secondIdentity.cert.compare(firstIdentity.cert)).to.equal(0, "TLS certificate changed between loads");
+    });
+
+    it("should replace the stored identity when regenerated", async function() {
+        const oldIdentity = await loadIdentity(rootDir);
+        const newIdentity = await generateNewIdentity(rootDir);
+        const storedIdentity = await loadIdentity(rootDir);
+
+        expect(newIdentity.uniqueId).to.not.equal(oldIdentity.uniqueId);
+        expect(storedIdentity.uniqueId).to.equal(newIdentity.uniqueId);
+    });
+
+    it("should not store an identity generated without a root directory", async function() {
+        await generateNewIdentity(null);
+        expect(await IdentityService.loadTlsKeyPair(rootDir)).to.be.null;
+    });
+
+    beforeEach(async function() {
+        this.timeout(10000);
+        rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "munkey-identity-"));
+    });
+
+    afterEach(async function() {
+        await fs.rm(rootDir, { recursive: true, force: true });
+    });
+
+});
+
+
+describe("Test pinned peer certificates", function() {
+
+    let service: IdentityService;
+    let certificate: Buffer, otherCertificate: Buffer;
+    const peerId = "peer-unique-id";
+
+    it("should not trust a peer which was never paired", async function() {
+        expect(await service.verifyPeerCertificate(peerId, certificate)).to.be.false;
+        expect(service.getPeerAgent(peerId), "Agent created for unknown peer").to.be.null;
+        expect(service.getPeerCertificates()).to.be.empty;
+        expect(service.getTrustAlerts()).to.be.empty;
+    });
+
+    it("should trust the certificate bound to a peer", async function() {
+        await service.trustPeerCertificate(peerId, certificate);
+        expect(await service.verifyPeerCertificate(peerId, certificate)).to.be.true;
+        expect(service.getPeerAgent(peerId), "No agent created for trusted peer").to.not.be.null;
+        expect(service.getPeerCertificates().map(({ uniqueId }) => uniqueId)).to.deep.equal([peerId]);
+        expect(service.getTrustAlerts()).to.be.empty;
+    });
+
+    it("should reject and raise an alert for a different certificate", async function() {
+        await service.trustPeerCertificate(peerId, certificate);
+        expect(await service.verifyPeerCertificate(peerId, otherCertificate, "localhost:8000")).to.be.false;
+
+        const [ alert = null ] = service.getTrustAlerts();
+        expect(alert, "No trust alert raised on certificate mismatch").to.not.be.null;
+        expect(alert.uniqueId).to.equal(peerId);
+        expect(alert.hostname).to.equal("localhost:8000");
+        expect(alert.expectedFingerprint).to.equal(IdentityService.getFingerprint(certificate));
+        expect(alert.receivedFingerprint).to.equal(IdentityService.getFingerprint(otherCertificate));
+    });
+
+    it("should no longer trust a forgotten peer", async function() {
+        await service.trustPeerCertificate(peerId, certificate);
+        expect(await service.forgetPeer(peerId)).to.be.true;
+        expect(await service.verifyPeerCertificate(peerId, certificate)).to.be.false;
+        expect(service.getTrustAlerts()).to.be.empty;
+    });
+
+    beforeEach(function() {
+        service = new IdentityService("local-unique-id");
+        certificate = randomBytes(256);
+        otherCertificate = randomBytes(256);
+    });
+
+});
+
+
+describe("Test peer authentication by client certificate", function() {
+
+    let localIdentity: DeviceIdentity, peerIdentity: DeviceIdentity;
+    let peerCertificate: Buffer, impostorCertificate: Buffer;
+    let service: IdentityService;
+
+    it("should authenticate a paired peer by its certificate", async function() {
+        await service.trustPeerCertificate(peerIdentity.uniqueId, peerCertificate);
+        expect(await service.authenticatePeer(peerCertificate)).to.equal(peerIdentity.uniqueId);
+    });
+
+    it("should authenticate the local device by its own certificate", async function() {
+        expect(await service.authenticatePeer(service.getCertificate())).to.equal(localIdentity.uniqueId);
+    });
+
+    it("should not authenticate a peer which was never paired", async function() {
+        expect(await service.authenticatePeer(peerCertificate)).to.be.null;
+    });
+
+    it("should not authenticate a client without a certificate", async function() {
+        expect(await service.authenticatePeer(null)).to.be.null;
+        expect(await service.authenticatePeer(Buffer.alloc(0))).to.be.null;
+    });
+
+    it("should raise an alert for a certificate claiming a paired peer's ID", async function() {
+        await service.trustPeerCertificate(peerIdentity.uniqueId, peerCertificate);
+        expect(await service.authenticatePeer(impostorCertificate, "localhost")).to.be.null;
+        expect(service.getTrustAlerts().map(({ uniqueId }) => uniqueId)).to.deep.equal([peerIdentity.uniqueId]);
+    });
+
+    before(async function() {
+        this.timeout(20000);
+        [localIdentity, peerIdentity] = await Promise.all([generateNewIdentity(null), generateNewIdentity(null)]);
+        const impostorKeyPair = await IdentityService.createTlsKeyPair(peerIdentity.uniqueId);
+        peerCertificate = new X509Certificate(peerIdentity.cert).raw;
+        impostorCertificate = new X509Certificate(impostorKeyPair.cert).raw;
+    });
+
+    beforeEach(function() {
+        service = new IdentityService(localIdentity.uniqueId, localIdentity);
+    });
+
+});
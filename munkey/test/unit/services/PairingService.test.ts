@@ -0,0 +1,132 @@
+import { createHash, createPublicKey, diffieHellman, generateKeyPairSync, KeyObject, X509Certificate } from "crypto";
+import { derivePairingCode, DeviceIdentity, generateNewIdentity, IdentityService, PairingService } from "../../../services";
+import { PairingResponseDecl } from "../../../discovery";
+
+import { describe, it, before, beforeEach } from "mocha";
+import { expect } from "chai";
+
+
+describe("Test pairing requested by a peer", function() {
+
+    let localIdentity: DeviceIdentity, peerIdentity: DeviceIdentity;
+    let peerCertificate: Buffer;
+    let identity: IdentityService;
+    let service: PairingService;
+
+    // Key pair of the simulated peer, which starts the pairing.
+    let privateKey: KeyObject, publicKey: Buffer;
+
+    function requestPairing(
+        commitment: Buffer = createHash("sha256").update(publicKey).update(peerCertificate).digest(),
+        hostname: string = "localhost")
+    {
+        return service.receivePairingRequest({
+            uniqueId: peerIdentity.uniqueId,
+            commitment: commitment.toString("base64"),
+        }, hostname);
+    }
+
+    function revealKey({ pairingId }: PairingResponseDecl, certificate: Buffer = peerCertificate) {
+        return service.receivePairingReveal({
+            pairingId,
+            publicKey: publicKey.toString("base64"),
+            certificate: certificate.toString("base64"),
+        });
+    }
+
+    it("should derive the same code as the peer", function() {
+        const response = requestPairing();
+        expect(response, "Pairing request was refused").to.not.be.null;
+        expect(revealKey(response), "Revealed key was refused").to.be.true;
+
+        const responderKey = Buffer.from(response.publicKey, "base64");
+        const expectedCode = derivePairingCode(
+            diffieHellman({ privateKey, publicKey: createPublicKey({ key: responderKey, format: "der", type: "spki" }) }),
+            [peerIdentity.uniqueId, publicKey, peerCertificate],
+            [localIdentity.uniqueId, responderKey, identity.getCertificate()]);
+
+        const [ pairing = null ] = service.getPairings();
+        expect(pairing?.code).to.equal(expectedCode);
+        expect(pairing.uniqueId).to.equal(peerIdentity.uniqueId);
+    });
+
+    it("should refuse a key which does not match the commitment", function() {
+        const otherKey: Buffer = generateKeyPairSync("x25519").publicKey.export({ type: "spki", format: "der" });
+        const response = requestPairing(createHash("sha256").update(otherKey).update(peerCertificate).digest());
+
+        expect(revealKey(response)).to.be.false;
+        expect(service.getPairings()).to.be.empty;
+    });
+
+    it("should refuse a certificate which does not belong to the peer", function() {
+        const localCertificate = identity.getCertificate();
+        const response = requestPairing(createHash("sha256").update(publicKey).update(localCertificate).digest());
+
+        expect(revealKey(response, localCertificate)).to.be.false;
+        expect(service.getPairings()).to.be.empty;
+    });
+
+    it("should only trust the peer once the pairing is accepted", async function() {
+        const response = requestPairing();
+        revealKey(response);
+        expect(await identity.verifyPeerCertificate(peerIdentity.uniqueId, peerCertificate)).to.be.false;
+
+        const result = await service.confirmPairing(response.pairingId, true);
+        expect(result.success, result.message).to.be.true;
+        expect(await identity.verifyPeerCertificate(peerIdentity.uniqueId, peerCertificate)).to.be.true;
+        expect(service.getPairings()).to.be.empty;
+    });
+
+    it("should not trust the peer if the pairing is rejected", async function() {
+        const response = requestPairing();
+        revealKey(response);
+
+        await service.confirmPairing(response.pairingId, false);
+        expect(await identity.verifyPeerCertificate(peerIdentity.uniqueId, peerCertificate)).to.be.false;
+        expect(service.getPairings()).to.be.empty;
+    });
+
+    it("should discard the pairing if the peer rejects it", async function() {
+        const response = requestPairing();
+        revealKey(response);
+
+        expect(service.receivePairingConfirmation({ pairingId: response.pairingId, accepted: false })).to.be.true;
+        expect(service.getPairings()).to.be.empty;
+        expect((await service.confirmPairing(response.pairingId, true)).success).to.be.false;
+    });
+
+    it("should limit the pending pairings requested from one address", function() {
+        expect(requestPairing(undefined, "10.0.0.2")).to.not.be.null;
+        expect(requestPairing(undefined, "10.0.0.2")).to.not.be.null;
+        expect(requestPairing(undefined, "10.0.0.2"), "Third pairing from one address was not refused").to.be.null;
+        expect(requestPairing(undefined, "10.0.0.3")).to.not.be.null;
+    });
+
+    it("should make way for new pairings by discarding ones which were never revealed", function() {
+        const revealed = requestPairing();
+        revealKey(revealed);
+        const first = requestPairing(undefined, "10.0.0.1");
+        for (let address = 2; address <= 15; address++) {
+            requestPairing(undefined, `10.0.0.${address}`);
+        }
+
+        expect(requestPairing(undefined, "10.0.0.16"), "Pairing was refused while the table was full").to.not.be.null;
+        expect(revealKey(first), "Oldest unrevealed pairing was not discarded").to.be.false;
+        expect(service.getPairings().map(({ pairingId }) => pairingId)).to.deep.equal([ revealed.pairingId ]);
+    });
+
+    before(async function() {
+        this.timeout(20000);
+        [localIdentity, peerIdentity] = await Promise.all([generateNewIdentity(null), generateNewIdentity(null)]);
+        peerCertificate = new X509Certificate(peerIdentity.cert).raw;
+    });
+
+    beforeEach(function() {
+        identity = new IdentityService(localIdentity.uniqueId, localIdentity);
+        service = new PairingService(identity);
+        const keyPair = generateKeyPairSync("x25519");
+        privateKey = keyPair.privateKey;
+        publicKey = keyPair.publicKey.export({ type: "spki", format: "der" });
+    });
+
+});
@@ -1,6 +1,9 @@
 import PouchDB from "pouchdb";
 import { DatabaseContext, DatabaseDocument, VaultDatabase, VaultDB, VaultService } from "../../../services";
 import { DatabasePluginAttachment } from "../../../pouch";
+import { createDataset, createNewIdentity, hashDataset, IVaultDataset } from "../../../encryption/serialize";
+import { EncryptionCipher, VaultAlgorithm } from "../../../encryption/EncryptionCipher";
+import { defaultKdfParameters } from "../../../encryption/KdfParameters";
 
 import { describe, it, beforeEach } from "mocha";
 import sinon from "sinon";
@@ -77,6 +80,206 @@ describe("Test vault database wrapper", function() {
         expect(putAttachment.called, "setContent() uploaded attachment despite failure on get()").to.be.false;
     });
 
+    it("records the accepted version in a local document", async function() {
+        let buffer: Buffer = Buffer.from('{"hello":"world"}');
+        let get: sinon.SinonStub<any> = sandbox.stub().rejects({ status: 404 });
+        let put: sinon.SinonStub<any> = sandbox.stub().resolves({ ok: { valueOf: () => true, }});
+        let db = sandbox.createStubInstance<VaultDB>(PouchDB, { get, put });
+
+        const vault = new VaultDatabase(db, fakeKey);
+        const result = await vault.setAcceptedContent(3, buffer);
+
+        expect(result, "setAcceptedContent() returned false, indicating failure").to.be.true;
+        expect(put.getCall(0).args[0]).to.deep.include({ _id: "_local/accepted", version: 3, content: buffer.toString("base64") });
+    });
+
+    it("does not replace the accepted version with an older one", async function() {
+        let get: sinon.SinonStub<any> = sandbox.stub().resolves({ _id: "_local/accepted", _rev: "1-abc", version: 5, content: "" });
+        let put: sinon.SinonStub<any> = sandbox.stub().resolves({ ok: { valueOf: () => true, }});
+        let db = sandbox.createStubInstance<VaultDB>(PouchDB, { get, put });
+
+        const vault = new VaultDatabase(db, fakeKey);
+
+        expect(await vault.setAcceptedContent(4, Buffer.alloc(0))).to.be.false;
+        expect(put.called, "setAcceptedContent() replaced a newer version").to.be.false;
+    });
+
+    it("detects content older than the accepted version as a rollback", async function() {
+        let get: sinon.SinonStub<any> = sandbox.stub().resolves({ _id: "_local/accepted", _rev: "1-abc", version: 5, content: "" });
+        let db = sandbox.createStubInstance<VaultDB>(PouchDB, { get });
+
+        const vault = new VaultDatabase(db, fakeKey);
+
+        expect(await vault.isRollback(4, "test")).to.be.true;
+        expect(await vault.isRollback(5, "test")).to.be.false;
+        expect(await vault.isRollback(6, "test")).to.be.false;
+    });
+
+    it("does not detect a rollback before any version was accepted", async function() {
+        let get: sinon.SinonStub<any> = sandbox.stub().rejects({ status: 404 });
+        let db = sandbox.createStubInstance<VaultDB>(PouchDB, { get });
+
+        const vault = new VaultDatabase(db, fakeKey);
+
+        expect(await vault.isRollback(0, "test")).to.be.false;
+    });
+
+    it("writes each entry to a document of its own", async function() {
+        let buffer: Buffer = Buffer.from("entry");
+        let get: sinon.SinonStub<any> = sandbox.stub().rejects({ status: 404 });
+        let putAttachment: sinon.SinonStub<any> = sandbox.stub().resolves({ ok: { valueOf: () => true, }});
+        let db = sandbox.createStubInstance<VaultDB>(PouchDB, { get, putAttachment });
+
+        const vault = new VaultDatabase(db, fakeKey);
+
+        expect(await vault.putEntry("abc", buffer)).to.be.true;
+        expect(putAttachment.getCall(0).args.slice(0, 3)).to.deep.equal([ "entry/abc", "entry", buffer ]);
+    });
+
+    it("writes each attached file to a document of its own", async function() {
+        let buffer: Buffer = Buffer.from("file");
+        let get: sinon.SinonStub<any> = sandbox.stub().rejects({ status: 404 });
+        let putAttachment: sinon.SinonStub<any> = sandbox.stub().resolves({ ok: { valueOf: () => true, }});
+        let db = sandbox.createStubInstance<VaultDB>(PouchDB, { get, putAttachment });
+
+        const vault = new VaultDatabase(db, fakeKey);
+
+        expect(await vault.putAttachment("abc", buffer)).to.be.true;
+        expect(putAttachment.getCall(0).args.slice(0, 3)).to.deep.equal([ "attachment/abc", "file", buffer ]);
+    });
+
+    it("does not report conflicts for a vault with a single revision", async function() {
+        let get: sinon.SinonStub<any> = sandbox.stub().resolves({ _id: "vault", _rev: "2-b" });
+        let db = sandbox.createStubInstance<VaultDB>(PouchDB, { get });
+
+        const vault = new VaultDatabase(db, fakeKey);
+
+        expect(await vault.getConflicts()).to.be.null;
+    });
+
+    it("reports conflicting revisions along with the revision they descend from", async function() {
+        let get: sinon.SinonStub<any> = sandbox.stub();
+        get.withArgs("vault", { conflicts: true }).resolves({ _id: "vault", _rev: "3-c", _conflicts: [ "2-x" ] });
+        get.withArgs("vault", { rev: "3-c", revs: true }).resolves({ _revisions: { start: 3, ids: [ "c", "b", "a" ] } });
+        get.withArgs("vault", { rev: "2-x", revs: true }).resolves({ _revisions: { start: 2, ids: [ "x", "a" ] } });
+        let getAttachment: sinon.SinonStub<any> = sandbox.stub()
+            .callsFake((id, attachment, { rev }) => Promise.resolve(Buffer.from(rev)));
+        let db = sandbox.createStubInstance<VaultDB>(PouchDB, { get, getAttachment });
+
+        const vault = new VaultDatabase(db, fakeKey);
+        const conflict = await vault.getConflicts();
+
+        expect(conflict.current).to.deep.equal({ rev: "3-c", content: Buffer.from("3-c") });
+        expect(conflict.conflicts).to.deep.equal([ { rev: "2-x", content: Buffer.from("2-x") } ]);
+        expect(conflict.base).to.deep.equal(Buffer.from("1-a"));
+    });
+
+    it("records when the vault was moved to the trash", async function() {
+        let deleted = new Date("2024-05-01T12:00:00Z");
+        let get: sinon.SinonStub<any> = sandbox.stub().rejects({ status: 404 });
+        let put: sinon.SinonStub<any> = sandbox.stub().resolves({ ok: { valueOf: () => true, }});
+        let db = sandbox.createStubInstance<VaultDB>(PouchDB, { get, put });
+
+        const vault = new VaultDatabase(db, fakeKey);
+
+        expect(await vault.moveToTrash(deleted)).to.be.true;
+        expect(put.getCall(0).args[0]).to.deep.include({ _id: "trash", deleted: deleted.toISOString() });
+    });
+
+    it("does not report a deletion time for a vault outside of the trash", async function() {
+        let get: sinon.SinonStub<any> = sandbox.stub().rejects({ status: 404 });
+        let db = sandbox.createStubInstance<VaultDB>(PouchDB, { get });
+
+        const vault = new VaultDatabase(db, fakeKey);
+
+        expect(await vault.getDeletionTime()).to.be.null;
+    });
+
+    describe("Entry history", function() {
+
+        let first: IVaultDataset, second: IVaultDataset;
+
+        function stubEntries(documents: { [id: string]: Buffer }, versions: { [id: string]: string }) {
+            let getAttachment: sinon.SinonStub<any> = sandbox.stub()
+                .callsFake(async (id: string) => documents[id] ?? Promise.reject({ status: 404 }));
+            let get: sinon.SinonStub<any> = sandbox.stub()
+                .callsFake(async (id: string) => id in versions ? { _id: id, entryId: versions[id] } : Promise.reject({ status: 404 }));
+            return new VaultDatabase(sandbox.createStubInstance<VaultDB>(PouchDB, { get, getAttachment }), fakeKey);
+        }
+
+        it("looks up each earlier version by the hash it was replaced with", async function() {
+            const vault = stubEntries(
+                { "entry/new": second.serialize(), "entry/old": first.serialize() },
+                { [`entry-version/${hashDataset(first).toString("hex")}`]: "old" });
+
+            const history = await vault.getEntryHistory("new");
+            expect(history).to.have.lengthOf(2);
+            expect(history[0].equals(second.serialize())).to.be.true;
+            expect(history[1].equals(first.serialize())).to.be.true;
+        });
+
+        it("stops at a version document which leads to another version", async function() {
+            const vault = stubEntries(
+                { "entry/new": second.serialize(), "entry/other": second.serialize() },
+                { [`entry-version/${hashDataset(first).toString("hex")}`]: "other" });
+
+            expect(await vault.getEntryHistory("new")).to.have.lengthOf(1);
+        });
+
+        it("gives no versions of a malformed entry", async function() {
+            const vault = stubEntries({ "entry/new": Buffer.from("malformed") }, {});
+
+            expect(await vault.getEntryHistory("new")).to.be.empty;
+        });
+
+        before(async function() {
+            const [ , privateKey ] = await createNewIdentity();
+            const cipher = new EncryptionCipher(
+                Buffer.alloc(32), VaultAlgorithm.AesGcm256, await EncryptionCipher.createSalt(), defaultKdfParameters);
+            first = createDataset(await cipher._encrypt(Buffer.from("first")), privateKey);
+            second = createDataset(await cipher._encrypt(Buffer.from("second")), privateKey, first);
+        });
+
+    });
+
+    it("counts a deletion from when it was first found if its time is earlier", async function() {
+        let get: sinon.SinonStub<any> = sandbox.stub();
+        get.withArgs("trash").resolves({ _id: "trash", _rev: "1-a", deleted: "1970-01-01T00:00:00.000Z" });
+        get.withArgs("_local/trash").rejects({ status: 404 });
+        let put: sinon.SinonStub<any> = sandbox.stub().resolves({ ok: { valueOf: () => true, }});
+        let db = sandbox.createStubInstance<VaultDB>(PouchDB, { get, put });
+
+        const vault = new VaultDatabase(db, fakeKey);
+        const before = Date.now();
+
+        expect((await vault.getDeletionTime()).getTime()).to.be.at.least(before);
+        expect(put.getCall(0).args[0]).to.deep.include({ _id: "_local/trash", deleted: "1970-01-01T00:00:00.000Z" });
+    });
+
+    it("keeps the time a deletion was first found", async function() {
+        let received = "2024-05-02T12:00:00.000Z";
+        let get: sinon.SinonStub<any> = sandbox.stub();
+        get.withArgs("trash").resolves({ _id: "trash", _rev: "1-a", deleted: "2024-05-01T12:00:00.000Z" });
+        get.withArgs("_local/trash").resolves({ _id: "_local/trash", deleted: "2024-05-01T12:00:00.000Z", received });
+        let put: sinon.SinonStub<any> = sandbox.stub().resolves({ ok: { valueOf: () => true, }});
+        let db = sandbox.createStubInstance<VaultDB>(PouchDB, { get, put });
+
+        const vault = new VaultDatabase(db, fakeKey);
+
+        expect((await vault.getDeletionTime()).toISOString()).to.equal(received);
+        expect(put.called, "getDeletionTime() recorded a deletion which was already found").to.be.false;
+    });
+
+    it("lists the IDs of the entry documents", async function() {
+        let allDocs: sinon.SinonStub<any> = sandbox.stub().resolves({ rows: [ { id: "entry/abc" }, { id: "entry/def" } ] });
+        let db = sandbox.createStubInstance<VaultDB>(PouchDB, { allDocs });
+
+        const vault = new VaultDatabase(db, fakeKey);
+
+        expect(await vault.listEntries()).to.deep.equal([ "abc", "def" ]);
+        expect(allDocs.getCall(0).args[0]).to.include({ startkey: "entry/" });
+    });
+
     before(function() {
         sandbox = sinon.createSandbox();
     });
@@ -0,0 +1,71 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { createHash } from "crypto";
+import { Readable } from "stream";
+
+import { createVaultEntry, VaultEntry } from "../encryption/VaultEntry";
+import {
+    auditVaultEntries,
+    estimatePasswordEntropy,
+    findBreachedPasswords,
+    getBreachedPasswordPrefixes,
+} from "../encryption/VaultAudit";
+
+describe("Test vault audits", function() {
+
+    const now = new Date("2024-06-01T00:00:00Z");
+
+    function entry(password: string, modified: string | null = "2024-05-01T00:00:00Z"): VaultEntry {
+        const date = modified ? new Date(modified) : null;
+        return { ...createVaultEntry("entry"), password, created: date, modified: date };
+    }
+
+    function sha1(password: string): string {
+        return createHash("sha1").update(password).digest("hex").toUpperCase();
+    }
+
+    it("should estimate less entropy for repeated and sequential characters", function() {
+        expect(estimatePasswordEntropy("abcdefgh")).to.be.lessThan(estimatePasswordEntropy("aqmzkwpd"));
+        expect(estimatePasswordEntropy("aaaaaaaa")).to.be.closeTo(Math.log2(26) + 7, 0.001);
+        expect(estimatePasswordEntropy("Xk9#mQ2!vL7@")).to.be.greaterThan(70);
+        expect(estimatePasswordEntropy("")).to.equal(0);
+    });
+
+    it("should report weak, reused and old passwords", function() {
+        const entries = new Map([
+            [ "mail", entry("hunter2") ],
+            [ "bank", entry("Xk9#mQ2!vL7@pR4$", "2022-01-01T00:00:00Z") ],
+            [ "shop", entry("Xk9#mQ2!vL7@pR4$") ],
+            [ "legacy", entry("t7#Vq!9zLm@2Wc$e", null) ],
+            [ "note", entry("") ],
+        ]);
+
+        const report = auditVaultEntries(entries, { maxAgeDays: 90 }, now);
+
+        expect(report.audited).to.equal(4);
+        expect(report.weak.map(({ name }) => name)).to.deep.equal([ "mail" ]);
+        expect(report.reused).to.deep.equal([ [ "bank", "shop" ] ]);
+        expect(report.old).to.deep.equal([
+            { name: "bank", modified: "2022-01-01T00:00:00.000Z", days: 882 },
+            { name: "legacy", modified: null, days: null },
+        ]);
+        expect(report.breached).to.be.null;
+    });
+
+    it("should find passwords in a list of whole hashes", async function() {
+        const entries = new Map([ [ "mail", entry("hunter2") ], [ "bank", entry("Xk9#mQ2!vL7@pR4$") ] ]);
+        const list = Readable.from([ `${sha1("password")}:100\n${sha1("hunter2").toLowerCase()}:17\r\n` ]);
+
+        expect(await findBreachedPasswords(entries, list)).to.deep.equal([ { name: "mail", count: 17 } ]);
+    });
+
+    it("should find passwords in a range which leaves out its prefix", async function() {
+        const entries = new Map([ [ "mail", entry("hunter2") ] ]);
+        const [ prefix ] = getBreachedPasswordPrefixes(entries);
+        const list = Readable.from([ `${sha1("hunter2").slice(5)}:3\n` ]);
+
+        expect(prefix).to.equal(sha1("hunter2").slice(0, 5));
+        expect(await findBreachedPasswords(entries, list, prefix)).to.deep.equal([ { name: "mail", count: 3 } ]);
+    });
+
+});
@@ -0,0 +1,220 @@
+import { createPrivateKey, createSign, randomBytes } from "crypto";
+
+import { describe, it, before, beforeEach } from "mocha";
+import { expect } from "chai";
+
+import {
+    defaultKdfParameters,
+    EncryptionCipher,
+    VaultAlgorithm,
+    VaultPayload,
+} from "../encryption";
+import {
+    continuesKeyTransitions,
+    createDataset,
+    createKeyTransition,
+    createNewIdentity,
+    deserialize,
+    hashDataset,
+    VaultRecordType,
+    VaultSignatureAlgorithm,
+} from "../encryption/serialize";
+
+describe("Test vault serialization", function() {
+
+    let vaultId: string;
+    let privateKey: Buffer;
+    let payload: VaultPayload;
+
+    function createV0Dataset(content: Buffer): Buffer {
+        const signature = createSign("SHA512")
+            .update(content)
+            .sign(createPrivateKey({ key: privateKey, format: "der", type: "sec1" }));
+        const header = Buffer.alloc(16);
+        header.writeInt32LE(0, 0);
+        header.writeInt32LE(0, 4);
+        header.writeInt32LE(signature.length, 8);
+        header.writeInt32LE(content.length, 12);
+
+        return Buffer.concat([ header, signature, content ]);
+    }
+
+    before(async function() {
+        let publicKey: Buffer;
+        [ publicKey, privateKey ] = await createNewIdentity();
+        vaultId = publicKey.toString("base64url");
+    });
+
+    beforeEach(async function() {
+        const salt = await EncryptionCipher.createSalt();
+        const cipher = new EncryptionCipher(randomBytes(32), VaultAlgorithm.AesGcm256, salt, defaultKdfParameters);
+        payload = await cipher._encrypt(Buffer.from('{"message":"hello"}'));
+    });
+
+    it("should read back a vault in the current format", function() {
+        const dataset = deserialize(createDataset(payload, privateKey).serialize());
+
+        expect(dataset.protocolVersion).to.equal(1);
+        expect(dataset.validate(vaultId)).to.be.true;
+        expect(EncryptionCipher.wrapPayload(dataset.unwrap()).equals(EncryptionCipher.wrapPayload(payload))).to.be.true;
+    });
+
+    it("should keep the creation time and metadata of the previous version", async function() {
+        const metadataType = VaultRecordType.Metadata + 1;
+        const first = createDataset(payload, privateKey);
+        first.metadata.set(metadataType, Buffer.from("kept"));
+        const firstVersion = deserialize(createDataset(payload, privateKey, first).serialize());
+        await new Promise(resolve => setTimeout(resolve, 5));
+
+        const secondVersion = deserialize(createDataset(payload, privateKey, firstVersion).serialize());
+
+        expect(secondVersion.created.getTime()).to.equal(first.created.getTime());
+        expect(secondVersion.modified.getTime()).to.be.greaterThan(firstVersion.modified.getTime());
+        expect(secondVersion.metadata.get(metadataType)?.toString()).to.equal("kept");
+    });
+
+    it("should chain each version to the one it replaced", function() {
+        const first = deserialize(createDataset(payload, privateKey).serialize());
+        const second = deserialize(createDataset(payload, privateKey, first).serialize());
+
+        expect(first.version).to.equal(1);
+        expect(first.previousHash).to.be.null;
+        expect(second.version).to.equal(2);
+        expect(second.previousHash.equals(hashDataset(first))).to.be.true;
+    });
+
+    it("should still read vaults in the V0 format", function() {
+        const dataset = deserialize(createV0Dataset(EncryptionCipher.wrapPayload(payload)));
+
+        expect(dataset.protocolVersion).to.equal(0);
+        expect(dataset.created).to.be.null;
+        expect(dataset.version).to.equal(0);
+        expect(dataset.validate(vaultId)).to.be.true;
+        expect(dataset.unwrap().vault.equals(payload.vault)).to.be.true;
+    });
+
+    it("should not validate a vault whose body was modified", function() {
+        const serialized = createDataset(payload, privateKey).serialize();
+        serialized[serialized.length - 1] ^= 1;
+
+        expect(deserialize(serialized).validate(vaultId)).to.be.false;
+    });
+
+    it("should reject truncated vaults", function() {
+        const serialized = createDataset(payload, privateKey).serialize();
+
+        for (const length of [ 2, 6, 30, serialized.length - 1 ]) {
+            expect(() => deserialize(serialized.slice(0, length))).to.throw(/truncated|invalid/);
+        }
+        expect(() => deserialize(createV0Dataset(EncryptionCipher.wrapPayload(payload)).slice(0, 40)))
+            .to.throw(/invalid/);
+    });
+
+    it("should reject sizes larger than the vault", function() {
+        const serialized = createDataset(payload, privateKey).serialize();
+        serialized.writeInt32LE(0x7fffffff, 16);
+
+        expect(() => deserialize(serialized)).to.throw("size of body is 2147483647");
+    });
+
+    it("should reject unknown versions and data which is not a vault", function() {
+        const serialized = createDataset(payload, privateKey).serialize();
+        serialized.writeInt32LE(2, 4);
+
+        expect(() => deserialize(serialized)).to.throw("unsupported version 2");
+        expect(() => deserialize(Buffer.from("not a vault"))).to.throw("not a vault");
+    });
+
+    describe("with Ed25519 signatures", function() {
+
+        let ed25519VaultId: string;
+        let ed25519PrivateKey: Buffer;
+
+        before(async function() {
+            let publicKey: Buffer;
+            [ publicKey, ed25519PrivateKey ] = await createNewIdentity(VaultSignatureAlgorithm.Ed25519);
+            ed25519VaultId = publicKey.toString("base64url");
+        });
+
+        it("should use the raw public key as a short vault ID", function() {
+            expect(ed25519VaultId).to.have.lengthOf(43);
+        });
+
+        it("should identify the algorithm in the header and validate the signature", function() {
+            const dataset = deserialize(createDataset(payload, ed25519PrivateKey).serialize());
+
+            expect(dataset.signatureAlgorithm).to.equal(VaultSignatureAlgorithm.Ed25519);
+            expect(dataset.signature).to.have.lengthOf(64);
+            expect(dataset.validate(ed25519VaultId)).to.be.true;
+        });
+
+        it("should not validate against the ID of another vault", async function() {
+            const [ otherKey ] = await createNewIdentity(VaultSignatureAlgorithm.Ed25519);
+            const dataset = deserialize(createDataset(payload, ed25519PrivateKey).serialize());
+
+            expect(dataset.validate(otherKey.toString("base64url"))).to.be.false;
+            expect(dataset.validate(vaultId)).to.be.false;
+        });
+
+        it("should not validate an ECDSA vault whose header claims Ed25519", function() {
+            const serialized = createDataset(payload, privateKey).serialize();
+            serialized.writeInt32LE(VaultSignatureAlgorithm.Ed25519, 8);
+
+            expect(deserialize(serialized).validate(vaultId)).to.be.false;
+        });
+
+    });
+
+    describe("with a separate signing key", function() {
+
+        let cipher: EncryptionCipher;
+
+        beforeEach(async function() {
+            cipher = new EncryptionCipher(
+                randomBytes(32), VaultAlgorithm.AesGcm256, await EncryptionCipher.createSalt(), defaultKdfParameters);
+        });
+
+        it("should store the signing key encrypted in its own record", async function() {
+            const wrappedKey = await cipher.encryptSecret(privateKey);
+            const dataset = deserialize(createDataset(payload, privateKey, null, { wrappedKey }).serialize());
+
+            expect((await cipher._decrypt(dataset.signingKey)).equals(privateKey)).to.be.true;
+            expect(dataset.keyTransitions).to.be.empty;
+        });
+
+        it("should keep the vault ID when the signing key is replaced", async function() {
+            const first = createDataset(payload, privateKey);
+            const [ publicKey, newPrivateKey ] = await createNewIdentity(VaultSignatureAlgorithm.Ed25519);
+            const transition = createKeyTransition(vaultId, first, privateKey, publicKey, VaultSignatureAlgorithm.Ed25519);
+
+            const second = deserialize(createDataset(payload, newPrivateKey, first, { transition }).serialize());
+            const third = deserialize(createDataset(payload, newPrivateKey, second).serialize());
+
+            expect(second.keyTransitions).to.have.lengthOf(1);
+            expect(second.validate(vaultId)).to.be.true;
+            expect(third.validate(vaultId)).to.be.true;
+            expect(continuesKeyTransitions(second, third)).to.be.true;
+        });
+
+        it("should not validate a vault signed by a replaced key", async function() {
+            const first = createDataset(payload, privateKey);
+            const [ publicKey, newPrivateKey ] = await createNewIdentity(VaultSignatureAlgorithm.Ed25519);
+            const transition = createKeyTransition(vaultId, first, privateKey, publicKey, VaultSignatureAlgorithm.Ed25519);
+            const second = createDataset(payload, newPrivateKey, first, { transition });
+
+            expect(createDataset(payload, privateKey, second).validate(vaultId)).to.be.false;
+            expect(continuesKeyTransitions(second, createDataset(payload, privateKey, first))).to.be.false;
+        });
+
+        it("should not validate a transition signed by another key", async function() {
+            const first = createDataset(payload, privateKey);
+            const [ , otherPrivateKey ] = await createNewIdentity();
+            const [ publicKey, newPrivateKey ] = await createNewIdentity();
+            const transition = createKeyTransition(vaultId, first, otherPrivateKey, publicKey, VaultSignatureAlgorithm.SHA512);
+
+            expect(createDataset(payload, newPrivateKey, first, { transition }).validate(vaultId)).to.be.false;
+        });
+
+    });
+
+});
@@ -0,0 +1,78 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import {
+    createVaultEntry,
+    entriesEqual,
+    getEntryField,
+    isAttachmentName,
+    parseVaultEntry,
+    serializeVaultEntry,
+    setEntryField,
+} from "../encryption/VaultEntry";
+
+describe("Test structured vault entries", function() {
+
+    it("should read an entry stored as a single value as its password", function() {
+        const entry = parseVaultEntry("hunter2", "mail");
+
+        expect(entry).to.deep.include({ title: "mail", password: "hunter2", username: "", created: null, modified: null });
+        expect(entry.urls).to.be.empty;
+    });
+
+    it("should read back the entry it serialized", function() {
+        let entry = createVaultEntry("mail");
+        entry = setEntryField(entry, "username", "jdoe");
+        entry = setEntryField(entry, "security-question", "blue");
+
+        const copy = parseVaultEntry(JSON.parse(JSON.stringify(serializeVaultEntry(entry))), "other");
+
+        expect(entriesEqual(copy, entry)).to.be.true;
+        expect(copy.title).to.equal("mail");
+        expect(copy.fields.get("security-question")).to.equal("blue");
+        expect(copy.created?.getTime()).to.equal(entry.created?.getTime());
+    });
+
+    it("should read back attached files stored in the entry and on their own", function() {
+        const entry = {
+            ...createVaultEntry("server"),
+            attachments: [
+                { name: "id_ed25519", size: 3, data: Buffer.from("key"), attachmentId: null, hash: null },
+                { name: "codes.pdf", size: 9000, data: null, attachmentId: "abc", hash: Buffer.from("hash") },
+            ],
+        };
+
+        const copy = parseVaultEntry(JSON.parse(JSON.stringify(serializeVaultEntry(entry))), "server");
+
+        expect(copy.attachments).to.deep.equal(entry.attachments);
+    });
+
+    it("should only accept plain file names for attachments", function() {
+        expect(isAttachmentName("license.txt")).to.be.true;
+        [ "", ".", "..", "../id_rsa", "keys/id_rsa", "C:\\id_rsa", 42 ].forEach(name => expect(isAttachmentName(name)).to.be.false);
+        expect(() => parseVaultEntry({ attachments: [ { name: "../x", size: 1, data: "" } ] }, "server")).to.throw(/invalid/);
+    });
+
+    it("should set lists from values separated by commas", function() {
+        const entry = setEntryField(createVaultEntry("mail"), "urls", "https://mail.example.com, https://example.com,");
+
+        expect(entry.urls).to.deep.equal([ "https://mail.example.com", "https://example.com" ]);
+        expect(getEntryField(entry, "urls")).to.equal("https://mail.example.com,https://example.com");
+    });
+
+    it("should set custom fields without changing the entry it was given", function() {
+        const entry = parseVaultEntry("hunter2", "mail");
+        const changed = setEntryField(entry, "pin", "1234");
+
+        expect(getEntryField(changed, "pin")).to.equal("1234");
+        expect(getEntryField(entry, "pin")).to.be.undefined;
+        expect(changed.created).to.be.an.instanceOf(Date);
+        expect(entry.created).to.be.null;
+    });
+
+    it("should not read an entry which is neither a value nor an object", function() {
+        expect(() => parseVaultEntry(42, "mail")).to.throw(/invalid/);
+        expect(() => parseVaultEntry(null, "mail")).to.throw(/invalid/);
+    });
+
+});
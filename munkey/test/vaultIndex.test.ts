@@ -0,0 +1,268 @@
+import { describe, it, before, beforeEach } from "mocha";
+import chai, { expect } from "chai";
+import chaiAsPromised from "chai-as-promised";
+
+import {
+    createDataset,
+    createNewIdentity,
+    deserialize,
+    hashDataset,
+    IVaultDataset,
+    VaultDatasetType,
+} from "../encryption/serialize";
+import {
+    createAttachment,
+    createEntry,
+    createVaultIndex,
+    deserializeVaultIndex,
+    expireTrash,
+    mergeEntries,
+    mergeTrash,
+    readAttachment,
+    readEntry,
+    readEntryHistory,
+    replaceEntryKey,
+    restoreFromTrash,
+    serializeVaultIndex,
+    VaultIndex,
+} from "../encryption/VaultIndex";
+import { createVaultEntry, VaultEntry } from "../encryption/VaultEntry";
+
+chai.use(chaiAsPromised);
+
+function withPassword(password: string): VaultEntry {
+    return { ...createVaultEntry("mail"), password };
+}
+
+describe("Test vault entry documents", function() {
+
+    let vaultId: string;
+    let privateKey: Buffer;
+    let index: VaultIndex;
+    let entry: IVaultDataset;
+
+    before(async function() {
+        let publicKey: Buffer;
+        [ publicKey, privateKey ] = await createNewIdentity();
+        vaultId = publicKey.toString("base64url");
+    });
+
+    beforeEach(async function() {
+        index = await createVaultIndex();
+        entry = await createEntry(index, withPassword("hunter2"), "device", privateKey, [], null);
+        index.entries.set("mail", { entryId: "abc", hash: hashDataset(entry) });
+    });
+
+    it("should read back an entry listed in the index", async function() {
+        expect(entry.datasetType).to.equal(VaultDatasetType.Entry);
+        const { entry: read, device, version } = await readEntry(index, "mail", entry.serialize(), vaultId);
+
+        expect(read.password).to.equal("hunter2");
+        expect([ device, version ]).to.deep.equal([ "device", 1 ]);
+    });
+
+    it("should read back the index it serialized", function() {
+        const copy = deserializeVaultIndex(serializeVaultIndex(index));
+
+        expect(copy.entryKey.equals(index.entryKey)).to.be.true;
+        expect(copy.entries.get("mail").entryId).to.equal("abc");
+        expect(copy.entries.get("mail").hash.equals(index.entries.get("mail").hash)).to.be.true;
+    });
+
+    it("should read entries written before its entry key was replaced", async function() {
+        const replaced = await replaceEntryKey(index);
+        const next = await createEntry(replaced, withPassword("correct horse"), "device", privateKey, [], entry);
+        replaced.entries.set("mail", { entryId: "def", hash: hashDataset(next) });
+        const copy = deserializeVaultIndex(serializeVaultIndex(replaced));
+        const history = await readEntryHistory(copy, "mail", [ next.serialize(), entry.serialize() ], vaultId);
+
+        expect(copy.entryKey.equals(index.entryKey)).to.be.false;
+        expect(history.map(({ entry }) => entry.password)).to.deep.equal([ "correct horse", "hunter2" ]);
+        await expect(readEntry({ ...index, entries: replaced.entries }, "mail", next.serialize(), vaultId))
+            .to.be.rejectedWith(/integrity check/);
+    });
+
+    it("should keep the type of the previous dataset", async function() {
+        const next = deserialize(createDataset(entry.unwrap(), privateKey, entry).serialize());
+
+        expect(next.datasetType).to.equal(VaultDatasetType.Entry);
+        expect(deserialize(createDataset(entry.unwrap(), privateKey).serialize()).datasetType)
+            .to.equal(VaultDatasetType.Vault);
+    });
+
+    it("should not read an older version of the entry", async function() {
+        const next = await createEntry(index, withPassword("correct horse"), "device", privateKey, [], entry);
+        index.entries.set("mail", { entryId: "def", hash: hashDataset(next) });
+
+        await expect(readEntry(index, "mail", entry.serialize(), vaultId)).to.be.rejectedWith(/does not match/);
+        expect((await readEntry(index, "mail", next.serialize(), vaultId)).entry.password).to.equal("correct horse");
+    });
+
+    it("should not read another entry in place of the listed one", async function() {
+        const other = await createEntry(index, withPassword("other"), "device", privateKey, [], null);
+
+        await expect(readEntry(index, "mail", other.serialize(), vaultId)).to.be.rejectedWith(/does not match/);
+        await expect(readEntry(index, "unknown", entry.serialize(), vaultId)).to.be.rejectedWith(/does not match/);
+    });
+
+    it("should read the versions of an entry back to the first one", async function() {
+        const next = await createEntry(index, withPassword("correct horse"), "other device", privateKey, [], entry);
+        index.entries.set("mail", { entryId: "def", hash: hashDataset(next) });
+
+        const history = await readEntryHistory(index, "mail", [ next.serialize(), entry.serialize() ], vaultId);
+
+        expect(history.map(({ entry, device, version }) => [ entry.password, device, version ]))
+            .to.deep.equal([ [ "correct horse", "other device", 2 ], [ "hunter2", "device", 1 ] ]);
+    });
+
+    it("should not read a version which the entry did not replace", async function() {
+        const other = await createEntry(index, withPassword("other"), "device", privateKey, [], null);
+        const next = await createEntry(index, withPassword("correct horse"), "device", privateKey, [], entry);
+        index.entries.set("mail", { entryId: "def", hash: hashDataset(next) });
+
+        await expect(readEntryHistory(index, "mail", [ next.serialize(), other.serialize() ], vaultId))
+            .to.be.rejectedWith(/not part of its history/);
+    });
+
+    it("should read back an attached file listed in its entry", async function() {
+        const file = await createAttachment(index, Buffer.from("-----BEGIN KEY-----"), privateKey, []);
+        const attachment = { name: "id_rsa", size: 19, data: null, attachmentId: "ghi", hash: hashDataset(file) };
+
+        expect(file.datasetType).to.equal(VaultDatasetType.Attachment);
+        expect((await readAttachment(index, attachment, file.serialize(), vaultId)).toString()).to.equal("-----BEGIN KEY-----");
+    });
+
+    it("should not read an attached file in place of the listed one", async function() {
+        const file = await createAttachment(index, Buffer.from("file"), privateKey, []);
+        const other = await createAttachment(index, Buffer.from("other"), privateKey, []);
+        const attachment = { name: "file", size: 4, data: null, attachmentId: "ghi", hash: hashDataset(file) };
+
+        await expect(readAttachment(index, attachment, other.serialize(), vaultId)).to.be.rejectedWith(/does not match/);
+        await expect(readAttachment(index, { ...attachment, hash: hashDataset(entry) }, entry.serialize(), vaultId))
+            .to.be.rejectedWith(/not signed/);
+    });
+
+    it("should not read an entry signed by another vault", async function() {
+        const [ otherKey ] = await createNewIdentity();
+
+        await expect(readEntry(index, "mail", entry.serialize(), otherKey.toString("base64url")))
+            .to.be.rejectedWith(/not signed/);
+    });
+
+});
+
+describe("Test the trash of a vault index", function() {
+
+    const deleted = new Date("2024-05-01T12:00:00Z");
+    let index: VaultIndex;
+
+    beforeEach(async function() {
+        index = await createVaultIndex();
+        index.entries.set("mail", { entryId: "abc", hash: Buffer.from("mail") });
+        index.trash.set("bank", { entryId: "def", hash: Buffer.from("bank"), deleted });
+    });
+
+    it("should read back the trash it serialized", function() {
+        const copy = deserializeVaultIndex(serializeVaultIndex(index));
+
+        expect(copy.trash.get("bank").entryId).to.equal("def");
+        expect(copy.trash.get("bank").deleted.getTime()).to.equal(deleted.getTime());
+        expect(copy.entries.has("bank")).to.be.false;
+    });
+
+    it("should read an index written before the trash existed", function() {
+        const content = JSON.parse(serializeVaultIndex(index).toString());
+        delete content.trash;
+
+        expect(deserializeVaultIndex(Buffer.from(JSON.stringify(content))).trash).to.be.empty;
+    });
+
+    it("should move a restored entry back to the entries", function() {
+        const restored = restoreFromTrash(index, "bank");
+
+        expect(restored.entries.get("bank").entryId).to.equal("def");
+        expect(restored.trash.has("bank")).to.be.false;
+        expect(index.trash.has("bank"), "restoreFromTrash() changed the given index").to.be.true;
+    });
+
+    it("should not restore an entry which is not in the trash, or whose name is taken", function() {
+        index.trash.set("mail", { entryId: "ghi", hash: Buffer.from("old mail"), deleted });
+
+        expect(() => restoreFromTrash(index, "shop")).to.throw("The trash has no entry shop");
+        expect(() => restoreFromTrash(index, "mail")).to.throw("Vault already has an entry mail");
+    });
+
+    it("should expire entries which were deleted before the retention period", function() {
+        const now = new Date(deleted.getTime() + 31 * 24 * 60 * 60 * 1000);
+
+        const [ kept, expired ] = expireTrash(index.trash, 30, now);
+        expect([ ...kept.keys() ]).to.be.empty;
+        expect([ ...expired.keys() ]).to.deep.equal([ "bank" ]);
+
+        expect([ ...expireTrash(index.trash, 60, now)[0].keys() ]).to.deep.equal([ "bank" ]);
+    });
+
+    it("should keep the latest deletion of each entry when merging", async function() {
+        const other = await createVaultIndex();
+        const later = new Date(deleted.getTime() + 1000);
+        other.trash.set("bank", { entryId: "xyz", hash: Buffer.from("bank"), deleted: later });
+        other.trash.set("shop", { entryId: "jkl", hash: Buffer.from("shop"), deleted });
+
+        const trash = mergeTrash([ index, other ]);
+
+        expect(trash.get("bank").entryId).to.equal("xyz");
+        expect([ ...trash.keys() ]).to.have.members([ "bank", "shop" ]);
+    });
+
+});
+
+describe("Test merging vault entries", function() {
+
+    const base = new Map([ [ "mail", withPassword("a") ], [ "bank", withPassword("b") ], [ "shop", withPassword("c") ] ]);
+
+    function passwords(entries: Map<string, VaultEntry>): [ string, string ][] {
+        return [ ...entries ].map(([ name, entry ]) => [ name, entry.password ]);
+    }
+
+    it("should keep changes which only one version made", function() {
+        const first = new Map([ ...base, [ "mail", withPassword("changed") ], [ "new", withPassword("d") ] ]);
+        const second = new Map([ ...base ]);
+        second.delete("bank");
+
+        const { entries, conflicts } = mergeEntries(base, [ first, second ]);
+
+        expect(passwords(entries)).to.deep.equal([ [ "mail", "changed" ], [ "shop", "c" ], [ "new", "d" ] ]);
+        expect(conflicts).to.be.empty;
+    });
+
+    it("should not report entries which every version changed the same way", function() {
+        const changed = new Map([ ...base, [ "shop", withPassword("same") ] ]);
+        const copy = new Map([ ...base, [ "shop", { ...changed.get("shop") } ] ]);
+
+        const { entries, conflicts } = mergeEntries(base, [ changed, copy ]);
+
+        expect(entries.get("shop").password).to.equal("same");
+        expect(conflicts).to.be.empty;
+    });
+
+    it("should keep the first change of entries which versions changed differently", function() {
+        const first = new Map([ ...base, [ "mail", withPassword("first") ] ]);
+        const second = new Map([ ...base, [ "mail", withPassword("second") ] ]);
+        second.delete("shop");
+        const third = new Map([ ...base, [ "shop", withPassword("third") ] ]);
+
+        const { entries, conflicts } = mergeEntries(base, [ first, second, third ]);
+
+        expect(entries.get("mail").password).to.equal("first");
+        expect(entries.has("shop")).to.be.false;
+        expect(conflicts).to.deep.equal([ "mail", "shop" ]);
+    });
+
+    it("should keep every entry when the base version is unknown", function() {
+        const { entries, conflicts } = mergeEntries(new Map(), [ new Map([ [ "mail", base.get("mail") ] ]), base ]);
+
+        expect([ ...entries.keys() ]).to.have.members([ "mail", "bank", "shop" ]);
+        expect(conflicts).to.be.empty;
+    });
+
+});
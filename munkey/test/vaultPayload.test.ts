@@ -0,0 +1,178 @@
+import { randomBytes } from "crypto";
+
+import { describe, it, beforeEach } from "mocha";
+import { expect } from "chai";
+
+import {
+    createKdfCipher,
+    createPbkdf2Cipher,
+    createScryptCipher,
+    EncryptionCipher,
+    KdfAlgorithm,
+    legacyKdfParameters,
+    legacySalt,
+    VaultAlgorithm,
+    VaultPayloadType,
+} from "../encryption";
+
+describe("Test per-vault password salts", function() {
+
+    let password: string;
+    let message: Buffer;
+
+    beforeEach(function() {
+        password = randomBytes(32).toString("hex");
+        message = Buffer.from('{"message":"hello"}');
+    });
+
+    it("should store the salt in the payload header", async function() {
+        const salt = await EncryptionCipher.createSalt();
+        const cipher = await createPbkdf2Cipher(password, salt);
+        const payload = EncryptionCipher.unwrapPayload(EncryptionCipher.wrapPayload(await cipher._encrypt(message)));
+
+        expect(payload.payloadType).to.equal(VaultPayloadType.Derived);
+        expect(EncryptionCipher.getPayloadSalt(payload).equals(salt)).to.be.true;
+        expect(cipher.matchesPayload(payload)).to.be.true;
+
+        const loginCipher = await createPbkdf2Cipher(password, EncryptionCipher.getPayloadSalt(payload));
+        expect((await loginCipher._decrypt(payload)).equals(message)).to.be.true;
+    });
+
+    it("should read legacy payloads as using the constant salt", async function() {
+        const cipher = await createPbkdf2Cipher(password, legacySalt, { algorithm: VaultAlgorithm.AesCbc192 });
+        const payload = EncryptionCipher.unwrapPayload(EncryptionCipher.wrapPayload(await cipher._encrypt(message)));
+
+        expect(cipher.isLegacy()).to.be.true;
+        expect(payload.payloadType).to.equal(VaultPayloadType.Legacy);
+        expect(EncryptionCipher.getPayloadSalt(payload).toString()).to.equal(legacySalt);
+        expect((await cipher._decrypt(payload)).equals(message)).to.be.true;
+    });
+
+    it("should use a different salt for each vault", async function() {
+        const firstCipher = await createPbkdf2Cipher(password, await EncryptionCipher.createSalt());
+        const secondCipher = await createPbkdf2Cipher(password, await EncryptionCipher.createSalt());
+        const payload = await firstCipher._encrypt(message);
+
+        expect(secondCipher.matchesPayload(payload)).to.be.false;
+    });
+
+});
+
+describe("Test authenticated vault algorithms", function() {
+
+    let password: string;
+    let salt: Buffer;
+    let message: Buffer;
+
+    beforeEach(async function() {
+        password = randomBytes(32).toString("hex");
+        salt = await EncryptionCipher.createSalt();
+        message = Buffer.from('{"message":"hello"}');
+    });
+
+    for (const algorithm of [ VaultAlgorithm.AesGcm256, VaultAlgorithm.ChaCha20Poly1305 ]) {
+        it(`should record ${algorithm} and its tag in the payload`, async function() {
+            const cipher = await createPbkdf2Cipher(password, salt, { algorithm });
+            const payload = EncryptionCipher.unwrapPayload(EncryptionCipher.wrapPayload(await cipher._encrypt(message)));
+
+            expect(cipher.isLegacy()).to.be.false;
+            expect(payload.payloadType).to.equal(VaultPayloadType.Derived);
+            expect(payload.algorithm).to.equal(algorithm);
+            expect(payload.tag).to.have.lengthOf(16);
+            expect((await cipher._decrypt(payload)).equals(message)).to.be.true;
+        });
+    }
+
+    it("should fail the integrity check with the wrong password", async function() {
+        const cipher = await createPbkdf2Cipher(password, salt);
+        const payload = await cipher._encrypt(message);
+        const wrongCipher = await createPbkdf2Cipher(randomBytes(32).toString("hex"), salt);
+
+        expect(wrongCipher.matchesPayload(payload)).to.be.true;
+        expect(await wrongCipher._decrypt(payload)).to.be.null;
+    });
+
+    it("should fail the integrity check if the vault was modified", async function() {
+        const cipher = await createPbkdf2Cipher(password, salt);
+        const payload = await cipher._encrypt(message);
+        payload.vault[0] ^= 1;
+
+        expect(await cipher._decrypt(payload)).to.be.null;
+    });
+
+    it("should not match a payload encrypted with a different algorithm", async function() {
+        const cipher = await createPbkdf2Cipher(password, salt, { algorithm: VaultAlgorithm.AesGcm256 });
+        const otherCipher = await createPbkdf2Cipher(password, salt, { algorithm: VaultAlgorithm.ChaCha20Poly1305 });
+
+        expect(otherCipher.matchesPayload(await cipher._encrypt(message))).to.be.false;
+    });
+
+});
+
+describe("Test key derivation parameters", function() {
+
+    let password: string;
+    let salt: Buffer;
+    let message: Buffer;
+
+    beforeEach(async function() {
+        password = randomBytes(32).toString("hex");
+        salt = await EncryptionCipher.createSalt();
+        message = Buffer.from('{"message":"hello"}');
+    });
+
+    it("should store the scrypt parameters in the payload", async function() {
+        const cipher = await createScryptCipher(password, salt, { cost: 14, blockSize: 8, parallelization: 1 });
+        const payload = EncryptionCipher.unwrapPayload(EncryptionCipher.wrapPayload(await cipher._encrypt(message)));
+
+        expect(EncryptionCipher.getPayloadKdf(payload)).to.deep.equal({
+            kdf: KdfAlgorithm.Scrypt,
+            cost: 14,
+            blockSize: 8,
+            parallelization: 1,
+        });
+    });
+
+    it("should derive the same key from the stored parameters", async function() {
+        const cipher = await createScryptCipher(password, salt, { cost: 14 });
+        const payload = EncryptionCipher.unwrapPayload(EncryptionCipher.wrapPayload(await cipher._encrypt(message)));
+
+        const loginCipher = await createKdfCipher(
+            password, EncryptionCipher.getPayloadSalt(payload), EncryptionCipher.getPayloadKdf(payload), payload.algorithm);
+        expect(loginCipher.matchesPayload(payload)).to.be.true;
+        expect((await loginCipher._decrypt(payload)).equals(message)).to.be.true;
+    });
+
+    it("should read payloads without parameters as using the legacy parameters", async function() {
+        const cipher = await createPbkdf2Cipher(password, salt, { algorithm: VaultAlgorithm.AesCbc192 });
+        const payload = await cipher._encrypt(message);
+
+        expect(payload.payloadType).to.equal(VaultPayloadType.Salted);
+        expect(EncryptionCipher.getPayloadKdf(payload)).to.deep.equal(legacyKdfParameters);
+        expect(cipher.matchesPayload(payload)).to.be.true;
+    });
+
+    it("should not match a payload derived with a different cost", async function() {
+        const cipher = await createPbkdf2Cipher(password, salt, { iterations: 1000 });
+        const otherCipher = await createPbkdf2Cipher(password, salt, { iterations: 2000 });
+
+        expect(otherCipher.matchesPayload(await cipher._encrypt(message))).to.be.false;
+    });
+
+    it("should not read parameters of an unknown function", async function() {
+        const cipher = await createScryptCipher(password, salt, { cost: 14 });
+        const wrappedPayload = EncryptionCipher.wrapPayload(await cipher._encrypt(message));
+        wrappedPayload.writeInt32LE(99, wrappedPayload.length - 16);
+
+        expect(EncryptionCipher.getPayloadKdf(EncryptionCipher.unwrapPayload(wrappedPayload))).to.be.null;
+    });
+
+    it("should not read parameters which are out of bounds", async function() {
+        const cipher = await createScryptCipher(password, salt, { cost: 14 });
+        const wrappedPayload = EncryptionCipher.wrapPayload(await cipher._encrypt(message));
+        wrappedPayload.writeInt32LE(30, wrappedPayload.length - 12);
+
+        expect(() => EncryptionCipher.unwrapPayload(wrappedPayload)).to.throw(/scrypt cost 30/);
+    });
+
+});
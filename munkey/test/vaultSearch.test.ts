@@ -0,0 +1,54 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import { createVaultEntry, setEntryField, VaultEntry } from "../encryption/VaultEntry";
+import { fuzzyMatch, listFolder, searchEntries } from "../encryption/VaultSearch";
+
+describe("Test searching vault entries", function() {
+
+    function entry(fields: { [field: string]: string }): VaultEntry {
+        return Object.entries(fields).reduce(
+            (result, [ field, value ]) => setEntryField(result, field, value), createVaultEntry(""));
+    }
+
+    const entries = new Map([
+        [ "gmail", entry({ username: "alice@example.com", urls: "https://mail.google.com", folder: "personal" }) ],
+        [ "bank", entry({ username: "alice", tags: "finance,important", folder: "personal/money" }) ],
+        [ "payroll", entry({ urls: "https://payroll.example.com", tags: "finance", folder: "work" }) ],
+        [ "router", entry({ username: "admin" }) ],
+    ]);
+
+    it("should list the folders and entries directly inside a folder", function() {
+        expect(listFolder(entries)).to.deep.equal({ folders: [ "personal", "work" ], entries: [ "router" ] });
+        expect(listFolder(entries, "personal")).to.deep.equal({ folders: [ "money" ], entries: [ "gmail" ] });
+        expect(listFolder(entries, "/personal/money/")).to.deep.equal({ folders: [], entries: [ "bank" ] });
+        expect(listFolder(entries, "pers")).to.deep.equal({ folders: [], entries: [] });
+    });
+
+    it("should store folders as normalized paths", function() {
+        expect(entry({ folder: " /work//mail/ " }).folder).to.equal("work/mail");
+    });
+
+    it("should score whole, partial and scattered matches in that order", function() {
+        expect(fuzzyMatch("gmail", "Gmail")).to.equal(1);
+        expect(fuzzyMatch("gma", "gmail")).to.be.lessThan(1).and.greaterThan(fuzzyMatch("mai", "gmail"));
+        expect(fuzzyMatch("mai", "gmail")).to.be.greaterThan(fuzzyMatch("gml", "gmail"));
+        expect(fuzzyMatch("gml", "gmail")).to.be.greaterThan(fuzzyMatch("gml", "g-m----l"));
+        expect(fuzzyMatch("lmg", "gmail")).to.be.null;
+    });
+
+    it("should find entries by their name, username, URLs and tags", function() {
+        expect(searchEntries(entries, "router")[0]).to.deep.equal({ name: "router", score: 1, field: "name" });
+        expect(searchEntries(entries, "admin").map(({ name }) => name)).to.deep.equal([ "router" ]);
+        expect(searchEntries(entries, "google").map(({ name, field }) => [ name, field ]))
+            .to.deep.equal([ [ "gmail", "urls" ] ]);
+        expect(searchEntries(entries, "finance").map(({ name }) => name)).to.have.members([ "bank", "payroll" ]);
+    });
+
+    it("should only find entries which match every word of the query", function() {
+        expect(searchEntries(entries, "alice finance").map(({ name }) => name)).to.deep.equal([ "bank" ]);
+        expect(searchEntries(entries, "alice nothing")).to.be.empty;
+        expect(searchEntries(entries, "  ")).to.be.empty;
+    });
+
+});